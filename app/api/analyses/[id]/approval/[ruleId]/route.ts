@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { decideApproval } from "@/lib/approvals"
+import { ApprovalError } from "@/lib/errors"
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string; ruleId: string }> }) {
+  try {
+    const { id, ruleId } = await params
+    const { status, decidedBy, comment } = await req.json()
+
+    if (status !== "approved" && status !== "rejected") {
+      return NextResponse.json({ error: "status must be approved or rejected" }, { status: 400 })
+    }
+    if (typeof decidedBy !== "string" || !decidedBy.trim()) {
+      return NextResponse.json({ error: "decidedBy is required" }, { status: 400 })
+    }
+    if (status === "rejected" && (typeof comment !== "string" || !comment.trim())) {
+      return NextResponse.json({ error: "A comment is required when rejecting" }, { status: 400 })
+    }
+
+    const approval = await decideApproval(id, ruleId, {
+      status,
+      decidedBy: decidedBy.trim(),
+      comment: typeof comment === "string" ? comment.trim() : "",
+    })
+
+    return NextResponse.json({ approval })
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error recording sign-off:", error)
+    return NextResponse.json({ error: "Failed to record sign-off" }, { status: 500 })
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { requestApproval } from "@/lib/approvals"
+import { ApprovalError } from "@/lib/errors"
+
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    return NextResponse.json({ approval: await requestApproval(id) })
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error requesting sign-off:", error)
+    return NextResponse.json({ error: "Failed to request sign-off" }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { getAnalysis, removeCounterProposalClause } from "@/lib/analysis-store"
+import { isReviewLocked } from "@/lib/approvals"
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string; clauseId: string }> }) {
+  try {
+    const { id, clauseId } = await params
+    const analysis = await getAnalysis(id)
+
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+    if (isReviewLocked(analysis)) {
+      return NextResponse.json({ error: "Sign-off has been requested; the counter-proposal can no longer change" }, { status: 409 })
+    }
+
+    const counterProposal = await removeCounterProposalClause(id, clauseId)
+
+    if (!counterProposal) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ counterProposal })
+  } catch (error) {
+    console.error("Error updating counter-proposal:", error)
+    return NextResponse.json({ error: "Failed to update counter-proposal" }, { status: 500 })
+  }
+}
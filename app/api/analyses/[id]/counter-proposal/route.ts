@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { addCounterProposalClause, getAnalysis } from "@/lib/analysis-store"
+import { isReviewLocked } from "@/lib/approvals"
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const analysis = await getAnalysis(id)
+
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ counterProposal: analysis.counterProposal ?? [] })
+  } catch (error) {
+    console.error("Error loading counter-proposal:", error)
+    return NextResponse.json({ error: "Failed to load counter-proposal" }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { section, riskTitle, text, libraryClauseId } = await req.json()
+
+    if (typeof section !== "string" || !section.trim() || typeof text !== "string" || !text.trim()) {
+      return NextResponse.json({ error: "section and text are required" }, { status: 400 })
+    }
+
+    const analysis = await getAnalysis(id)
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+    if (isReviewLocked(analysis)) {
+      return NextResponse.json({ error: "Sign-off has been requested; the counter-proposal can no longer change" }, { status: 409 })
+    }
+
+    const counterProposal = await addCounterProposalClause(id, {
+      section,
+      riskTitle: typeof riskTitle === "string" ? riskTitle : section,
+      text: text.trim(),
+      libraryClauseId: typeof libraryClauseId === "string" ? libraryClauseId : undefined,
+    })
+
+    if (!counterProposal) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ counterProposal })
+  } catch (error) {
+    console.error("Error updating counter-proposal:", error)
+    return NextResponse.json({ error: "Failed to update counter-proposal" }, { status: 500 })
+  }
+}
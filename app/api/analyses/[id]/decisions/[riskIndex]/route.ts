@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { getAnalysis, setRiskDecision } from "@/lib/analysis-store"
+import { isReviewLocked } from "@/lib/approvals"
+import { getReviewProgress, RISK_DECISIONS, type RiskDecisionType } from "@/lib/risk-decisions"
+
+type Params = { params: Promise<{ id: string; riskIndex: string }> }
+
+// Resolves the analysis and checks the risk index against its risks
+async function findRisk(params: Params["params"]) {
+  const { id, riskIndex } = await params
+  const analysis = await getAnalysis(id)
+  if (!analysis) {
+    return { error: NextResponse.json({ error: "Analysis not found" }, { status: 404 }) }
+  }
+  if (isReviewLocked(analysis)) {
+    return { error: NextResponse.json({ error: "Sign-off has been requested; decisions can no longer change" }, { status: 409 }) }
+  }
+
+  const index = Number(riskIndex)
+  if (!Number.isInteger(index) || index < 0 || index >= analysis.result.risks.length) {
+    return { error: NextResponse.json({ error: "Risk not found" }, { status: 404 }) }
+  }
+
+  return { id, index, riskCount: analysis.result.risks.length }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const risk = await findRisk(params)
+    if ("error" in risk) return risk.error
+
+    const { decision, note, assignee, replacementText } = await req.json()
+    if (!RISK_DECISIONS.includes(decision)) {
+      return NextResponse.json({ error: `decision must be one of ${RISK_DECISIONS.join(", ")}` }, { status: 400 })
+    }
+
+    const decisions = await setRiskDecision(risk.id, risk.index, {
+      decision: decision as RiskDecisionType,
+      note: typeof note === "string" ? note.trim() : "",
+      assignee: typeof assignee === "string" ? assignee.trim() : "",
+      replacementText: typeof replacementText === "string" ? replacementText.trim() : "",
+    })
+
+    return NextResponse.json({ decisions, progress: getReviewProgress(risk.riskCount, decisions ?? []) })
+  } catch (error) {
+    console.error("Error saving risk decision:", error)
+    return NextResponse.json({ error: "Failed to save risk decision" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const risk = await findRisk(params)
+    if ("error" in risk) return risk.error
+
+    const decisions = await setRiskDecision(risk.id, risk.index, null)
+
+    return NextResponse.json({ decisions, progress: getReviewProgress(risk.riskCount, decisions ?? []) })
+  } catch (error) {
+    console.error("Error clearing risk decision:", error)
+    return NextResponse.json({ error: "Failed to clear risk decision" }, { status: 500 })
+  }
+}
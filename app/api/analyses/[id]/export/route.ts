@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { getAnalysisDetail, recordExport } from "@/lib/analysis-store"
+import { ReportEncodingError } from "@/lib/errors"
+import { buildReviewReport, REPORT_CONTENT_TYPES, reportFileName } from "@/lib/report"
+import { renderReportDocx } from "@/lib/report-docx"
+import { renderReportPdf } from "@/lib/report-pdf"
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const format = new URL(req.url).searchParams.get("format") ?? "pdf"
+
+    if (format !== "pdf" && format !== "docx") {
+      return NextResponse.json({ error: "Format must be pdf or docx" }, { status: 400 })
+    }
+
+    const analysis = await getAnalysisDetail(id)
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    const report = buildReviewReport(analysis)
+    const body = format === "pdf" ? await renderReportPdf(report) : await renderReportDocx(report)
+    const fileName = reportFileName(report, format)
+    await recordExport(id, format === "pdf" ? "report_pdf" : "report_docx", fileName)
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": REPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof ReportEncodingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error exporting report:", error)
+    return NextResponse.json({ error: "Failed to export report" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getAnalysisDetail, recordExport } from "@/lib/analysis-store"
+import { counterProposalFileName, renderCounterProposalDocx } from "@/lib/counter-proposal-docx"
+import { getMarkupChanges } from "@/lib/risk-decisions"
+
+// POST because each download is recorded in the analysis's export history
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const analysis = await getAnalysisDetail(id)
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+    if (getMarkupChanges(analysis.analysisResult.risks, analysis.decisions, analysis.counterProposal).length === 0) {
+      return NextResponse.json(
+        { error: "No accepted or negotiated risk has replacement wording; enter it with the decision or insert a library clause first" },
+        { status: 400 }
+      )
+    }
+
+    const body = await renderCounterProposalDocx(analysis)
+    const fileName = counterProposalFileName(analysis)
+    await recordExport(id, "markup_docx", fileName)
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Error generating counter-proposal:", error)
+    return NextResponse.json({ error: "Failed to generate counter-proposal" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { deleteAnalysis, getAnalysisDetail } from "@/lib/analysis-store"
+import { revokeShareTokens } from "@/lib/share-tokens"
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const analysis = await getAnalysisDetail(id)
+
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(analysis)
+  } catch (error) {
+    console.error("Error loading analysis:", error)
+    return NextResponse.json({ error: "Failed to load analysis" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    if (!(await deleteAnalysis(id))) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+    await revokeShareTokens(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting analysis:", error)
+    return NextResponse.json({ error: "Failed to delete analysis" }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { getAnalysis } from "@/lib/analysis-store"
+import { createShareToken, getShareTokenTtlDays } from "@/lib/share-tokens"
+
+const MAX_EXPIRY_DAYS = 90
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json().catch(() => ({}))
+    const expiresInDays = body.expiresInDays === undefined ? getShareTokenTtlDays() : Number(body.expiresInDays)
+
+    if (!Number.isFinite(expiresInDays) || expiresInDays <= 0 || expiresInDays > MAX_EXPIRY_DAYS) {
+      return NextResponse.json({ error: `expiresInDays must be a positive number of days up to ${MAX_EXPIRY_DAYS}` }, { status: 400 })
+    }
+
+    if (!(await getAnalysis(id))) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    const share = await createShareToken(id, expiresInDays)
+
+    return NextResponse.json({
+      token: share.id,
+      path: `/shared/${share.id}`,
+      expiresAt: share.expiresAt,
+    })
+  } catch (error) {
+    console.error("Error creating share link:", error)
+    return NextResponse.json({ error: "Failed to create share link" }, { status: 500 })
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { listAnalyses } from "@/lib/analysis-store"
+
+export async function GET() {
+  try {
+    return NextResponse.json({ analyses: await listAnalyses() })
+  } catch (error) {
+    console.error("Error listing analyses:", error)
+    return NextResponse.json({ error: "Failed to list analyses" }, { status: 500 })
+  }
+}
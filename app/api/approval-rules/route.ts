@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { DEFAULT_APPROVAL_RULES, getApprovalRules, saveApprovalRules, validateApprovalRules, type ApprovalRule } from "@/lib/approvals"
+
+export async function GET() {
+  try {
+    return NextResponse.json({ ruleSet: await getApprovalRules(), defaultRules: DEFAULT_APPROVAL_RULES.rules })
+  } catch (error) {
+    console.error("Error loading approval rules:", error)
+    return NextResponse.json({ error: "Failed to load approval rules" }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const { rules } = await req.json()
+    const problems = validateApprovalRules(rules)
+
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid approval rules", details: problems.join("; ") }, { status: 400 })
+    }
+
+    const ruleSet = await saveApprovalRules((rules as ApprovalRule[]).map((rule) => ({
+      id: rule.id,
+      name: rule.name.trim(),
+      approver: rule.approver.trim(),
+      conditions: rule.conditions.map((condition) => condition.type === "overall_risk"
+        ? { type: "overall_risk", levels: condition.levels }
+        : { type: "risk", severities: condition.severities, section: condition.section?.trim() || undefined }),
+    })))
+
+    return NextResponse.json({ ruleSet })
+  } catch (error) {
+    console.error("Error saving approval rules:", error)
+    return NextResponse.json({ error: "Failed to save approval rules" }, { status: 500 })
+  }
+}
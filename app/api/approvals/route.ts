@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { listApprovalQueue } from "@/lib/approvals"
+
+export async function GET() {
+  try {
+    return NextResponse.json({ queue: await listApprovalQueue() })
+  } catch (error) {
+    console.error("Error loading approval queue:", error)
+    return NextResponse.json({ error: "Failed to load approval queue" }, { status: 500 })
+  }
+}
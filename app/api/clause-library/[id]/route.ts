@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import {
+  deleteLibraryClause,
+  getLibraryClause,
+  saveLibraryClause,
+  toLibraryClauseInput,
+  validateLibraryClause,
+} from "@/lib/clause-library"
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const problems = validateLibraryClause(body)
+
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid clause", details: problems.join("; ") }, { status: 400 })
+    }
+    if (!(await getLibraryClause(id))) {
+      return NextResponse.json({ error: "Clause not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ clause: await saveLibraryClause(toLibraryClauseInput(body), id) })
+  } catch (error) {
+    console.error("Error saving library clause:", error)
+    return NextResponse.json({ error: "Failed to save library clause" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    if (!(await deleteLibraryClause(id))) {
+      return NextResponse.json({ error: "Clause not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting library clause:", error)
+    return NextResponse.json({ error: "Failed to delete library clause" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { listLibraryClauses, saveLibraryClause, toLibraryClauseInput, validateLibraryClause } from "@/lib/clause-library"
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const clauses = await listLibraryClauses({
+      query: searchParams.get("q") ?? undefined,
+      clauseType: searchParams.get("clauseType") ?? undefined,
+      jurisdiction: searchParams.get("jurisdiction") ?? undefined,
+    })
+
+    return NextResponse.json({ clauses })
+  } catch (error) {
+    console.error("Error loading clause library:", error)
+    return NextResponse.json({ error: "Failed to load clause library" }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const problems = validateLibraryClause(body)
+
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid clause", details: problems.join("; ") }, { status: 400 })
+    }
+
+    return NextResponse.json({ clause: await saveLibraryClause(toLibraryClauseInput(body)) })
+  } catch (error) {
+    console.error("Error saving library clause:", error)
+    return NextResponse.json({ error: "Failed to save library clause" }, { status: 500 })
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server"
+import { getJob, type Job } from "@/lib/jobs"
+
+const POLL_INTERVAL_MS = 500
+
+/**
+ * Server-Sent Events for a job: `progress` on every step, `section` and `risk`
+ * for each finding an analysis streams, `reset` when a retry discards the
+ * findings of a failed attempt, then `done` or `failed` with the job. Every
+ * connection starts from the first finding, so a reconnecting client should
+ * clear what it has received.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = await getJob(id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    const encoder = new TextEncoder()
+    // Set when the client disconnects; the job itself keeps running
+    let cancelled = false
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!cancelled) controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+
+        let attempt = job.attempts
+        let sentSections = 0
+        let sentRisks = 0
+        let lastProgress = ""
+
+        try {
+          for (let current: Job | null = job; current && !cancelled && !req.signal.aborted; current = await getJob(id)) {
+            if (current.attempts !== attempt) {
+              if (sentSections > 0 || sentRisks > 0) send("reset", {})
+              attempt = current.attempts
+              sentSections = 0
+              sentRisks = 0
+            }
+
+            const progress = `${current.status}:${current.progress}:${current.message}`
+            if (progress !== lastProgress) {
+              send("progress", { status: current.status, progress: current.progress, message: current.message })
+              lastProgress = progress
+            }
+
+            if (current.kind === "analyze" && current.partial) {
+              for (const section of current.partial.sections.slice(sentSections)) send("section", section)
+              for (const risk of current.partial.risks.slice(sentRisks)) send("risk", risk)
+              sentSections = current.partial.sections.length
+              sentRisks = current.partial.risks.length
+            }
+
+            if (current.status === "done" || current.status === "failed") {
+              send(current.status, current)
+              break
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+          }
+        } catch (error) {
+          // Closing the stream makes the browser reconnect and start over
+          console.error("Error streaming job events:", error)
+        } finally {
+          if (!cancelled) controller.close()
+        }
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    })
+  } catch (error) {
+    console.error("Error loading job:", error)
+    return NextResponse.json({ error: "Failed to load job" }, { status: 500 })
+  }
+}
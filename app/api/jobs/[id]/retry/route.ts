@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { AnalysisRequestError } from "@/lib/errors"
+import { retryJob } from "@/lib/jobs"
+
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = await retryJob(id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    if (error instanceof AnalysisRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error retrying job:", error)
+    return NextResponse.json({ error: "Failed to retry job" }, { status: 500 })
+  }
+}
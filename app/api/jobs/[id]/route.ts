@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { toParsedUpload } from "@/lib/analysis-pipeline"
+import { getDocument } from "@/lib/analysis-store"
+import { getJob } from "@/lib/jobs"
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = await getJob(id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    // A finished upload returns the parsed document in the same shape as /api/upload
+    if (job.kind === "parse" && job.status === "done" && job.result) {
+      const document = await getDocument(job.result.documentId)
+      if (document) {
+        return NextResponse.json({ job, document: toParsedUpload(document) })
+      }
+    }
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error("Error loading job:", error)
+    return NextResponse.json({ error: "Failed to load job" }, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { prepareAnalysis } from "@/lib/analysis-pipeline"
+import { AnalysisRequestError } from "@/lib/errors"
+import { createAnalyzeJob } from "@/lib/jobs"
+
+export async function POST(req: Request) {
+  try {
+    // Missing documents are reported now rather than as a failed job
+    const prepared = await prepareAnalysis(await req.json())
+    return NextResponse.json({ job: await createAnalyzeJob(prepared) }, { status: 202 })
+  } catch (error) {
+    if (error instanceof AnalysisRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error queuing analysis:", error)
+    return NextResponse.json({ error: "Failed to start analysis" }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import type { DocumentType } from "@/lib/analysis-store"
+import { validateUpload } from "@/lib/analysis-pipeline"
+import { createParseJob } from "@/lib/jobs"
+
+export async function POST(req: Request) {
+  try {
+    const formData = await req.formData()
+    const file = formData.get("file") as File | null
+    const type = formData.get("type") as string | null
+
+    const problem = validateUpload(file, type)
+    if (problem || !file) {
+      return NextResponse.json({ error: problem }, { status: 400 })
+    }
+
+    return NextResponse.json({ job: await createParseJob(file, type as DocumentType) }, { status: 202 })
+  } catch (error) {
+    console.error("Error queuing upload:", error)
+    return NextResponse.json({ error: "Failed to upload file" }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { deleteMatter, getMatter, getMatterWorkspace, saveMatter, toMatterInput, validateMatter } from "@/lib/matters"
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const workspace = await getMatterWorkspace(id)
+
+    if (!workspace) {
+      return NextResponse.json({ error: "Matter not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(workspace)
+  } catch (error) {
+    console.error("Error loading matter:", error)
+    return NextResponse.json({ error: "Failed to load matter" }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const problems = validateMatter(body)
+
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid matter", details: problems.join("; ") }, { status: 400 })
+    }
+    if (!(await getMatter(id))) {
+      return NextResponse.json({ error: "Matter not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ matter: await saveMatter(toMatterInput(body), id) })
+  } catch (error) {
+    console.error("Error saving matter:", error)
+    return NextResponse.json({ error: "Failed to save matter" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    if (!(await deleteMatter(id))) {
+      return NextResponse.json({ error: "Matter not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting matter:", error)
+    return NextResponse.json({ error: "Failed to delete matter" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { listMatters, saveMatter, toMatterInput, validateMatter } from "@/lib/matters"
+
+export async function GET() {
+  try {
+    return NextResponse.json({ matters: await listMatters() })
+  } catch (error) {
+    console.error("Error listing matters:", error)
+    return NextResponse.json({ error: "Failed to list matters" }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const problems = validateMatter(body)
+
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid matter", details: problems.join("; ") }, { status: 400 })
+    }
+
+    return NextResponse.json({ matter: await saveMatter(toMatterInput(body)) })
+  } catch (error) {
+    console.error("Error creating matter:", error)
+    return NextResponse.json({ error: "Failed to create matter" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { DEFAULT_PLAYBOOK, getPlaybook, savePlaybook, validatePlaybook, type Playbook } from "@/lib/playbook"
+
+type PlaybookRequest = Pick<Playbook, "name" | "entries">
+
+export async function GET() {
+  try {
+    return NextResponse.json({ playbook: await getPlaybook(), defaultPlaybook: DEFAULT_PLAYBOOK })
+  } catch (error) {
+    console.error("Error loading playbook:", error)
+    return NextResponse.json({ error: "Failed to load playbook" }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const body = await req.json()
+    const problems = validatePlaybook(body)
+
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid playbook", details: problems.join("; ") }, { status: 400 })
+    }
+
+    // validatePlaybook has checked every field of the request
+    const { name, entries }: PlaybookRequest = body
+    const playbook = await savePlaybook({
+      name: name.trim(),
+      entries: entries.map((entry) => ({
+        clauseType: entry.clauseType,
+        label: entry.label.trim(),
+        keywords: entry.keywords.map((keyword) => keyword.trim()).filter(Boolean),
+        preferred: entry.preferred.trim(),
+        fallbacks: entry.fallbacks.map((fallback) => fallback.trim()).filter(Boolean),
+        walkAway: entry.walkAway.trim(),
+      })),
+    })
+
+    return NextResponse.json({ playbook })
+  } catch (error) {
+    console.error("Error saving playbook:", error)
+    return NextResponse.json({ error: "Failed to save playbook" }, { status: 500 })
+  }
+}
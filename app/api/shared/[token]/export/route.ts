@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { getAnalysisDetail } from "@/lib/analysis-store"
+import { ReportEncodingError } from "@/lib/errors"
+import { buildReviewReport, REPORT_CONTENT_TYPES, reportFileName } from "@/lib/report"
+import { renderReportDocx } from "@/lib/report-docx"
+import { renderReportPdf } from "@/lib/report-pdf"
+import { resolveShareToken } from "@/lib/share-tokens"
+
+// Downloads through a share link are read-only, so they are not added to the analysis's export history
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params
+    const format = new URL(req.url).searchParams.get("format") ?? "pdf"
+
+    if (format !== "pdf" && format !== "docx") {
+      return NextResponse.json({ error: "Format must be pdf or docx" }, { status: 400 })
+    }
+
+    const access = await resolveShareToken(token)
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const analysis = await getAnalysisDetail(access.share.analysisId)
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    const report = buildReviewReport(analysis)
+    const body = format === "pdf" ? await renderReportPdf(report) : await renderReportDocx(report)
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": REPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${reportFileName(report, format)}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof ReportEncodingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error exporting shared report:", error)
+    return NextResponse.json({ error: "Failed to export report" }, { status: 500 })
+  }
+}
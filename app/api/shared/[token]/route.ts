@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { getAnalysisDetail } from "@/lib/analysis-store"
+import { resolveShareToken, toSharedAnalysis } from "@/lib/share-tokens"
+
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params
+
+    const access = await resolveShareToken(token)
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    const analysis = await getAnalysisDetail(access.share.analysisId)
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(toSharedAnalysis(analysis, access.share))
+  } catch (error) {
+    console.error("Error loading shared analysis:", error)
+    return NextResponse.json({ error: "Failed to load analysis" }, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { getTemplate, listTemplateAnalyses } from "@/lib/templates"
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const template = await getTemplate(id)
+
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ analyses: await listTemplateAnalyses(template) })
+  } catch (error) {
+    console.error("Error loading template analyses:", error)
+    return NextResponse.json({ error: "Failed to load template analyses" }, { status: 500 })
+  }
+}
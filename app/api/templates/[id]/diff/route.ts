@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { diffTemplateVersions, getTemplate } from "@/lib/templates"
+import { latestVersion } from "@/lib/template-versions"
+
+// ?from=<number>&to=<number>; defaults to the latest version and the one before it
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const template = await getTemplate(id)
+
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const to = Number(searchParams.get("to") ?? latestVersion(template).number)
+    const from = Number(searchParams.get("from") ?? to - 1)
+
+    const diff = await diffTemplateVersions(template, from, to)
+    if (!diff) {
+      return NextResponse.json({ error: "Template version not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(diff)
+  } catch (error) {
+    console.error("Error comparing template versions:", error)
+    return NextResponse.json({ error: "Failed to compare template versions" }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { getAnalysis } from "@/lib/analysis-store"
+import { createAnalyzeJob } from "@/lib/jobs"
+import { getTemplate, getTemplateVersion } from "@/lib/templates"
+
+// Body: { version: number, analysisIds: string[] }. Queues one analysis job per
+// earlier analysis, comparing its customer NDA with the given template version.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { version: versionNumber, analysisIds } = await req.json()
+
+    if (!Array.isArray(analysisIds) || analysisIds.length === 0 || !analysisIds.every((entry) => typeof entry === "string")) {
+      return NextResponse.json({ error: "Select at least one analysis to re-run" }, { status: 400 })
+    }
+
+    const template = await getTemplate(id)
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+    const version = getTemplateVersion(template, Number(versionNumber))
+    if (!version) {
+      return NextResponse.json({ error: "Template version not found" }, { status: 404 })
+    }
+
+    const analyses = await Promise.all(analysisIds.map((analysisId: string) => getAnalysis(analysisId)))
+    const missing = analysisIds.filter((_, index) => !analyses[index])
+    if (missing.length > 0) {
+      return NextResponse.json({ error: "Analysis not found", details: missing.join(", ") }, { status: 404 })
+    }
+
+    const jobs = []
+    for (const analysis of analyses) {
+      jobs.push(await createAnalyzeJob({
+        referenceDocumentId: version.documentId,
+        customerDocumentId: analysis!.customerDocumentId,
+        baselineDocumentId: analysis!.baselineDocumentId,
+        rerunOf: analysis!.id,
+      }))
+    }
+
+    return NextResponse.json({ jobs }, { status: 202 })
+  } catch (error) {
+    console.error("Error queuing template re-runs:", error)
+    return NextResponse.json({ error: "Failed to start re-runs" }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { toParsedUpload } from "@/lib/analysis-pipeline"
+import { deleteTemplate, getTemplate, getTemplateDocument, toTemplateInput, updateTemplate, validateTemplate } from "@/lib/templates"
+
+// Returns the template with its current version's parsed document, ready to use as the reference NDA
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const template = await getTemplate(id)
+
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    const document = await getTemplateDocument(template)
+    if (!document) {
+      return NextResponse.json({ error: "Template document not found. Please upload a new version." }, { status: 404 })
+    }
+
+    return NextResponse.json({ template, document: toParsedUpload(document) })
+  } catch (error) {
+    console.error("Error loading template:", error)
+    return NextResponse.json({ error: "Failed to load template" }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await req.json()
+    const problems = validateTemplate(body)
+
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid template", details: problems.join("; ") }, { status: 400 })
+    }
+
+    const template = await updateTemplate(id, toTemplateInput(body))
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error("Error saving template:", error)
+    return NextResponse.json({ error: "Failed to save template" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const deleted = await deleteTemplate(id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting template:", error)
+    return NextResponse.json({ error: "Failed to delete template" }, { status: 500 })
+  }
+}
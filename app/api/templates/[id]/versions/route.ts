@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { parseAndSaveDocument, validateUpload } from "@/lib/analysis-pipeline"
+import { addTemplateVersion, getTemplate, toTemplateVersionInput, validateTemplateVersion } from "@/lib/templates"
+
+// Multipart form: the new version's file plus optional label, effectiveDate and changeNote
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const formData = await req.formData()
+    const file = formData.get("file") as File | null
+    const version = {
+      label: String(formData.get("label") ?? ""),
+      effectiveDate: String(formData.get("effectiveDate") ?? ""),
+      changeNote: String(formData.get("changeNote") ?? ""),
+    }
+
+    const problem = validateUpload(file, "referenceNda")
+    if (problem || !file) {
+      return NextResponse.json({ error: problem }, { status: 400 })
+    }
+    const problems = validateTemplateVersion(version)
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid template version", details: problems.join("; ") }, { status: 400 })
+    }
+    if (!(await getTemplate(id))) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    const document = await parseAndSaveDocument(file, "referenceNda")
+    const template = await addTemplateVersion(id, document, toTemplateVersionInput(version))
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error("Error saving template version:", error)
+    return NextResponse.json({ error: "Failed to save template version" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { parseAndSaveDocument, validateUpload } from "@/lib/analysis-pipeline"
+import {
+  createTemplate,
+  listTemplates,
+  toTemplateInput,
+  toTemplateVersionInput,
+  validateTemplate,
+  validateTemplateVersion,
+} from "@/lib/templates"
+
+export async function GET() {
+  try {
+    return NextResponse.json({ templates: await listTemplates() })
+  } catch (error) {
+    console.error("Error loading templates:", error)
+    return NextResponse.json({ error: "Failed to load templates" }, { status: 500 })
+  }
+}
+
+// Multipart form: the template's first file plus name, description, isDefault,
+// versionLabel, effectiveDate and changeNote
+export async function POST(req: Request) {
+  try {
+    const formData = await req.formData()
+    const file = formData.get("file") as File | null
+    const input = {
+      name: String(formData.get("name") ?? ""),
+      description: String(formData.get("description") ?? ""),
+      isDefault: formData.get("isDefault") === "true",
+    }
+    const version = {
+      label: String(formData.get("versionLabel") ?? ""),
+      effectiveDate: String(formData.get("effectiveDate") ?? ""),
+      changeNote: String(formData.get("changeNote") ?? ""),
+    }
+
+    const uploadProblem = validateUpload(file, "referenceNda")
+    if (uploadProblem || !file) {
+      return NextResponse.json({ error: uploadProblem }, { status: 400 })
+    }
+    const problems = [...validateTemplate(input), ...validateTemplateVersion(version)]
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid template", details: problems.join("; ") }, { status: 400 })
+    }
+
+    const document = await parseAndSaveDocument(file, "referenceNda")
+    const template = await createTemplate(toTemplateInput(input), document, toTemplateVersionInput(version))
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error("Error saving template:", error)
+    return NextResponse.json({ error: "Failed to save template" }, { status: 500 })
+  }
+}
@@ -0,0 +1,362 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { ApprovalDecisionDialog } from "@/components/approval-decision-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import type { ApprovalCondition, ApprovalQueueItem, ApprovalRule } from "@/lib/approvals"
+import type { RiskLevel } from "@/lib/nda-analysis"
+
+const RISK_LEVELS: RiskLevel[] = ["low", "medium", "high"]
+
+const riskBadgeClass: Record<RiskLevel, string> = {
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+  medium: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  low: "bg-green-100 text-green-800 hover:bg-green-100",
+}
+
+const emptyRule: ApprovalRule = { id: "", name: "", approver: "", conditions: [{ type: "overall_risk", levels: ["high"] }] }
+
+function conditionLevels(condition: ApprovalCondition): RiskLevel[] {
+  return condition.type === "overall_risk" ? condition.levels : condition.severities
+}
+
+function withLevels(condition: ApprovalCondition, levels: RiskLevel[]): ApprovalCondition {
+  return condition.type === "overall_risk" ? { ...condition, levels } : { ...condition, severities: levels }
+}
+
+export default function ApprovalsPage() {
+  const { toast } = useToast()
+  const [queue, setQueue] = useState<ApprovalQueueItem[]>([])
+  const [rules, setRules] = useState<ApprovalRule[]>([])
+  const [defaultRules, setDefaultRules] = useState<ApprovalRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await fetch("/api/approvals")
+      if (!response.ok) {
+        throw new Error(`Failed to load approval queue: ${response.status}`)
+      }
+      setQueue((await response.json()).queue)
+    } catch (error) {
+      console.error("Error loading approval queue:", error)
+      toast({ variant: "destructive", title: "Could not load approval queue" })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const response = await fetch("/api/approval-rules")
+        if (!response.ok) {
+          throw new Error(`Failed to load approval rules: ${response.status}`)
+        }
+        const result = await response.json()
+        setRules(result.ruleSet.rules)
+        setDefaultRules(result.defaultRules)
+      } catch (error) {
+        console.error("Error loading approval rules:", error)
+        toast({ variant: "destructive", title: "Could not load approval rules" })
+      }
+    }
+
+    Promise.all([loadQueue(), loadRules()]).finally(() => setLoading(false))
+  }, [loadQueue, toast])
+
+  const updateRule = (index: number, update: Partial<ApprovalRule>) => {
+    setRules((current) => current.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...update } : rule)))
+  }
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, condition: ApprovalCondition) => {
+    updateRule(ruleIndex, {
+      conditions: rules[ruleIndex].conditions.map((existing, index) => (index === conditionIndex ? condition : existing)),
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/approval-rules", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rules: rules.map((rule) => ({
+            ...rule,
+            id: rule.id || rule.name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, ""),
+          })),
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `Failed to save approval rules: ${response.status}`)
+      }
+      setRules(result.ruleSet.rules)
+      toast({ title: "Approval rules saved", description: "They apply to the next sign-off request." })
+    } catch (error) {
+      console.error("Error saving approval rules:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not save approval rules",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/templates" className="text-sm font-medium">
+              Templates
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+            <Link href="/approvals" className="text-sm font-medium">
+              Approvals
+            </Link>
+            <Link href="/playbook" className="text-sm font-medium">
+              Playbook
+            </Link>
+            <Link href="/clause-library" className="text-sm font-medium">
+              Clause Library
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold">Approvals</h2>
+            <p className="text-muted-foreground">
+              Customer NDAs that need sign-off before sales can sign, and the rules that route them.
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading approvals...</p>
+            </div>
+          ) : (
+            <Tabs defaultValue="queue">
+              <TabsList>
+                <TabsTrigger value="queue">Queue ({queue.length})</TabsTrigger>
+                <TabsTrigger value="rules">Rules</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="queue" className="mt-6">
+                {queue.length === 0 ? (
+                  <div className="p-8 text-center text-muted-foreground border rounded-lg">
+                    <p>Nothing is waiting for sign-off.</p>
+                  </div>
+                ) : (
+                  <div className="border rounded-lg">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Requested</TableHead>
+                          <TableHead>Customer NDA</TableHead>
+                          <TableHead>Overall Risk</TableHead>
+                          <TableHead>Approver</TableHead>
+                          <TableHead>Reasons</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {queue.map((item) => (
+                          <TableRow key={`${item.analysisId}-${item.requirement.ruleId}`}>
+                            <TableCell className="whitespace-nowrap">{new Date(item.requestedAt).toLocaleString()}</TableCell>
+                            <TableCell>
+                              <Link href={`/comparison/${item.analysisId}`} className="font-medium hover:underline">
+                                {item.customerFileName}
+                              </Link>
+                              <div className="text-xs text-muted-foreground">vs {item.referenceFileName}</div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge className={riskBadgeClass[item.overallRisk]}>{item.overallRisk.toUpperCase()}</Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="font-medium">{item.requirement.approver}</div>
+                              <div className="text-xs text-muted-foreground">{item.requirement.ruleName}</div>
+                            </TableCell>
+                            <TableCell>
+                              <ul className="text-sm text-muted-foreground">
+                                {item.requirement.reasons.map((reason) => (
+                                  <li key={reason}>{reason}</li>
+                                ))}
+                              </ul>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                {(["approved", "rejected"] as const).map((decision) => (
+                                  <ApprovalDecisionDialog
+                                    key={decision}
+                                    analysisId={item.analysisId}
+                                    requirement={item.requirement}
+                                    decision={decision}
+                                    onDecided={loadQueue}
+                                  />
+                                ))}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="rules" className="mt-6 max-w-4xl">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                  <p className="text-sm text-muted-foreground">
+                    A rule requires sign-off from its approver when any of its conditions matches. Changes apply to new sign-off requests.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => setRules(defaultRules)}>
+                      Reset to Defaults
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving}>
+                      {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Save Rules
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid gap-6">
+                  {rules.map((rule, ruleIndex) => (
+                    <Card key={ruleIndex}>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-lg">{rule.name || "New rule"}</CardTitle>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Remove rule"
+                          onClick={() => setRules((current) => current.filter((_, index) => index !== ruleIndex))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </CardHeader>
+                      <CardContent className="grid gap-4">
+                        <div className="grid gap-4 sm:grid-cols-2">
+                          <div className="grid gap-2">
+                            <Label htmlFor={`rule-name-${ruleIndex}`}>Rule name</Label>
+                            <Input id={`rule-name-${ruleIndex}`} value={rule.name} onChange={(e) => updateRule(ruleIndex, { name: e.target.value })} />
+                          </div>
+                          <div className="grid gap-2">
+                            <Label htmlFor={`rule-approver-${ruleIndex}`}>Approver</Label>
+                            <Input
+                              id={`rule-approver-${ruleIndex}`}
+                              placeholder="e.g. General Counsel"
+                              value={rule.approver}
+                              onChange={(e) => updateRule(ruleIndex, { approver: e.target.value })}
+                            />
+                          </div>
+                        </div>
+
+                        <div className="grid gap-2">
+                          <Label>Conditions (any of)</Label>
+                          {rule.conditions.map((condition, conditionIndex) => (
+                            <div key={conditionIndex} className="flex flex-wrap items-center gap-3 rounded-md border p-3">
+                              <Select
+                                value={condition.type}
+                                onValueChange={(type) => updateCondition(
+                                  ruleIndex,
+                                  conditionIndex,
+                                  type === "overall_risk"
+                                    ? { type: "overall_risk", levels: conditionLevels(condition) }
+                                    : { type: "risk", severities: conditionLevels(condition) }
+                                )}
+                              >
+                                <SelectTrigger className="w-44">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="overall_risk">Overall risk is</SelectItem>
+                                  <SelectItem value="risk">Any risk of severity</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              {RISK_LEVELS.map((level) => (
+                                <label key={level} className="flex items-center gap-1.5 text-sm capitalize">
+                                  <Checkbox
+                                    checked={conditionLevels(condition).includes(level)}
+                                    onCheckedChange={(checked) => updateCondition(
+                                      ruleIndex,
+                                      conditionIndex,
+                                      withLevels(condition, checked
+                                        ? [...conditionLevels(condition), level]
+                                        : conditionLevels(condition).filter((existing) => existing !== level))
+                                    )}
+                                  />
+                                  {level}
+                                </label>
+                              ))}
+                              {condition.type === "risk" && (
+                                <Input
+                                  className="w-48"
+                                  placeholder="in section (optional)"
+                                  value={condition.section ?? ""}
+                                  onChange={(e) => updateCondition(ruleIndex, conditionIndex, { ...condition, section: e.target.value })}
+                                />
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="ml-auto"
+                                aria-label="Remove condition"
+                                onClick={() => updateRule(ruleIndex, { conditions: rule.conditions.filter((_, index) => index !== conditionIndex) })}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="justify-self-start"
+                            onClick={() => updateRule(ruleIndex, { conditions: [...rule.conditions, { type: "risk", severities: ["high"] }] })}
+                          >
+                            <Plus className="mr-2 h-3 w-3" />
+                            Add Condition
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+
+                  <Button variant="outline" onClick={() => setRules((current) => [...current, emptyRule])}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Rule
+                  </Button>
+                </div>
+              </TabsContent>
+            </Tabs>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,350 @@
+"use client"
+
+import { useState, type ChangeEvent } from "react"
+import Link from "next/link"
+import { ReferenceTemplatePicker } from "@/components/reference-template-picker"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowDown, ArrowUp, ArrowUpDown, Loader2, Upload, X } from "lucide-react"
+import type { AnalysisDetail } from "@/lib/analysis-store"
+import {
+  averageSectionMatch,
+  extractNdaFiles,
+  isNdaFile,
+  sortBatchItems,
+  type BatchItem,
+  type BatchItemStatus,
+  type BatchSortKey,
+} from "@/lib/batch-analysis"
+import { pollJob } from "@/lib/job-client"
+import type { Job } from "@/lib/jobs"
+import { mapWithConcurrency } from "@/lib/utils"
+
+const riskBadgeClass: Record<NonNullable<BatchItem["overallRisk"]>, string> = {
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+  medium: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  low: "bg-green-100 text-green-800 hover:bg-green-100",
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: "Queued",
+  uploading: "Uploading",
+  analyzing: "Analyzing",
+  done: "Done",
+  failed: "Failed",
+}
+
+const CONCURRENCY_OPTIONS = ["1", "2", "3", "4"]
+
+type BatchSort = { key: BatchSortKey; direction: "asc" | "desc" }
+
+function SortableHead({ label, sortKey, sort, onSort, className }: {
+  label: string
+  sortKey: BatchSortKey
+  sort: BatchSort
+  onSort: (key: BatchSortKey) => void
+  className?: string
+}) {
+  return (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => onSort(sortKey)}>
+        {label}
+        {sort.key !== sortKey ? (
+          <ArrowUpDown className="h-3 w-3" />
+        ) : sort.direction === "asc" ? (
+          <ArrowUp className="h-3 w-3" />
+        ) : (
+          <ArrowDown className="h-3 w-3" />
+        )}
+      </button>
+    </TableHead>
+  )
+}
+
+export default function BatchPage() {
+  const { toast } = useToast()
+  const [referenceDocumentId, setReferenceDocumentId] = useState<string | null>(null)
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [concurrency, setConcurrency] = useState("2")
+  const [running, setRunning] = useState(false)
+  const [sort, setSort] = useState<BatchSort>({ key: "overallRisk", direction: "desc" })
+
+  const updateItem = (id: string, update: Partial<BatchItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...update } : item)))
+  }
+
+  const handleFilesSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? [])
+    event.target.value = ""
+
+    try {
+      // ZIP archives are unpacked in the browser; each NDA inside is uploaded like a single file
+      const extracted = await Promise.all(selected.map(async (file) =>
+        /\.zip$/i.test(file.name)
+          ? extractNdaFiles(file)
+          : isNdaFile(file.name) ? { files: [file], skipped: [] } : { files: [], skipped: [file.name] }
+      ))
+      const files = extracted.flatMap((entry) => entry.files)
+      const skipped = extracted.flatMap((entry) => entry.skipped)
+
+      if (skipped.length > 0) {
+        const names = skipped.slice(0, 5).join(", ") + (skipped.length > 5 ? ` and ${skipped.length - 5} more` : "")
+        toast({
+          title: `${skipped.length} file${skipped.length === 1 ? " was" : "s were"} skipped`,
+          description: `Only PDF, DOC and DOCX files (or ZIPs of them) can be analyzed: ${names}`,
+        })
+      }
+      setItems((current) => [
+        ...current,
+        ...files.map((file): BatchItem => ({ id: crypto.randomUUID(), file, status: "queued" })),
+      ])
+    } catch (error) {
+      console.error("Error reading batch files:", error)
+      toast({ variant: "destructive", title: "Could not read the selected files", description: error instanceof Error ? error.message : "Unknown error" })
+    }
+  }
+
+  // Each NDA is parsed and analyzed as a background job, like uploads and comparisons on the home page
+  const processItem = async (item: BatchItem) => {
+    const showProgress = (job: Job) => updateItem(item.id, { message: job.message })
+    try {
+      updateItem(item.id, { status: "uploading", message: undefined, error: undefined })
+      const formData = new FormData()
+      formData.append("file", item.file)
+      formData.append("type", "customerNda")
+      const uploadResponse = await fetch("/api/jobs/parse", { method: "POST", body: formData })
+      const upload = await uploadResponse.json().catch(() => null)
+      if (!uploadResponse.ok) {
+        throw new Error(upload?.error || `Upload failed: ${uploadResponse.status}`)
+      }
+      const { job: parsed, document } = await pollJob(upload.job.id, showProgress)
+      if (parsed.status !== "done" || !document) {
+        throw new Error(parsed.error?.message || "Failed to parse document")
+      }
+
+      updateItem(item.id, { status: "analyzing", message: undefined })
+      const analyzeResponse = await fetch("/api/jobs/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ referenceDocumentId, customerDocumentId: document.documentId }),
+      })
+      const analysis = await analyzeResponse.json().catch(() => null)
+      if (!analyzeResponse.ok) {
+        throw new Error(analysis?.error || `Analysis failed: ${analyzeResponse.status}`)
+      }
+      const { job: analyzed } = await pollJob(analysis.job.id, showProgress)
+      if (analyzed.kind !== "analyze" || analyzed.status !== "done" || !analyzed.result) {
+        throw new Error(
+          analyzed.error ? `${analyzed.error.message}${analyzed.error.code ? ` (${analyzed.error.code})` : ""}` : "Analysis failed"
+        )
+      }
+
+      const detailResponse = await fetch(`/api/analyses/${analyzed.result.analysisId}`)
+      if (!detailResponse.ok) {
+        throw new Error(`Failed to load the analysis: ${detailResponse.status}`)
+      }
+      const { id, analysisResult: result }: AnalysisDetail = await detailResponse.json()
+
+      updateItem(item.id, {
+        status: "done",
+        message: undefined,
+        analysisId: id,
+        overallRisk: result.summary.overallRisk,
+        riskCount: result.risks.length,
+        highRiskCount: result.risks.filter((risk) => risk.severity === "high").length,
+        averageMatch: averageSectionMatch(result),
+        degraded: Boolean(result.provenance?.degraded),
+      })
+    } catch (error) {
+      console.error(`Error analyzing ${item.file.name}:`, error)
+      updateItem(item.id, { status: "failed", message: undefined, error: error instanceof Error ? error.message : "Analysis failed" })
+    }
+  }
+
+  const runBatch = async () => {
+    const pending = items.filter((item) => item.status === "queued" || item.status === "failed")
+    setRunning(true)
+    try {
+      await mapWithConcurrency(pending, Number(concurrency), processItem)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const toggleSort = (key: BatchSortKey) => {
+    setSort((current) =>
+      current.key === key ? { key, direction: current.direction === "asc" ? "desc" : "asc" } : { key, direction: key === "fileName" ? "asc" : "desc" }
+    )
+  }
+
+  const done = items.filter((item) => item.status === "done")
+  const failed = items.filter((item) => item.status === "failed")
+  const pendingCount = items.filter((item) => item.status === "queued" || item.status === "failed").length
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/templates" className="text-sm font-medium">
+              Templates
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+            <Link href="/approvals" className="text-sm font-medium">
+              Approvals
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold">Batch Analysis</h2>
+            <p className="text-muted-foreground">
+              Compare many customer NDAs against one reference NDA. Every result is saved to the history.
+            </p>
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2 mb-6">
+            <ReferenceTemplatePicker onSelect={(document) => setReferenceDocumentId(document?.documentId ?? null)} />
+            <div className="grid gap-2">
+              <Label htmlFor="batch-files">Customer NDAs</Label>
+              <label
+                htmlFor="batch-files"
+                className="rounded-md border border-dashed p-6 flex flex-col items-center justify-center gap-2 bg-muted/50 cursor-pointer"
+              >
+                <Upload className="h-8 w-8 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground text-center">
+                  Select PDF, DOC or DOCX files, or a ZIP of them
+                </p>
+                <input
+                  id="batch-files"
+                  type="file"
+                  multiple
+                  accept=".pdf,.doc,.docx,.zip"
+                  className="sr-only"
+                  disabled={running}
+                  onChange={handleFilesSelected}
+                />
+              </label>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-4">
+            <div className="grid gap-2">
+              <Label htmlFor="batch-concurrency">Analyses at a time</Label>
+              <Select value={concurrency} onValueChange={setConcurrency} disabled={running}>
+                <SelectTrigger id="batch-concurrency" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONCURRENCY_OPTIONS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-4">
+              {items.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {done.length} of {items.length} analyzed
+                  {failed.length > 0 && <span className="text-red-600"> · {failed.length} failed</span>}
+                </p>
+              )}
+              <Button onClick={runBatch} disabled={!referenceDocumentId || pendingCount === 0 || running}>
+                {running && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {running ? "Analyzing..." : failed.length > 0 && failed.length === pendingCount ? "Retry Failed" : `Analyze ${pendingCount} NDA${pendingCount === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          </div>
+
+          {!referenceDocumentId && items.length > 0 && (
+            <p className="text-sm text-muted-foreground mb-4">Upload the reference NDA to start the batch.</p>
+          )}
+
+          {items.length > 0 && (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <SortableHead label="Customer NDA" sortKey="fileName" sort={sort} onSort={toggleSort} />
+                    <TableHead>Status</TableHead>
+                    <SortableHead label="Overall Risk" sortKey="overallRisk" sort={sort} onSort={toggleSort} />
+                    <SortableHead label="High Risks" sortKey="highRiskCount" sort={sort} onSort={toggleSort} className="text-right" />
+                    <SortableHead label="Avg. Match" sortKey="averageMatch" sort={sort} onSort={toggleSort} className="text-right" />
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortBatchItems(items, sort.key, sort.direction).map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">{item.file.name}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {(item.status === "uploading" || item.status === "analyzing") && <Loader2 className="h-4 w-4 animate-spin" />}
+                          <span className={item.status === "failed" ? "text-red-600" : undefined}>{STATUS_LABELS[item.status]}</span>
+                          {item.degraded && (
+                            <Badge variant="outline" className="text-amber-700 border-amber-300">
+                              Degraded
+                            </Badge>
+                          )}
+                        </div>
+                        {item.message && <p className="text-xs text-muted-foreground mt-1">{item.message}</p>}
+                        {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+                      </TableCell>
+                      <TableCell>
+                        {item.overallRisk && <Badge className={riskBadgeClass[item.overallRisk]}>{item.overallRisk.toUpperCase()}</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.status === "done" && (
+                          <>
+                            {item.highRiskCount}
+                            <span className="text-muted-foreground"> / {item.riskCount}</span>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.status === "done" && (item.averageMatch != null ? `${item.averageMatch}%` : "—")}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.analysisId ? (
+                          <Button variant="outline" size="sm" asChild>
+                            <Link href={`/comparison/${item.analysisId}`}>Open</Link>
+                          </Button>
+                        ) : item.status === "queued" && !running && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            aria-label="Remove from batch"
+                            onClick={() => setItems((current) => current.filter((entry) => entry.id !== item.id))}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,356 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { Copy, Loader2, Pencil, Plus, Search, Trash2 } from "lucide-react"
+import type { LibraryClause } from "@/lib/clause-library"
+
+// Tags are edited as a comma-separated string
+interface ClauseForm {
+  id?: string
+  title: string
+  clauseType: string
+  jurisdiction: string
+  text: string
+  tags: string
+  notes: string
+}
+
+const emptyForm: ClauseForm = { title: "", clauseType: "", jurisdiction: "Any", text: "", tags: "", notes: "" }
+
+const ALL = "all"
+
+export default function ClauseLibraryPage() {
+  const { toast } = useToast()
+  const [clauses, setClauses] = useState<LibraryClause[]>([])
+  const [facets, setFacets] = useState<{ clauseTypes: string[]; jurisdictions: string[] }>({ clauseTypes: [], jurisdictions: [] })
+  const [query, setQuery] = useState("")
+  const [clauseType, setClauseType] = useState(ALL)
+  const [jurisdiction, setJurisdiction] = useState(ALL)
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<ClauseForm | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const loadClauses = useCallback(async () => {
+    try {
+      const params = new URLSearchParams()
+      if (query.trim()) params.set("q", query.trim())
+      if (clauseType !== ALL) params.set("clauseType", clauseType)
+      if (jurisdiction !== ALL) params.set("jurisdiction", jurisdiction)
+
+      const response = await fetch(`/api/clause-library?${params}`)
+      if (!response.ok) {
+        throw new Error(`Failed to load clause library: ${response.status}`)
+      }
+      setClauses((await response.json()).clauses)
+    } catch (error) {
+      console.error("Error loading clause library:", error)
+      toast({ variant: "destructive", title: "Could not load clause library" })
+    } finally {
+      setLoading(false)
+    }
+  }, [query, clauseType, jurisdiction, toast])
+
+  const loadFacets = useCallback(async () => {
+    try {
+      const response = await fetch("/api/clause-library")
+      if (!response.ok) return
+      const all: LibraryClause[] = (await response.json()).clauses
+      setFacets({
+        clauseTypes: Array.from(new Set(all.map((clause) => clause.clauseType))).sort(),
+        jurisdictions: Array.from(new Set(all.map((clause) => clause.jurisdiction).filter((value) => value !== "Any"))).sort(),
+      })
+    } catch (error) {
+      console.error("Error loading clause library:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadFacets()
+  }, [loadFacets])
+
+  useEffect(() => {
+    const timeout = setTimeout(loadClauses, 200)
+    return () => clearTimeout(timeout)
+  }, [loadClauses])
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    try {
+      const response = await fetch(form.id ? `/api/clause-library/${form.id}` : "/api/clause-library", {
+        method: form.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: form.title,
+          clauseType: form.clauseType.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, ""),
+          jurisdiction: form.jurisdiction,
+          text: form.text,
+          tags: form.tags.split(","),
+          notes: form.notes,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `Failed to save clause: ${response.status}`)
+      }
+      setForm(null)
+      toast({ title: "Clause saved", description: result.clause.title })
+      await Promise.all([loadClauses(), loadFacets()])
+    } catch (error) {
+      console.error("Error saving clause:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not save clause",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (clause: LibraryClause) => {
+    try {
+      const response = await fetch(`/api/clause-library/${clause.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(`Failed to delete clause: ${response.status}`)
+      }
+      setClauses((current) => current.filter((item) => item.id !== clause.id))
+      toast({ title: "Clause deleted", description: clause.title })
+    } catch (error) {
+      console.error("Error deleting clause:", error)
+      toast({ variant: "destructive", title: "Could not delete clause" })
+    }
+  }
+
+  const copyClause = async (clause: LibraryClause) => {
+    try {
+      await navigator.clipboard.writeText(clause.text)
+      toast({ title: "Clause copied", description: clause.title })
+    } catch {
+      toast({ variant: "destructive", title: "Could not copy to the clipboard" })
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/templates" className="text-sm font-medium">
+              Templates
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+            <Link href="/approvals" className="text-sm font-medium">
+              Approvals
+            </Link>
+            <Link href="/playbook" className="text-sm font-medium">
+              Playbook
+            </Link>
+            <Link href="/clause-library" className="text-sm font-medium">
+              Clause Library
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8 max-w-4xl">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-bold">Clause Library</h2>
+              <p className="text-muted-foreground">
+                Pre-approved wording by clause type and jurisdiction. Risk cards suggest matching clauses for counter-proposals.
+              </p>
+            </div>
+            <Button onClick={() => setForm(emptyForm)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Clause
+            </Button>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2 mb-6">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="Search wording, titles and tags..."
+                className="pl-8"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
+            <Select value={clauseType} onValueChange={setClauseType}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue placeholder="Clause type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All clause types</SelectItem>
+                {facets.clauseTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={jurisdiction} onValueChange={setJurisdiction}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue placeholder="Jurisdiction" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All jurisdictions</SelectItem>
+                {facets.jurisdictions.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading clause library...</p>
+            </div>
+          ) : clauses.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground border rounded-lg">
+              <p>No clauses match your search.</p>
+            </div>
+          ) : (
+            <div className="border rounded-lg divide-y">
+              {clauses.map((clause) => (
+                <div key={clause.id} className="p-4 grid gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{clause.title}</span>
+                    <Badge variant="secondary">{clause.clauseType}</Badge>
+                    <Badge variant="outline">{clause.jurisdiction}</Badge>
+                    <div className="ml-auto flex gap-1">
+                      <Button variant="ghost" size="icon" aria-label="Copy clause" onClick={() => copyClause(clause)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Edit clause"
+                        onClick={() => setForm({ ...clause, tags: clause.tags.join(", "), notes: clause.notes ?? "" })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" aria-label="Delete clause" onClick={() => handleDelete(clause)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{clause.text}</p>
+                  {clause.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {clause.tags.map((tag) => (
+                        <Badge key={tag} variant="outline" className="font-normal">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {clause.notes && <p className="text-xs text-muted-foreground">Note: {clause.notes}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit Clause" : "Add Clause"}</DialogTitle>
+            <DialogDescription>Approved wording reviewers can propose in place of a customer clause.</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="clause-title">Title</Label>
+                <Input id="clause-title" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="clause-type">Clause type</Label>
+                  <Input
+                    id="clause-type"
+                    list="clause-types"
+                    placeholder="e.g. governing_law"
+                    value={form.clauseType}
+                    onChange={(e) => setForm({ ...form, clauseType: e.target.value })}
+                  />
+                  <datalist id="clause-types">
+                    {facets.clauseTypes.map((type) => (
+                      <option key={type} value={type} />
+                    ))}
+                  </datalist>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="clause-jurisdiction">Jurisdiction</Label>
+                  <Input
+                    id="clause-jurisdiction"
+                    list="clause-jurisdictions"
+                    value={form.jurisdiction}
+                    onChange={(e) => setForm({ ...form, jurisdiction: e.target.value })}
+                  />
+                  <datalist id="clause-jurisdictions">
+                    {["Any", ...facets.jurisdictions].map((value) => (
+                      <option key={value} value={value} />
+                    ))}
+                  </datalist>
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="clause-text">Wording</Label>
+                <Textarea id="clause-text" rows={6} value={form.text} onChange={(e) => setForm({ ...form, text: e.target.value })} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="clause-tags">Tags (comma-separated)</Label>
+                <Input id="clause-tags" value={form.tags} onChange={(e) => setForm({ ...form, tags: e.target.value })} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="clause-notes">Notes</Label>
+                <Input id="clause-notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Clause
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { AnalysisTabs } from "@/components/analysis-tabs"
+import { ExportReportButton } from "@/components/export-report-button"
+import { NextRoundUpload } from "@/components/next-round-upload"
+import { ShareDialog } from "@/components/share-dialog"
+import { Loader2 } from "lucide-react"
+import type { AnalysisDetail } from "@/lib/analysis-store"
+
+export default function ComparisonPage() {
+  const { id } = useParams<{ id: string }>()
+  const [data, setData] = useState<AnalysisDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+
+  useEffect(() => {
+    const loadAnalysis = async () => {
+      try {
+        const response = await fetch(`/api/analyses/${encodeURIComponent(id)}`)
+        const result = await response.json().catch(() => null)
+        if (!response.ok) {
+          throw new Error(result?.error || `Failed to load analysis: ${response.status}`)
+        }
+        setData(result)
+      } catch (error) {
+        console.error('Error loading analysis data:', error)
+        setError(error instanceof Error ? error.message : 'Failed to load analysis')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadAnalysis()
+  }, [id])
+
+  const handleNewComparison = () => {
+    router.push('/')
+  }
+
+  if (loading || !data) {
+    return (
+      <div className="flex flex-col min-h-screen">
+        <header className="border-b">
+          <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+            <h1 className="text-lg font-semibold">NDA Checker</h1>
+          </div>
+        </header>
+        <main className="flex-1 flex items-center justify-center">
+          {error ? (
+            <div className="text-center">
+              <p className="font-medium">{error}</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                <Link href="/history" className="underline">Back to history</Link>
+              </p>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading analysis results...</p>
+            </div>
+          )}
+        </main>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+            <Link href="#" className="text-sm font-medium">
+              About
+            </Link>
+            <Link href="#" className="text-sm font-medium">
+              Help
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold">NDA Comparison Results</h1>
+              <p className="text-muted-foreground">
+                Comparing {data.referenceNda.fileName} with {data.customerNda.fileName}
+                {data.baselineNda && <> and the market baseline {data.baselineNda.fileName}</>}
+              </p>
+              {data.templateVersion && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Reference template: {data.templateVersion.templateName} {data.templateVersion.versionLabel}
+                  {data.templateVersion.effectiveDate && <> (effective {data.templateVersion.effectiveDate})</>}
+                  {data.rerunOf && (
+                    <>
+                      {" "}·{" "}
+                      <Link href={`/comparison/${data.rerunOf}`} className="underline">
+                        Earlier run
+                      </Link>
+                    </>
+                  )}
+                </p>
+              )}
+              {data.matterId && data.round && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Round {data.round} ·{" "}
+                  <Link href={`/matters/${data.matterId}`} className="underline">
+                    View matter
+                  </Link>
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <ExportReportButton exportPath={`/api/analyses/${data.id}/export`} />
+              <ShareDialog analysisId={data.id} />
+              <Button onClick={handleNewComparison}>New Comparison</Button>
+            </div>
+          </div>
+
+          <AnalysisTabs data={data} analysisId={data.id} onChange={(changes) => setData({ ...data, ...changes })}>
+            <NextRoundUpload
+              analysisId={data.id}
+              referenceDocumentId={data.referenceNda.id}
+              baselineDocumentId={data.baselineNda?.id}
+              matterId={data.matterId}
+              round={data.round}
+            />
+          </AnalysisTabs>
+        </div>
+      </main>
+      <footer className="border-t py-6">
+        <div className="container flex flex-col items-center justify-between gap-4 px-4 sm:px-6 lg:px-8 md:flex-row">
+          <p className="text-sm text-muted-foreground">© 2025 NDA Checker. All rights reserved.</p>
+          <nav className="flex gap-4">
+            <Link href="#" className="text-sm text-muted-foreground hover:underline">
+              Terms
+            </Link>
+            <Link href="#" className="text-sm text-muted-foreground hover:underline">
+              Privacy
+            </Link>
+            <Link href="#" className="text-sm text-muted-foreground hover:underline">
+              Contact
+            </Link>
+          </nav>
+        </div>
+      </footer>
+    </div>
+  )
+}
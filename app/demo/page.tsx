@@ -1,5 +1,6 @@
 "use client"
 
+import { Suspense } from "react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { ComparisonView } from "@/components/comparison-view"
@@ -128,11 +129,13 @@ export default function DemoPage() {
                 <FileText className="h-5 w-5 text-blue-600" />
                 <h3 className="text-xl font-semibold">Side-by-Side Comparison</h3>
               </div>
-              <ComparisonView 
-                analysisResult={demoAnalysisResult}
-                referenceNda={demoReferenceNda}
-                customerNda={demoCustomerNda}
-              />
+              <Suspense>
+                <ComparisonView
+                  analysisResult={demoAnalysisResult}
+                  referenceNda={demoReferenceNda}
+                  customerNda={demoCustomerNda}
+                />
+              </Suspense>
             </div>
 
             {/* Risk Analysis */}
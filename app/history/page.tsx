@@ -0,0 +1,225 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, Trash2 } from "lucide-react"
+import type { AnalysisListItem } from "@/lib/analysis-store"
+import { REVIEW_STATUS_LABELS } from "@/lib/risk-decisions"
+
+const riskBadgeClass: Record<AnalysisListItem["overallRisk"], string> = {
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+  medium: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  low: "bg-green-100 text-green-800 hover:bg-green-100",
+}
+
+const APPROVAL_STATUS_LABELS: Record<NonNullable<AnalysisListItem["approvalStatus"]>, string> = {
+  pending: "Awaiting sign-off",
+  approved: "Signed off",
+  rejected: "Sign-off rejected",
+}
+
+export default function HistoryPage() {
+  const [analyses, setAnalyses] = useState<AnalysisListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadAnalyses = async () => {
+      try {
+        const response = await fetch("/api/analyses")
+        if (!response.ok) {
+          throw new Error(`Failed to load history: ${response.status}`)
+        }
+        const result = await response.json()
+        setAnalyses(result.analyses)
+      } catch (error) {
+        console.error("Error loading history:", error)
+        setError(error instanceof Error ? error.message : "Failed to load history")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadAnalyses()
+  }, [])
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/analyses/${id}`, { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(`Failed to delete analysis: ${response.status}`)
+      }
+      setAnalyses((current) => current.filter((analysis) => analysis.id !== id))
+    } catch (error) {
+      console.error("Error deleting analysis:", error)
+      setError(error instanceof Error ? error.message : "Failed to delete analysis")
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/templates" className="text-sm font-medium">
+              Templates
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+            <Link href="/approvals" className="text-sm font-medium">
+              Approvals
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-bold">Comparison History</h2>
+              <p className="text-muted-foreground">
+                Reopen or delete past NDA comparisons.
+              </p>
+            </div>
+            <Button asChild>
+              <Link href="/">New Comparison</Link>
+            </Button>
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-4 mb-6">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading history...</p>
+            </div>
+          ) : analyses.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <p>No comparisons yet.</p>
+              <p className="text-sm">Analyses are saved here automatically after each comparison.</p>
+            </div>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Reference NDA</TableHead>
+                    <TableHead>Customer NDA</TableHead>
+                    <TableHead>Overall Risk</TableHead>
+                    <TableHead>Review Status</TableHead>
+                    <TableHead className="text-right">Risks</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analyses.map((analysis) => (
+                    <TableRow key={analysis.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(analysis.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {analysis.referenceFileName}
+                        {analysis.templateVersion && (
+                          <Link
+                            href={`/templates/${analysis.templateVersion.templateId}`}
+                            className="ml-2 text-xs text-muted-foreground underline whitespace-nowrap"
+                          >
+                            {analysis.templateVersion.templateName} {analysis.templateVersion.versionLabel}
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {analysis.customerFileName}
+                        {analysis.matterId && analysis.round && (
+                          <Link href={`/matters/${analysis.matterId}`} className="ml-2 text-xs text-muted-foreground underline whitespace-nowrap">
+                            Round {analysis.round}
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge className={riskBadgeClass[analysis.overallRisk]}>
+                            {analysis.overallRisk.toUpperCase()}
+                          </Badge>
+                          {analysis.degraded && (
+                            <Badge variant="outline" className="text-amber-700 border-amber-300">
+                              Degraded
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {analysis.approvalStatus ? APPROVAL_STATUS_LABELS[analysis.approvalStatus] : REVIEW_STATUS_LABELS[analysis.reviewStatus]}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {analysis.riskCount}
+                        {analysis.highRiskCount > 0 && (
+                          <span className="text-red-600"> ({analysis.highRiskCount} high)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" asChild>
+                            <Link href={`/comparison/${analysis.id}`}>Open</Link>
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm" aria-label="Delete comparison">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete this comparison?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  The analysis and any uploaded documents used only by it will be removed permanently.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(analysis.id)}>
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,286 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { ExportReportButton } from "@/components/export-report-button"
+import { MatterFormDialog } from "@/components/matter-form-dialog"
+import { RoundChanges } from "@/components/round-changes"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import type { AnalysisExport, DocumentType } from "@/lib/analysis-store"
+import { ageInDays, isOverdue, MATTER_STATUS_LABELS } from "@/lib/matter-status"
+import type { MatterRound, MatterWorkspace } from "@/lib/matters"
+import { REVIEW_STATUS_LABELS } from "@/lib/risk-decisions"
+
+const riskBadgeClass: Record<MatterRound["overallRisk"], string> = {
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+  medium: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  low: "bg-green-100 text-green-800 hover:bg-green-100",
+}
+
+const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  referenceNda: "Reference",
+  customerNda: "Customer",
+  baselineNda: "Market baseline",
+}
+
+const EXPORT_LABELS: Record<AnalysisExport["kind"], string> = {
+  report_pdf: "Report (PDF)",
+  report_docx: "Report (DOCX)",
+  markup_docx: "Marked-up NDA",
+}
+
+export default function MatterWorkspacePage() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const [workspace, setWorkspace] = useState<MatterWorkspace | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadWorkspace = async () => {
+      try {
+        const response = await fetch(`/api/matters/${encodeURIComponent(id)}`)
+        const result = await response.json().catch(() => null)
+        if (!response.ok) {
+          throw new Error(result?.error || `Failed to load matter: ${response.status}`)
+        }
+        setWorkspace(result)
+      } catch (error) {
+        console.error("Error loading matter:", error)
+        setError(error instanceof Error ? error.message : "Failed to load matter")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadWorkspace()
+  }, [id])
+
+  const handleDelete = async () => {
+    try {
+      const response = await fetch(`/api/matters/${id}`, { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(`Failed to delete matter: ${response.status}`)
+      }
+      router.push("/matters")
+    } catch (error) {
+      console.error("Error deleting matter:", error)
+      setError(error instanceof Error ? error.message : "Failed to delete matter")
+    }
+  }
+
+  const matter = workspace?.matter
+  const latest = workspace?.rounds[workspace.rounds.length - 1]
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/templates" className="text-sm font-medium">
+              Templates
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+            <Link href="/approvals" className="text-sm font-medium">
+              Approvals
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8">
+          {error && (
+            <div className="rounded-md bg-red-50 p-4 mb-6">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading matter...</p>
+            </div>
+          ) : workspace && matter && (
+            <>
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h2 className="text-2xl font-bold">{matter.name}</h2>
+                    <Badge variant="outline">{MATTER_STATUS_LABELS[matter.status]}</Badge>
+                  </div>
+                  <p className="text-muted-foreground">
+                    {matter.counterparty} · owned by {matter.owner || "nobody yet"} · opened {ageInDays(matter.createdAt)} days ago
+                    {matter.dueDate && (
+                      <span className={isOverdue(matter) ? "text-red-600 font-medium" : undefined}> · due {matter.dueDate}</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <MatterFormDialog
+                    matter={matter}
+                    trigger={
+                      <Button variant="outline">
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit
+                      </Button>
+                    }
+                    onSaved={(saved) => setWorkspace({ ...workspace, matter: saved })}
+                  />
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" aria-label="Delete matter">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this matter?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The matter is removed. Its comparisons stay in the history as standalone analyses.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                  {latest ? (
+                    <Button asChild>
+                      <Link href={`/comparison/${latest.analysisId}`}>Open Latest Round</Link>
+                    </Button>
+                  ) : (
+                    <Button asChild>
+                      <Link href={`/?matter=${matter.id}`}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        New Comparison
+                      </Link>
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Documents</CardTitle>
+                  <CardDescription>Reference and customer NDAs analyzed for this matter</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {workspace.documents.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No documents yet.{" "}
+                      <Link href={`/?matter=${matter.id}`} className="underline">
+                        Run the first comparison
+                      </Link>
+                      .
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>File</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Uploaded</TableHead>
+                          <TableHead>Rounds</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {workspace.documents.map((document) => (
+                          <TableRow key={document.id}>
+                            <TableCell>{document.fileName}</TableCell>
+                            <TableCell>{DOCUMENT_TYPE_LABELS[document.documentType]}</TableCell>
+                            <TableCell className="whitespace-nowrap">{new Date(document.uploadedAt).toLocaleString()}</TableCell>
+                            <TableCell>{document.rounds.join(", ")}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              {workspace.rounds.length > 0 && (
+                <ol className="relative grid gap-6 border-l pl-6">
+                  {workspace.rounds.map((round) => (
+                    <li key={round.analysisId} className="relative">
+                      <span className="absolute -left-[31px] top-6 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                      <Card>
+                        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                          <div className="grid gap-1.5">
+                            <CardTitle>Round {round.round}</CardTitle>
+                            <CardDescription>
+                              {round.customerFileName} · {new Date(round.createdAt).toLocaleString()}
+                            </CardDescription>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge className={riskBadgeClass[round.overallRisk]}>{round.overallRisk.toUpperCase()}</Badge>
+                            <ExportReportButton exportPath={`/api/analyses/${round.analysisId}/export`} />
+                            <Button variant="outline" asChild>
+                              <Link href={`/comparison/${round.analysisId}`}>Open</Link>
+                            </Button>
+                          </div>
+                        </CardHeader>
+                        <CardContent className="grid gap-2">
+                          <p className="text-sm text-muted-foreground">
+                            {round.riskCount} risk{round.riskCount === 1 ? "" : "s"}
+                            {round.highRiskCount > 0 && <span className="text-red-600"> ({round.highRiskCount} high)</span>}
+                            {" "}· {REVIEW_STATUS_LABELS[round.reviewStatus]} ({round.decidedCount} of {round.riskCount} decided)
+                            {round.approvalStatus && <> · sign-off {round.approvalStatus}</>}
+                            {round.comparison && (
+                              <>
+                                {" "}· {round.comparison.resolved.length} resolved, {round.comparison.remaining.length} remaining,{" "}
+                                {round.comparison.new.length} new since the previous round
+                              </>
+                            )}
+                          </p>
+                          {round.exports.length > 0 && (
+                            <p className="text-sm text-muted-foreground">
+                              Exported:{" "}
+                              {round.exports
+                                .map((entry) => `${EXPORT_LABELS[entry.kind]} on ${new Date(entry.exportedAt).toLocaleDateString()}`)
+                                .join(", ")}
+                            </p>
+                          )}
+                          {round.comparison ? (
+                            <RoundChanges comparison={round.comparison} />
+                          ) : (
+                            <p className="text-sm text-muted-foreground">First draft received from the customer.</p>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { MatterFormDialog } from "@/components/matter-form-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, Plus } from "lucide-react"
+import { ageInDays, isOverdue, MATTER_STATUS_LABELS } from "@/lib/matter-status"
+import type { MatterListItem } from "@/lib/matters"
+import { REVIEW_STATUS_LABELS } from "@/lib/risk-decisions"
+
+const riskBadgeClass: Record<NonNullable<MatterListItem["overallRisk"]>, string> = {
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+  medium: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  low: "bg-green-100 text-green-800 hover:bg-green-100",
+}
+
+const isOpen = (matter: MatterListItem) => matter.status === "open" || matter.status === "on_hold"
+
+export default function MattersPage() {
+  const [matters, setMatters] = useState<MatterListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showClosed, setShowClosed] = useState(false)
+
+  const loadMatters = async () => {
+    try {
+      const response = await fetch("/api/matters")
+      if (!response.ok) {
+        throw new Error(`Failed to load matters: ${response.status}`)
+      }
+      setMatters((await response.json()).matters)
+    } catch (error) {
+      console.error("Error loading matters:", error)
+      setError(error instanceof Error ? error.message : "Failed to load matters")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadMatters()
+  }, [])
+
+  const open = matters.filter(isOpen)
+  const visible = showClosed ? matters : open
+  const summary = [
+    { label: "High risk", count: open.filter((matter) => matter.overallRisk === "high").length, className: "text-red-600" },
+    { label: "Medium risk", count: open.filter((matter) => matter.overallRisk === "medium").length, className: "text-yellow-600" },
+    { label: "Low risk", count: open.filter((matter) => matter.overallRisk === "low").length, className: "text-green-600" },
+    { label: "Not analyzed", count: open.filter((matter) => !matter.overallRisk).length, className: "text-muted-foreground" },
+    { label: "Overdue", count: open.filter((matter) => isOverdue(matter)).length, className: "text-red-600" },
+  ]
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/templates" className="text-sm font-medium">
+              Templates
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+            <Link href="/approvals" className="text-sm font-medium">
+              Approvals
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-bold">Matters</h2>
+              <p className="text-muted-foreground">
+                Open NDA requests by risk level and age, with their documents, analysis rounds and exports.
+              </p>
+            </div>
+            <MatterFormDialog
+              trigger={
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Matter
+                </Button>
+              }
+              onSaved={() => loadMatters()}
+            />
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-4 mb-6">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-5 mb-6">
+            {summary.map(({ label, count, className }) => (
+              <Card key={label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">{label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className={`text-2xl font-bold ${className}`}>{count}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 mb-4">
+            <Switch id="show-closed" checked={showClosed} onCheckedChange={setShowClosed} />
+            <Label htmlFor="show-closed">Show signed and closed matters</Label>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading matters...</p>
+            </div>
+          ) : visible.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <p>No open matters.</p>
+              <p className="text-sm">Create a matter, then run comparisons for it from the home page.</p>
+            </div>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Matter</TableHead>
+                    <TableHead>Counterparty</TableHead>
+                    <TableHead>Owner</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Risk</TableHead>
+                    <TableHead>Review</TableHead>
+                    <TableHead className="text-right">Rounds</TableHead>
+                    <TableHead className="text-right">Age</TableHead>
+                    <TableHead>Due</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((matter) => (
+                    <TableRow key={matter.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/matters/${matter.id}`} className="hover:underline">
+                          {matter.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{matter.counterparty}</TableCell>
+                      <TableCell>{matter.owner || <span className="text-muted-foreground">Unassigned</span>}</TableCell>
+                      <TableCell className="whitespace-nowrap">{MATTER_STATUS_LABELS[matter.status]}</TableCell>
+                      <TableCell>
+                        {matter.overallRisk ? (
+                          <Badge className={riskBadgeClass[matter.overallRisk]}>{matter.overallRisk.toUpperCase()}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {matter.reviewStatus ? REVIEW_STATUS_LABELS[matter.reviewStatus] : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{matter.roundCount}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{ageInDays(matter.createdAt)}d</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {matter.dueDate ? (
+                          <span className={isOverdue(matter) ? "text-red-600 font-medium" : undefined}>{matter.dueDate}</span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
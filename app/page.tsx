@@ -1,15 +1,29 @@
 "use client"
 
-import { useState } from "react"
+import { Suspense, useEffect, useRef, useState } from "react"
 import Link from "next/link"
+import { ExportReportButton } from "@/components/export-report-button"
 import { FileUpload } from "@/components/file-upload"
+import { ReferenceTemplatePicker } from "@/components/reference-template-picker"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ComparisonView } from "@/components/comparison-view"
+import { KeyTermsTable } from "@/components/key-terms-table"
 import { RiskAnalysis } from "@/components/risk-analysis"
+import { ShareDialog } from "@/components/share-dialog"
 import { SummaryView } from "@/components/summary-view"
-import { Loader2, CheckCircle, FileText, Brain, Shield, Github } from "lucide-react"
+import { Loader2, CheckCircle, FileText, Brain, Shield, Github, ListChecks } from "lucide-react"
+import type { AnalysisDetail } from "@/lib/analysis-store"
+import { streamJob } from "@/lib/job-client"
+import type { MatterListItem } from "@/lib/matters"
+import type { AnalysisRisk, AnalysisSection } from "@/lib/nda-analysis"
+import type { RiskDecision } from "@/lib/risk-decisions"
 
 interface UploadedDocument {
+  documentId: string
   fileName: string
   documentType: string
   parsedContent: {
@@ -20,17 +34,75 @@ interface UploadedDocument {
   }
 }
 
+interface ComparedNdas {
+  reference: UploadedDocument
+  customer: UploadedDocument
+  baseline: UploadedDocument | null
+}
+
+const NO_MATTER = "none"
+
+// Lets a reload or a reopened tab pick up an analysis that is still running on the server
+const ANALYSIS_JOB_KEY = "nda-checker:analysis-job"
+
+function toUploadedDocument(document: AnalysisDetail["referenceNda"]): UploadedDocument {
+  return {
+    documentId: document.id,
+    fileName: document.fileName,
+    documentType: document.documentType,
+    parsedContent: document.parsedContent,
+  }
+}
+
 export default function Home() {
   const [referenceNda, setReferenceNda] = useState<UploadedDocument | null>(null)
   const [customerNda, setCustomerNda] = useState<UploadedDocument | null>(null)
+  // Optional market baseline for a three-way comparison
+  const [useBaseline, setUseBaseline] = useState(false)
+  const [baselineNda, setBaselineNda] = useState<UploadedDocument | null>(null)
+  // The documents of the shown result, which may differ from the current picks after a resume
+  const [comparedNdas, setComparedNdas] = useState<ComparedNdas | null>(null)
   const [analyzing, setAnalyzing] = useState(false)
   const [analysisError, setAnalysisError] = useState<string | null>(null)
   const [analysisResult, setAnalysisResult] = useState<any | null>(null)
   const [analysisStep, setAnalysisStep] = useState<string>("")
+  const [analysisProgress, setAnalysisProgress] = useState(0)
+  // Sections and risks streamed by the running analysis, shown until the saved result arrives
+  const [liveResult, setLiveResult] = useState<{ sections: AnalysisSection[]; risks: AnalysisRisk[] } | null>(null)
+  const [failedJobId, setFailedJobId] = useState<string | null>(null)
+  const jobStreamRef = useRef<AbortController | null>(null)
+  const [decisions, setDecisions] = useState<RiskDecision[]>([])
+  const [matters, setMatters] = useState<MatterListItem[]>([])
+  const [matterId, setMatterId] = useState<string>(NO_MATTER)
+
+  useEffect(() => {
+    // Matter workspaces link here with ?matter=<id> to file the comparison under that matter
+    const requested = new URLSearchParams(window.location.search).get("matter")
+    if (requested) setMatterId(requested)
+
+    const loadMatters = async () => {
+      try {
+        const response = await fetch("/api/matters")
+        if (!response.ok) return
+        const result: { matters: MatterListItem[] } = await response.json()
+        setMatters(result.matters.filter((matter) => matter.status === "open" || matter.status === "on_hold"))
+      } catch (error) {
+        console.error("Error loading matters:", error)
+      }
+    }
+
+    loadMatters()
+
+    const runningJobId = window.localStorage.getItem(ANALYSIS_JOB_KEY)
+    if (runningJobId) followAnalysisJob(runningJobId)
+
+    return () => jobStreamRef.current?.abort()
+  }, [])
 
   const handleUploadComplete = (result: any) => {
     if (result.success && result.parsedContent) {
       const uploadedDoc: UploadedDocument = {
+        documentId: result.documentId,
         fileName: result.fileName,
         documentType: result.documentType,
         parsedContent: result.parsedContent
@@ -40,11 +112,82 @@ export default function Home() {
         setReferenceNda(uploadedDoc)
       } else if (result.documentType === "customerNda") {
         setCustomerNda(uploadedDoc)
+      } else if (result.documentType === "baselineNda") {
+        setBaselineNda(uploadedDoc)
       }
     }
   }
 
-  const canAnalyze = referenceNda && customerNda && !analyzing
+  const canAnalyze = referenceNda && customerNda && (!useBaseline || baselineNda) && !analyzing
+  const streaming = !analysisResult && Boolean(liveResult && (liveResult.sections.length > 0 || liveResult.risks.length > 0))
+  const shownResult = analysisResult ?? (streaming ? liveResult : null)
+  const shownNdas = analysisResult
+    ? comparedNdas
+    : referenceNda && customerNda ? { reference: referenceNda, customer: customerNda, baseline: useBaseline ? baselineNda : null } : null
+
+  // Streams the analysis job and loads the saved analysis once it is done
+  const followAnalysisJob = async (jobId: string) => {
+    jobStreamRef.current?.abort()
+    const controller = new AbortController()
+    jobStreamRef.current = controller
+
+    setAnalyzing(true)
+    setAnalysisError(null)
+    setFailedJobId(null)
+    setAnalysisStep("Waiting to start")
+    setAnalysisProgress(0)
+    setLiveResult({ sections: [], risks: [] })
+
+    try {
+      const job = await streamJob(jobId, {
+        onProgress: (update) => {
+          setAnalysisStep(update.message)
+          setAnalysisProgress(update.progress)
+        },
+        onReset: () => setLiveResult({ sections: [], risks: [] }),
+        onSection: (section) => setLiveResult((live) => live && { ...live, sections: [...live.sections, section] }),
+        onRisk: (risk) => setLiveResult((live) => live && { ...live, risks: [...live.risks, risk] }),
+      }, controller.signal)
+      window.localStorage.removeItem(ANALYSIS_JOB_KEY)
+
+      if (job.kind !== "analyze" || job.status !== "done" || !job.result) {
+        setFailedJobId(job.id)
+        throw new Error(
+          job.error ? `${job.error.message}${job.error.code ? ` (${job.error.code})` : ""}` : "Analysis failed"
+        )
+      }
+
+      const response = await fetch(`/api/analyses/${job.result.analysisId}`, { signal: controller.signal })
+      if (!response.ok) {
+        throw new Error(`Failed to load the analysis: ${response.status}`)
+      }
+      const detail: AnalysisDetail = await response.json()
+
+      setComparedNdas({
+        reference: toUploadedDocument(detail.referenceNda),
+        customer: toUploadedDocument(detail.customerNda),
+        baseline: detail.baselineNda ? toUploadedDocument(detail.baselineNda) : null,
+      })
+      setAnalysisResult({ ...detail.analysisResult, id: detail.id, matterId: detail.matterId, round: detail.round })
+      setDecisions(detail.decisions)
+
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") return
+      console.error("Analysis failed:", error)
+      // A job that no longer exists cannot be resumed
+      if (!(error instanceof Error && error.message === "Job not found")) {
+        setAnalysisError(error instanceof Error ? error.message : "Analysis failed")
+      }
+      window.localStorage.removeItem(ANALYSIS_JOB_KEY)
+    } finally {
+      if (jobStreamRef.current === controller) {
+        jobStreamRef.current = null
+        setAnalyzing(false)
+        setAnalysisStep("")
+        setLiveResult(null)
+      }
+    }
+  }
 
   const handleCompareDocuments = async () => {
     if (!referenceNda || !customerNda) {
@@ -56,37 +199,50 @@ export default function Home() {
     setAnalysisResult(null)
 
     try {
-      setAnalysisStep("Preparing documents for analysis...")
-      await new Promise(resolve => setTimeout(resolve, 500))
-
-      setAnalysisStep("Sending documents to SolarLLM for analysis...")
-      const response = await fetch("/api/analyze", {
+      // The server analyzes the stored uploads in a background job and saves the result to history
+      const response = await fetch("/api/jobs/analyze", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          referenceText: referenceNda.parsedContent.text || referenceNda.parsedContent.html,
-          customerText: customerNda.parsedContent.text || customerNda.parsedContent.html,
+          referenceDocumentId: referenceNda.documentId,
+          customerDocumentId: customerNda.documentId,
+          baselineDocumentId: useBaseline ? baselineNda?.documentId : undefined,
+          matterId: matterId === NO_MATTER ? undefined : matterId,
         }),
       })
 
+      const result = await response.json().catch(() => null)
       if (!response.ok) {
-        throw new Error(`Analysis failed: ${response.status}`)
+        throw new Error(result?.error || `Analysis failed: ${response.status}`)
       }
 
-      setAnalysisStep("Processing analysis results...")
-      const result = await response.json()
-      
-      setAnalysisResult(result)
-      setAnalysisStep("Analysis complete!")
+      window.localStorage.setItem(ANALYSIS_JOB_KEY, result.job.id)
+      await followAnalysisJob(result.job.id)
 
     } catch (error) {
       console.error("Analysis failed:", error)
       setAnalysisError(error instanceof Error ? error.message : "Analysis failed")
-    } finally {
       setAnalyzing(false)
-      setAnalysisStep("")
+    }
+  }
+
+  const handleRetryAnalysis = async () => {
+    if (!failedJobId) return
+
+    try {
+      const response = await fetch(`/api/jobs/${failedJobId}/retry`, { method: "POST" })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to retry the analysis")
+      }
+
+      window.localStorage.setItem(ANALYSIS_JOB_KEY, failedJobId)
+      await followAnalysisJob(failedJobId)
+    } catch (error) {
+      console.error("Retry failed:", error)
+      setAnalysisError(error instanceof Error ? error.message : "Failed to retry the analysis")
     }
   }
 
@@ -113,17 +269,11 @@ export default function Home() {
                 <div>
                   <h2 className="text-xl font-semibold">Upload Documents</h2>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Upload both your reference NDA and the customer NDA in PDF, DOC, or DOCX format.
+                    Pick a saved reference template or upload your reference NDA, then upload the customer NDA in PDF, DOC, or DOCX format.
                   </p>
                 </div>
                 <div className="grid gap-4 sm:grid-cols-2">
-                  <FileUpload
-                    label="Reference NDA"
-                    description="Your standard NDA template"
-                    accept=".pdf,.doc,.docx"
-                    endpoint="referenceNda"
-                    onUploadComplete={handleUploadComplete}
-                  />
+                  <ReferenceTemplatePicker onSelect={setReferenceNda} />
                   <FileUpload
                     label="Customer NDA"
                     description="NDA provided by customer"
@@ -132,12 +282,61 @@ export default function Home() {
                     onUploadComplete={handleUploadComplete}
                   />
                 </div>
+
+                <div className="grid gap-4">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="use-baseline"
+                      checked={useBaseline}
+                      onCheckedChange={(checked) => {
+                        setUseBaseline(checked === true)
+                        if (checked !== true) setBaselineNda(null)
+                      }}
+                    />
+                    <Label htmlFor="use-baseline" className="font-normal">
+                      Also compare with a market baseline, e.g. a public model NDA
+                    </Label>
+                  </div>
+                  {useBaseline && (
+                    <FileUpload
+                      label="Market Baseline NDA"
+                      description="Shows whether each deviation is from your NDA, from market practice, or both"
+                      accept=".pdf,.doc,.docx"
+                      endpoint="baselineNda"
+                      onUploadComplete={handleUploadComplete}
+                    />
+                  )}
+                </div>
+
+                {matters.length > 0 && (
+                  <div className="grid gap-2">
+                    <Label htmlFor="matter">Matter</Label>
+                    <Select value={matterId} onValueChange={setMatterId}>
+                      <SelectTrigger id="matter">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_MATTER}>No matter</SelectItem>
+                        {matters.map((matter) => (
+                          <SelectItem key={matter.id} value={matter.id}>
+                            {matter.name} · {matter.counterparty}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 
                 {analysisError && (
-                  <div className="rounded-md bg-red-50 p-4">
+                  <div className="rounded-md bg-red-50 p-4 flex items-center justify-between gap-4">
                     <p className="text-sm text-red-600">
                       Analysis failed: {analysisError}
                     </p>
+                    {failedJobId && (
+                      <Button variant="outline" size="sm" onClick={handleRetryAnalysis}>
+                        Retry
+                      </Button>
+                    )}
                   </div>
                 )}
 
@@ -145,19 +344,17 @@ export default function Home() {
                   <div className="rounded-md bg-blue-50 p-4 border-l-4 border-blue-400">
                     <div className="flex items-center">
                       <Loader2 className="h-5 w-5 text-blue-600 animate-spin mr-3" />
-                      <div>
+                      <div className="flex-1">
                         <h4 className="text-sm font-medium text-blue-800">
                           Analyzing Documents...
                         </h4>
                         <p className="text-sm text-blue-600 mt-1">
                           {analysisStep}
                         </p>
-                        <div className="mt-2 text-xs text-blue-500">
-                          <p>• Extracting document content and structure</p>
-                          <p>• Comparing sections and clauses</p>
-                          <p>• Identifying potential risks and differences</p>
-                          <p>• Generating recommendations</p>
-                        </div>
+                        <Progress value={analysisProgress} className="h-2 mt-2" />
+                        <p className="mt-2 text-xs text-blue-500">
+                          The analysis runs on the server, so you can close this page and come back later.
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -177,8 +374,10 @@ export default function Home() {
                     {!referenceNda && !customerNda 
                       ? "Please upload both documents to enable comparison"
                       : !referenceNda 
-                        ? "Please upload the reference NDA"
-                        : "Please upload the customer NDA"
+                        ? "Please choose the reference NDA"
+                        : !customerNda
+                          ? "Please upload the customer NDA"
+                          : "Please upload the market baseline NDA or turn the baseline off"
                     }
                   </p>
                 )}
@@ -189,6 +388,22 @@ export default function Home() {
                     <Link href="/demo" className="underline">
                       demo comparison
                     </Link>
+                    {", "}reopen a{" "}
+                    <Link href="/history" className="underline">
+                      past comparison
+                    </Link>
+                    {", "}manage reference{" "}
+                    <Link href="/templates" className="underline">
+                      templates
+                    </Link>
+                    {", "}track your{" "}
+                    <Link href="/matters" className="underline">
+                      matters
+                    </Link>
+                    {" "}or run a{" "}
+                    <Link href="/batch" className="underline">
+                      batch analysis
+                    </Link>
                   </p>
                 </div>
               </div>
@@ -197,7 +412,7 @@ export default function Home() {
         </section>
 
         {/* Analysis Results Section */}
-        {analysisResult && referenceNda && customerNda && (
+        {shownResult && shownNdas && (
           <section className="border-t bg-muted/30">
             <div className="container px-4 py-12 sm:px-6 lg:px-8">
               <div className="mx-auto max-w-6xl">
@@ -205,14 +420,36 @@ export default function Home() {
                   <div>
                     <h2 className="text-2xl font-bold">NDA Comparison Results</h2>
                     <p className="text-muted-foreground">
-                      Comparing {referenceNda.fileName} with {customerNda.fileName}
+                      Comparing {shownNdas.reference.fileName} with {shownNdas.customer.fileName}
                     </p>
+                    {analysisResult?.id && (
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Saved to{" "}
+                        <Link href={`/comparison/${analysisResult.id}`} className="underline">
+                          history
+                        </Link>
+                        {analysisResult.matterId && (
+                          <>
+                            {" "}as round {analysisResult.round} of the{" "}
+                            <Link href={`/matters/${analysisResult.matterId}`} className="underline">
+                              matter
+                            </Link>
+                          </>
+                        )}
+                      </p>
+                    )}
                   </div>
-                  <div className="flex gap-2">
-                    <Button variant="outline">Download Report</Button>
-                    <Button variant="outline">Share</Button>
-                    <Button onClick={resetAnalysis}>New Comparison</Button>
-                  </div>
+                  {analysisResult && (
+                    <div className="flex gap-2">
+                      {analysisResult.id && (
+                        <>
+                          <ExportReportButton exportPath={`/api/analyses/${analysisResult.id}/export`} />
+                          <ShareDialog analysisId={analysisResult.id} />
+                        </>
+                      )}
+                      <Button onClick={resetAnalysis}>New Comparison</Button>
+                    </div>
+                  )}
                 </div>
 
                 {/* Side-by-Side Comparison */}
@@ -221,13 +458,28 @@ export default function Home() {
                     <FileText className="h-5 w-5 text-blue-600" />
                     <h3 className="text-xl font-semibold">Side-by-Side Comparison</h3>
                   </div>
-                  <ComparisonView 
-                    analysisResult={analysisResult}
-                    referenceNda={referenceNda}
-                    customerNda={customerNda}
-                  />
+                  <Suspense>
+                    <ComparisonView
+                      analysisResult={shownResult}
+                      referenceNda={shownNdas.reference}
+                      customerNda={shownNdas.customer}
+                      baselineNda={shownNdas.baseline}
+                      streaming={streaming}
+                    />
+                  </Suspense>
                 </div>
 
+                {/* Key Terms */}
+                {analysisResult?.keyTerms && (
+                  <div className="mb-12">
+                    <div className="flex items-center gap-2 mb-6">
+                      <ListChecks className="h-5 w-5 text-purple-600" />
+                      <h3 className="text-xl font-semibold">Key Terms</h3>
+                    </div>
+                    <KeyTermsTable keyTerms={analysisResult.keyTerms} />
+                  </div>
+                )}
+
                 {/* Risk Analysis */}
                 <div className="mb-12">
                   <div className="flex items-center gap-2 mb-6">
@@ -235,20 +487,27 @@ export default function Home() {
                     <h3 className="text-xl font-semibold">Risk Analysis</h3>
                   </div>
                   <RiskAnalysis 
-                    analysisResult={analysisResult}
+                    analysisResult={shownResult}
+                    analysisId={analysisResult?.id}
+                    decisions={decisions}
+                    onDecisionsChange={setDecisions}
+                    streaming={streaming}
                   />
                 </div>
 
                 {/* Summary & Recommendations */}
-                <div className="mb-12">
-                  <div className="flex items-center gap-2 mb-6">
-                    <Brain className="h-5 w-5 text-green-600" />
-                    <h3 className="text-xl font-semibold">Summary & Recommendations</h3>
+                {analysisResult && (
+                  <div className="mb-12">
+                    <div className="flex items-center gap-2 mb-6">
+                      <Brain className="h-5 w-5 text-green-600" />
+                      <h3 className="text-xl font-semibold">Summary & Recommendations</h3>
+                    </div>
+                    <SummaryView 
+                      analysisResult={analysisResult}
+                      decisions={analysisResult.id ? decisions : undefined}
+                    />
                   </div>
-                  <SummaryView 
-                    analysisResult={analysisResult}
-                  />
-                </div>
+                )}
               </div>
             </div>
           </section>
@@ -0,0 +1,231 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import type { Playbook, PlaybookEntry } from "@/lib/playbook"
+
+// Lists are edited as plain text: keywords comma-separated, fallbacks one per line
+interface EntryForm {
+  clauseType: string
+  label: string
+  keywords: string
+  preferred: string
+  fallbacks: string
+  walkAway: string
+}
+
+function toForm(entry: PlaybookEntry): EntryForm {
+  return {
+    ...entry,
+    keywords: entry.keywords.join(", "),
+    fallbacks: entry.fallbacks.join("\n"),
+  }
+}
+
+function fromForm(form: EntryForm): PlaybookEntry {
+  return {
+    clauseType: form.clauseType || form.label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, ""),
+    label: form.label,
+    keywords: form.keywords.split(","),
+    preferred: form.preferred,
+    fallbacks: form.fallbacks.split("\n"),
+    walkAway: form.walkAway,
+  }
+}
+
+const emptyEntry: EntryForm = { clauseType: "", label: "", keywords: "", preferred: "", fallbacks: "", walkAway: "" }
+
+export default function PlaybookPage() {
+  const { toast } = useToast()
+  const [name, setName] = useState("")
+  const [entries, setEntries] = useState<EntryForm[]>([])
+  const [defaultPlaybook, setDefaultPlaybook] = useState<Playbook | null>(null)
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const applyPlaybook = (playbook: Playbook) => {
+    setName(playbook.name)
+    setEntries(playbook.entries.map(toForm))
+  }
+
+  useEffect(() => {
+    const loadPlaybook = async () => {
+      try {
+        const response = await fetch("/api/playbook")
+        if (!response.ok) {
+          throw new Error(`Failed to load playbook: ${response.status}`)
+        }
+        const result = await response.json()
+        applyPlaybook(result.playbook)
+        setDefaultPlaybook(result.defaultPlaybook)
+        setUpdatedAt(result.playbook.updatedAt)
+      } catch (error) {
+        console.error("Error loading playbook:", error)
+        toast({ variant: "destructive", title: "Could not load playbook" })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPlaybook()
+  }, [toast])
+
+  const updateEntry = (index: number, field: keyof EntryForm, value: string) => {
+    setEntries((current) => current.map((entry, entryIndex) => (entryIndex === index ? { ...entry, [field]: value } : entry)))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/playbook", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, entries: entries.map(fromForm) }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `Failed to save playbook: ${response.status}`)
+      }
+      applyPlaybook(result.playbook)
+      setUpdatedAt(result.playbook.updatedAt)
+      toast({ title: "Playbook saved", description: "New analyses will be evaluated against these positions." })
+    } catch (error) {
+      console.error("Error saving playbook:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not save playbook",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/templates" className="text-sm font-medium">
+              Templates
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+            <Link href="/approvals" className="text-sm font-medium">
+              Approvals
+            </Link>
+            <Link href="/playbook" className="text-sm font-medium">
+              Playbook
+            </Link>
+            <Link href="/clause-library" className="text-sm font-medium">
+              Clause Library
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8 max-w-4xl">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-bold">NDA Playbook</h2>
+              <p className="text-muted-foreground">
+                Preferred, fallback and walk-away positions for each clause type. Every analysis reports which tier the customer NDA falls into.
+              </p>
+              {updatedAt && Date.parse(updatedAt) > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">Last saved {new Date(updatedAt).toLocaleString()}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                disabled={!defaultPlaybook || loading}
+                onClick={() => defaultPlaybook && applyPlaybook(defaultPlaybook)}
+              >
+                Reset to Defaults
+              </Button>
+              <Button onClick={handleSave} disabled={saving || loading}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Playbook
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading playbook...</p>
+            </div>
+          ) : (
+            <div className="grid gap-6">
+              <div className="grid gap-2">
+                <Label htmlFor="playbook-name">Playbook name</Label>
+                <Input id="playbook-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+
+              {entries.map((entry, index) => (
+                <Card key={index}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-lg">{entry.label || "New clause type"}</CardTitle>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove clause type"
+                      onClick={() => setEntries((current) => current.filter((_, entryIndex) => entryIndex !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </CardHeader>
+                  <CardContent className="grid gap-4">
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="grid gap-2">
+                        <Label htmlFor={`label-${index}`}>Clause type</Label>
+                        <Input id={`label-${index}`} value={entry.label} onChange={(e) => updateEntry(index, "label", e.target.value)} />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor={`keywords-${index}`}>Keywords (comma-separated whole words or phrases)</Label>
+                        <Input id={`keywords-${index}`} value={entry.keywords} onChange={(e) => updateEntry(index, "keywords", e.target.value)} />
+                      </div>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor={`preferred-${index}`} className="text-green-700">Preferred position</Label>
+                      <Textarea id={`preferred-${index}`} rows={2} value={entry.preferred} onChange={(e) => updateEntry(index, "preferred", e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor={`fallbacks-${index}`} className="text-yellow-700">Acceptable fallbacks (one per line)</Label>
+                      <Textarea id={`fallbacks-${index}`} rows={3} value={entry.fallbacks} onChange={(e) => updateEntry(index, "fallbacks", e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor={`walk-away-${index}`} className="text-red-700">Walk-away position</Label>
+                      <Textarea id={`walk-away-${index}`} rows={2} value={entry.walkAway} onChange={(e) => updateEntry(index, "walkAway", e.target.value)} />
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+
+              <Button variant="outline" onClick={() => setEntries((current) => [...current, emptyEntry])}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Clause Type
+              </Button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import { AnalysisTabs } from "@/components/analysis-tabs"
+import { ExportReportButton } from "@/components/export-report-button"
+import { Eye, Loader2 } from "lucide-react"
+import type { SharedAnalysis } from "@/lib/share-tokens"
+
+// Read-only view behind a share link; the link carries an opaque token only, never the analysis id
+export default function SharedAnalysisPage() {
+  const { token } = useParams<{ token: string }>()
+  const [data, setData] = useState<SharedAnalysis | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadAnalysis = async () => {
+      try {
+        const response = await fetch(`/api/shared/${encodeURIComponent(token)}`)
+        const result = await response.json().catch(() => null)
+        if (!response.ok) {
+          throw new Error(result?.error || `Failed to load analysis: ${response.status}`)
+        }
+        setData(result)
+      } catch (error) {
+        console.error("Error loading shared analysis:", error)
+        setError(error instanceof Error ? error.message : "Failed to load analysis")
+      }
+    }
+
+    loadAnalysis()
+  }, [token])
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+        </div>
+      </header>
+      {!data ? (
+        <main className="flex-1 flex items-center justify-center">
+          {error ? (
+            <div className="text-center">
+              <p className="font-medium">{error}</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Ask the person who sent you this link for a new one.
+              </p>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading analysis results...</p>
+            </div>
+          )}
+        </main>
+      ) : (
+        <main className="flex-1">
+          <div className="container px-4 py-6 sm:px-6 lg:px-8">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+              <div>
+                <h1 className="text-2xl font-bold">NDA Comparison Results</h1>
+                <p className="text-muted-foreground">
+                  Comparing {data.referenceNda.fileName} with {data.customerNda.fileName}
+                  {data.baselineNda && <> and the market baseline {data.baselineNda.fileName}</>}
+                </p>
+                {data.templateVersion && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Reference template: {data.templateVersion.templateName} {data.templateVersion.versionLabel}
+                    {data.templateVersion.effectiveDate && <> (effective {data.templateVersion.effectiveDate})</>}
+                  </p>
+                )}
+                {data.round && <p className="text-sm text-muted-foreground mt-1">Round {data.round}</p>}
+              </div>
+              <ExportReportButton exportPath={`/api/shared/${encodeURIComponent(token)}/export`} />
+            </div>
+
+            <div className="flex items-center gap-2 rounded-md border bg-muted/50 px-4 py-3 mb-6 text-sm">
+              <Eye className="h-4 w-4 text-muted-foreground" />
+              <span>Read-only shared view · link expires {new Date(data.expiresAt).toLocaleString()}</span>
+            </div>
+
+            <AnalysisTabs data={data} />
+          </div>
+        </main>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { TemplateVersionDialog } from "@/components/template-version-dialog"
+import { TemplateVersionDiff } from "@/components/template-version-diff"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, RefreshCw, Upload } from "lucide-react"
+import { pollJob } from "@/lib/job-client"
+import type { Job } from "@/lib/jobs"
+import type { NdaTemplate, TemplateAnalysis } from "@/lib/templates"
+import { currentVersion, isScheduled } from "@/lib/template-versions"
+
+const riskBadgeClass: Record<TemplateAnalysis["overallRisk"], string> = {
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+  medium: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  low: "bg-green-100 text-green-800 hover:bg-green-100",
+}
+
+export default function TemplateDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const { toast } = useToast()
+  const [template, setTemplate] = useState<NdaTemplate | null>(null)
+  const [analyses, setAnalyses] = useState<TemplateAnalysis[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [targetVersion, setTargetVersion] = useState("")
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  // Re-run jobs keyed by the analysis they re-run
+  const [jobs, setJobs] = useState<Record<string, Job>>({})
+
+  const loadAnalyses = async () => {
+    const response = await fetch(`/api/templates/${encodeURIComponent(id)}/analyses`)
+    if (!response.ok) {
+      throw new Error(`Failed to load analyses: ${response.status}`)
+    }
+    setAnalyses((await response.json()).analyses)
+  }
+
+  useEffect(() => {
+    const loadTemplate = async () => {
+      try {
+        const response = await fetch(`/api/templates/${encodeURIComponent(id)}`)
+        const result = await response.json().catch(() => null)
+        if (!response.ok) {
+          throw new Error(result?.error || `Failed to load template: ${response.status}`)
+        }
+        setTemplate(result.template)
+        setTargetVersion(String(result.template.versions[result.template.versions.length - 1].number))
+        await loadAnalyses()
+      } catch (error) {
+        console.error("Error loading template:", error)
+        setError(error instanceof Error ? error.message : "Failed to load template")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadTemplate()
+  }, [id])
+
+  const handleVersionSaved = (saved: NdaTemplate) => {
+    setTemplate(saved)
+    setTargetVersion(String(saved.versions[saved.versions.length - 1].number))
+    setSelected(new Set())
+  }
+
+  const target = Number(targetVersion)
+  const targetLabel = template?.versions.find((version) => version.number === target)?.label ?? ""
+  const versionLabel = (number: number) => template?.versions.find((version) => version.number === number)?.label ?? `v${number}`
+
+  // Customer NDAs already compared with the target version need no re-run
+  const runOnTarget = new Map(
+    analyses.filter((analysis) => analysis.versionNumber === target).map((analysis) => [analysis.customerDocumentId, analysis.id])
+  )
+  const candidates = analyses.filter((analysis) => analysis.versionNumber !== target)
+
+  const toggle = (analysisId: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (checked) next.add(analysisId)
+      else next.delete(analysisId)
+      return next
+    })
+  }
+
+  const handleRerun = async () => {
+    const analysisIds = [...selected]
+    try {
+      const response = await fetch(`/api/templates/${id}/rerun`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version: target, analysisIds }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `Failed to start re-runs: ${response.status}`)
+      }
+
+      setSelected(new Set())
+      const queued: Job[] = result.jobs
+      await Promise.all(queued.map(async (job, index) => {
+        await pollJob(job.id, (update) => setJobs((current) => ({ ...current, [analysisIds[index]]: update })))
+        await loadAnalyses()
+      }))
+      toast({ title: "Re-runs finished", description: `${queued.length} comparison(s) against ${targetLabel}` })
+    } catch (error) {
+      console.error("Error re-running comparisons:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not re-run comparisons",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  const running = Object.values(jobs).some((job) => job.status !== "done" && job.status !== "failed")
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/templates" className="text-sm font-medium">
+              Templates
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8">
+          {error && (
+            <div className="rounded-md bg-red-50 p-4 mb-6">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading template...</p>
+            </div>
+          ) : template && (
+            <>
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h2 className="text-2xl font-bold">{template.name}</h2>
+                    {template.isDefault && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  {template.description && <p className="text-muted-foreground">{template.description}</p>}
+                </div>
+                <TemplateVersionDialog
+                  template={template}
+                  trigger={
+                    <Button>
+                      <Upload className="mr-2 h-4 w-4" />
+                      New Version
+                    </Button>
+                  }
+                  onSaved={handleVersionSaved}
+                />
+              </div>
+
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Change Log</CardTitle>
+                  <CardDescription>Every uploaded version, newest first. Comparisons record the version they were run against.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Effective</TableHead>
+                        <TableHead>Changes</TableHead>
+                        <TableHead>File</TableHead>
+                        <TableHead>Uploaded</TableHead>
+                        <TableHead className="text-right">Comparisons</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...template.versions].reverse().map((version) => (
+                        <TableRow key={version.number}>
+                          <TableCell className="whitespace-nowrap">
+                            <div className="flex items-center gap-2 font-medium">
+                              {version.label}
+                              {version.number === currentVersion(template).number && <Badge variant="outline">Current</Badge>}
+                              {isScheduled(version) && <Badge variant="secondary">Scheduled</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{version.effectiveDate ?? "—"}</TableCell>
+                          <TableCell className="text-sm">{version.changeNote || <span className="text-muted-foreground">—</span>}</TableCell>
+                          <TableCell className="max-w-[14rem] truncate">{version.fileName}</TableCell>
+                          <TableCell className="whitespace-nowrap">{new Date(version.createdAt).toLocaleDateString()}</TableCell>
+                          <TableCell className="text-right">
+                            {analyses.filter((analysis) => analysis.versionNumber === version.number).length}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {template.versions.length > 1 && (
+                <Card className="mb-6">
+                  <CardHeader>
+                    <CardTitle>Compare Versions</CardTitle>
+                    <CardDescription>Clauses added, removed or reworded between two versions</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <TemplateVersionDiff template={template} />
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Re-run Comparisons</CardTitle>
+                  <CardDescription>
+                    Compare customer NDAs analyzed against another version with this one. The earlier results are kept.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                  <div className="flex flex-wrap items-end gap-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="rerun-version">Template version</Label>
+                      <Select
+                        value={targetVersion}
+                        onValueChange={(value) => {
+                          setTargetVersion(value)
+                          setSelected(new Set())
+                        }}
+                      >
+                        <SelectTrigger id="rerun-version" className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {template.versions.map((version) => (
+                            <SelectItem key={version.number} value={String(version.number)}>
+                              {version.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button onClick={handleRerun} disabled={selected.size === 0 || running}>
+                      {running ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                      Re-run {selected.size > 0 ? `${selected.size} ` : ""}against {targetLabel}
+                    </Button>
+                  </div>
+
+                  {candidates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No comparisons were run against other versions of this template.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-8" />
+                          <TableHead>Customer NDA</TableHead>
+                          <TableHead>Version</TableHead>
+                          <TableHead>Overall Risk</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead className="text-right">Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {candidates.map((analysis) => {
+                          const job = jobs[analysis.id]
+                          const rerunId = runOnTarget.get(analysis.customerDocumentId)
+                          return (
+                            <TableRow key={analysis.id}>
+                              <TableCell>
+                                <Checkbox
+                                  aria-label={`Re-run ${analysis.customerFileName}`}
+                                  checked={selected.has(analysis.id)}
+                                  disabled={Boolean(rerunId) || running}
+                                  onCheckedChange={(checked) => toggle(analysis.id, checked === true)}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Link href={`/comparison/${analysis.id}`} className="hover:underline">
+                                  {analysis.customerFileName}
+                                </Link>
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap">{versionLabel(analysis.versionNumber)}</TableCell>
+                              <TableCell>
+                                <Badge className={riskBadgeClass[analysis.overallRisk]}>{analysis.overallRisk.toUpperCase()}</Badge>
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap">{new Date(analysis.createdAt).toLocaleString()}</TableCell>
+                              <TableCell className="text-right">
+                                {job && job.status !== "done" ? (
+                                  job.status === "failed" ? (
+                                    <span className="text-sm text-red-600">{job.error?.message ?? "Failed"}</span>
+                                  ) : (
+                                    <div className="ml-auto grid w-40 gap-1">
+                                      <Progress value={job.progress} />
+                                      <span className="text-xs text-muted-foreground">{job.message}</span>
+                                    </div>
+                                  )
+                                ) : rerunId ? (
+                                  <Button variant="outline" size="sm" asChild>
+                                    <Link href={`/comparison/${rerunId}`}>Open {targetLabel}</Link>
+                                  </Button>
+                                ) : (
+                                  <span className="text-sm text-muted-foreground">Not re-run</span>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { TemplateFormDialog } from "@/components/template-form-dialog"
+import { TemplateVersionDialog } from "@/components/template-version-dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, Pencil, Plus, Star, Trash2, Upload } from "lucide-react"
+import type { NdaTemplate } from "@/lib/templates"
+import { currentVersion } from "@/lib/template-versions"
+
+export default function TemplatesPage() {
+  const { toast } = useToast()
+  const [templates, setTemplates] = useState<NdaTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch("/api/templates")
+      if (!response.ok) {
+        throw new Error(`Failed to load templates: ${response.status}`)
+      }
+      setTemplates((await response.json()).templates)
+    } catch (error) {
+      console.error("Error loading templates:", error)
+      setError(error instanceof Error ? error.message : "Failed to load templates")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTemplates()
+  }, [])
+
+  const makeDefault = async (template: NdaTemplate) => {
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: template.name, description: template.description, isDefault: true }),
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to update template: ${response.status}`)
+      }
+      await loadTemplates()
+      toast({ title: "Default template changed", description: template.name })
+    } catch (error) {
+      console.error("Error updating template:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not change the default template",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  const handleDelete = async (template: NdaTemplate) => {
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(`Failed to delete template: ${response.status}`)
+      }
+      setTemplates((current) => current.filter((entry) => entry.id !== template.id))
+    } catch (error) {
+      console.error("Error deleting template:", error)
+      setError(error instanceof Error ? error.message : "Failed to delete template")
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center px-4 sm:px-6 lg:px-8">
+          <h1 className="text-lg font-semibold">NDA Checker</h1>
+          <nav className="ml-auto flex gap-4">
+            <Link href="/" className="text-sm font-medium">
+              Home
+            </Link>
+            <Link href="/templates" className="text-sm font-medium">
+              Templates
+            </Link>
+            <Link href="/matters" className="text-sm font-medium">
+              Matters
+            </Link>
+            <Link href="/history" className="text-sm font-medium">
+              History
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="container px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-bold">Reference Templates</h2>
+              <p className="text-muted-foreground">
+                Standard NDAs to compare customer drafts against. The default template is preselected on the home page.
+              </p>
+            </div>
+            <TemplateFormDialog
+              trigger={
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Template
+                </Button>
+              }
+              onSaved={() => loadTemplates()}
+            />
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-4 mb-6">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Loading templates...</p>
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <p>No templates yet.</p>
+              <p className="text-sm">Upload your standard NDA once instead of with every comparison.</p>
+            </div>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Current Version</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead className="text-right">Versions</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((template) => {
+                    const current = currentVersion(template)
+                    return (
+                      <TableRow key={template.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2 font-medium">
+                            <Link href={`/templates/${template.id}`} className="hover:underline">
+                              {template.name}
+                            </Link>
+                            {template.isDefault && <Badge variant="secondary">Default</Badge>}
+                          </div>
+                          {template.description && (
+                            <p className="text-sm text-muted-foreground">{template.description}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {current.label}
+                          {current.effectiveDate && (
+                            <span className="block text-xs text-muted-foreground">effective {current.effectiveDate}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-[16rem] truncate">{current.fileName}</TableCell>
+                        <TableCell className="text-right">{template.versions.length}</TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(template.updatedAt).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            {!template.isDefault && (
+                              <Button variant="ghost" size="sm" onClick={() => makeDefault(template)}>
+                                <Star className="mr-1 h-4 w-4" />
+                                Make Default
+                              </Button>
+                            )}
+                            <TemplateVersionDialog
+                              template={template}
+                              trigger={
+                                <Button variant="ghost" size="sm">
+                                  <Upload className="mr-1 h-4 w-4" />
+                                  New Version
+                                </Button>
+                              }
+                              onSaved={() => loadTemplates()}
+                            />
+                            <TemplateFormDialog
+                              template={template}
+                              trigger={
+                                <Button variant="ghost" size="icon" aria-label="Edit template">
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              }
+                              onSaved={() => loadTemplates()}
+                            />
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" aria-label="Delete template">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete {template.name}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    The template and its versions are removed. Past comparisons keep the version they were run against.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(template)}>Delete</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
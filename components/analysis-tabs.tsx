@@ -0,0 +1,84 @@
+"use client"
+
+import { Suspense, type ReactNode } from "react"
+import { ApprovalPanel } from "@/components/approval-panel"
+import { ComparisonView } from "@/components/comparison-view"
+import { KeyTermsTable } from "@/components/key-terms-table"
+import { RiskAnalysis } from "@/components/risk-analysis"
+import { SummaryView } from "@/components/summary-view"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { getReviewProgress } from "@/lib/risk-decisions"
+import type { SharedAnalysis } from "@/lib/share-tokens"
+
+/** The parts of a saved analysis the tabs show, as returned by /api/analyses/<id> and /api/shared/<token>. */
+export type AnalysisTabsData = Pick<
+  SharedAnalysis,
+  "analysisResult" | "referenceNda" | "customerNda" | "baselineNda" | "counterProposal" | "decisions" | "approval"
+>
+
+interface AnalysisTabsProps {
+  data: AnalysisTabsData
+  /** Set on the owner's comparison page; shared views leave it out and are read-only. */
+  analysisId?: string
+  onChange?: (changes: Partial<Pick<AnalysisTabsData, "counterProposal" | "decisions" | "approval">>) => void
+  /** Shown under the summary, e.g. the next-round upload. */
+  children?: ReactNode
+}
+
+/** Side-by-side comparison, key terms, risks and summary of a saved analysis. */
+export function AnalysisTabs({ data, analysisId, onChange = () => {}, children }: AnalysisTabsProps) {
+  const readOnly = !analysisId
+  const keyTerms = data.analysisResult.keyTerms
+
+  return (
+    <Tabs defaultValue="comparison" className="w-full">
+      <TabsList className={`grid w-full ${keyTerms ? "grid-cols-4" : "grid-cols-3"}`}>
+        <TabsTrigger value="comparison">Side-by-Side Comparison</TabsTrigger>
+        {keyTerms && <TabsTrigger value="key-terms">Key Terms</TabsTrigger>}
+        <TabsTrigger value="risks">Risk Analysis</TabsTrigger>
+        <TabsTrigger value="summary">Summary & Recommendations</TabsTrigger>
+      </TabsList>
+      <TabsContent value="comparison" className="mt-6">
+        <Suspense>
+          <ComparisonView
+            analysisResult={data.analysisResult}
+            referenceNda={data.referenceNda}
+            customerNda={data.customerNda}
+            baselineNda={data.baselineNda}
+          />
+        </Suspense>
+      </TabsContent>
+      {keyTerms && (
+        <TabsContent value="key-terms" className="mt-6">
+          <KeyTermsTable keyTerms={keyTerms} />
+        </TabsContent>
+      )}
+      <TabsContent value="risks" className="mt-6">
+        <RiskAnalysis
+          analysisResult={data.analysisResult}
+          analysisId={analysisId}
+          counterProposal={data.counterProposal}
+          decisions={data.decisions}
+          onDecisionsChange={(decisions) => onChange({ decisions })}
+          readOnly={readOnly}
+          locked={Boolean(data.approval)}
+        />
+      </TabsContent>
+      <TabsContent value="summary" className="mt-6">
+        <div className="grid gap-6">
+          <SummaryView
+            analysisResult={data.analysisResult}
+            decisions={data.decisions}
+          />
+          <ApprovalPanel
+            analysisId={analysisId}
+            approval={data.approval}
+            progress={getReviewProgress(data.analysisResult.risks.length, data.decisions)}
+            onChange={(approval) => onChange({ approval })}
+          />
+          {children}
+        </div>
+      </TabsContent>
+    </Tabs>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import type { AnalysisApproval, ApprovalDecision, ApprovalRequirement } from "@/lib/approvals"
+
+interface ApprovalDecisionDialogProps {
+  analysisId: string
+  requirement: ApprovalRequirement
+  decision: ApprovalDecision
+  onDecided: (approval: AnalysisApproval) => void
+}
+
+export function ApprovalDecisionDialog({ analysisId, requirement, decision, onDecided }: ApprovalDecisionDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [decidedBy, setDecidedBy] = useState("")
+  const [comment, setComment] = useState("")
+  const [saving, setSaving] = useState(false)
+  const approving = decision === "approved"
+
+  const submit = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}/approval/${requirement.ruleId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: decision, decidedBy, comment }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to record sign-off: ${response.status}`)
+      }
+      setOpen(false)
+      onDecided(result.approval)
+      toast({ title: approving ? "Approved" : "Rejected", description: requirement.ruleName })
+    } catch (error) {
+      console.error("Error recording sign-off:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not record sign-off",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant={approving ? "default" : "outline"}>
+          {approving ? "Approve" : "Reject"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{approving ? "Approve" : "Reject"}: {requirement.ruleName}</DialogTitle>
+          <DialogDescription>
+            Sign off as {requirement.approver}. {approving ? "" : "Rejecting makes the sign-off final for this analysis."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="approval-decided-by">Your name</Label>
+            <Input id="approval-decided-by" value={decidedBy} onChange={(e) => setDecidedBy(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="approval-comment">Comment{approving ? " (optional)" : ""}</Label>
+            <Textarea id="approval-comment" rows={3} value={comment} onChange={(e) => setComment(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={approving ? "default" : "destructive"}
+            disabled={saving || !decidedBy.trim() || (!approving && !comment.trim())}
+            onClick={submit}
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {approving ? "Approve" : "Reject"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Loader2, Lock } from "lucide-react"
+import { ApprovalDecisionDialog } from "@/components/approval-decision-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import type { AnalysisApproval, ApprovalRequirement } from "@/lib/approvals"
+import type { ReviewProgress } from "@/lib/risk-decisions"
+
+interface ApprovalPanelProps {
+  /** Left out in shared views, which only show the approval status. */
+  analysisId?: string
+  approval: AnalysisApproval | null
+  /** Sign-off can only be requested once every risk is decided. */
+  progress: ReviewProgress
+  onChange: (approval: AnalysisApproval) => void
+}
+
+const statusStyles: Record<ApprovalRequirement["status"], { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+}
+
+export function ApprovalPanel({ analysisId, approval, progress, onChange }: ApprovalPanelProps) {
+  const { toast } = useToast()
+  const [requesting, setRequesting] = useState(false)
+
+  const requestSignOff = async () => {
+    setRequesting(true)
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}/approval`, { method: "POST" })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to request sign-off: ${response.status}`)
+      }
+      onChange(result.approval)
+      toast({
+        title: result.approval.requirements.length > 0 ? "Sign-off requested" : "Approved",
+        description: result.approval.requirements.length > 0
+          ? `Routed to ${result.approval.requirements.map((requirement: ApprovalRequirement) => requirement.approver).join(", ")}`
+          : "No approval rule applies to this analysis.",
+      })
+    } catch (error) {
+      console.error("Error requesting sign-off:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not request sign-off",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setRequesting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="grid gap-1.5">
+          <CardTitle>Approval</CardTitle>
+          <CardDescription>
+            Sign-off required by the <Link href="/approvals" className="underline">approval rules</Link> before sales can sign
+          </CardDescription>
+        </div>
+        {approval && <Badge className={statusStyles[approval.status].className}>{statusStyles[approval.status].label}</Badge>}
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {!approval ? (
+          !analysisId ? (
+            <p className="text-sm text-muted-foreground">Sign-off has not been requested yet.</p>
+          ) : (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {progress.decided < progress.total
+                  ? `Record a decision on every risk first (${progress.decided} of ${progress.total} decided).`
+                  : "All risks are decided. Requesting sign-off freezes the decisions and counter-proposal."}
+              </p>
+              <Button onClick={requestSignOff} disabled={requesting || progress.decided < progress.total}>
+                {requesting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Request Sign-off
+              </Button>
+            </div>
+          )
+        ) : (
+          <>
+            {approval.lockedAt && (
+              <div className="flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+                <Lock className="h-4 w-4 text-muted-foreground" />
+                <span>
+                  Final: {approval.status} on {new Date(approval.lockedAt).toLocaleString()}. This analysis is locked.
+                </span>
+              </div>
+            )}
+            {approval.requirements.length === 0 && (
+              <p className="text-sm text-muted-foreground">No approval rule applied; the analysis was approved automatically.</p>
+            )}
+            <div className="divide-y border rounded-md">
+              {approval.requirements.map((requirement) => (
+                <div key={requirement.ruleId} className="p-3 grid gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{requirement.ruleName}</span>
+                    <span className="text-sm text-muted-foreground">· {requirement.approver}</span>
+                    <Badge className={`ml-auto ${statusStyles[requirement.status].className}`}>
+                      {statusStyles[requirement.status].label}
+                    </Badge>
+                  </div>
+                  <ul className="list-disc list-inside text-sm text-muted-foreground">
+                    {requirement.reasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                  {requirement.decidedAt && (
+                    <p className="text-sm">
+                      {requirement.status === "approved" ? "Approved" : "Rejected"} by {requirement.decidedBy} on{" "}
+                      {new Date(requirement.decidedAt).toLocaleString()}
+                      {requirement.comment && <span className="text-muted-foreground"> · “{requirement.comment}”</span>}
+                    </p>
+                  )}
+                  {requirement.status === "pending" && !approval.lockedAt && analysisId && (
+                    <div className="flex gap-2">
+                      <ApprovalDecisionDialog analysisId={analysisId} requirement={requirement} decision="approved" onDecided={onChange} />
+                      <ApprovalDecisionDialog analysisId={analysisId} requirement={requirement} decision="rejected" onDecided={onChange} />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import Link from "next/link"
+import { Check, Copy, FilePlus2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import type { LibraryClause } from "@/lib/clause-library"
+
+interface ClauseSuggestionsProps {
+  suggestions: LibraryClause[]
+  /** Library clause currently in the counter-proposal for this risk, if any. */
+  insertedClauseId?: string
+  /** Omitted when there is no saved analysis to attach a counter-proposal to. */
+  onInsert?: (clause: LibraryClause) => void
+}
+
+export function ClauseSuggestions({ suggestions, insertedClauseId, onInsert }: ClauseSuggestionsProps) {
+  const { toast } = useToast()
+
+  const copyClause = async (clause: LibraryClause) => {
+    try {
+      await navigator.clipboard.writeText(clause.text)
+      toast({ title: "Clause copied", description: clause.title })
+    } catch {
+      toast({ variant: "destructive", title: "Could not copy to the clipboard" })
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Suggested Library Clauses</div>
+        <Link href="/clause-library" className="text-xs text-muted-foreground hover:underline">
+          Browse library
+        </Link>
+      </div>
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No library clause matches this risk.</p>
+      ) : (
+        <div className="mt-2 grid gap-2">
+          {suggestions.map((clause) => (
+            <div key={clause.id} className="rounded-md border p-3 grid gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium">{clause.title}</span>
+                <Badge variant="outline">{clause.jurisdiction}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">{clause.text}</p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => copyClause(clause)}>
+                  <Copy className="mr-2 h-3 w-3" />
+                  Copy
+                </Button>
+                {onInsert && (
+                  <Button
+                    size="sm"
+                    variant={insertedClauseId === clause.id ? "secondary" : "default"}
+                    disabled={insertedClauseId === clause.id}
+                    onClick={() => onInsert(clause)}
+                  >
+                    {insertedClauseId === clause.id ? <Check className="mr-2 h-3 w-3" /> : <FilePlus2 className="mr-2 h-3 w-3" />}
+                    {insertedClauseId === clause.id ? "In counter-proposal" : "Insert into counter-proposal"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
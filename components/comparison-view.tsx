@@ -1,9 +1,30 @@
 "use client"
 
-import { useState } from "react"
-import { Search } from "lucide-react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { ChevronDown, ChevronUp, Loader2, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { RedlineDiff, type RedlineMode } from "@/components/redline-diff"
+import { HighlightedText } from "@/components/search-highlight"
+import { useQueryState } from "@/hooks/use-query-state"
+import { alignClauses, isSameSection, linkSectionsToClauses, segmentClauses, type Clause } from "@/lib/clause-align"
+
+interface ComparedDocument {
+  fileName: string
+  parsedContent: {
+    text: string
+    html: string
+    elements?: Array<{
+      category: string
+      page: number
+      content: { text: string }
+    }>
+  }
+}
 
 interface ComparisonViewProps {
   analysisResult: {
@@ -11,91 +32,126 @@ interface ComparisonViewProps {
       title: string
       match: number
       differences: string
+      referenceClauseIds?: string[]
+      customerClauseIds?: string[]
+      baselineClauseIds?: string[]
+      baselineMatch?: number
     }>
-  }
-  referenceNda: {
-    fileName: string
-    parsedContent: {
-      text: string
-      html: string
-    }
-  }
-  customerNda: {
-    fileName: string
-    parsedContent: {
-      text: string
-      html: string
+    risks?: Array<{
+      section: string
+    }>
+    clauses?: {
+      reference: Clause[]
+      customer: Clause[]
+      baseline?: Clause[]
     }
   }
+  referenceNda: ComparedDocument
+  customerNda: ComparedDocument
+  /** Market baseline of a three-way comparison, shown as a third column. */
+  baselineNda?: ComparedDocument | null
+  /** The analysis is still running and more sections will be appended. */
+  streaming?: boolean
 }
 
-export function ComparisonView({ analysisResult, referenceNda, customerNda }: ComparisonViewProps) {
-  const [searchTerm, setSearchTerm] = useState("")
-
-  // Use analysis result sections or fallback to mock data
-  const sections = analysisResult?.sections || [
-    { title: "1. Definitions", match: 90, differences: "Minor wording differences" },
-    { title: "2. Confidential Information", match: 75, differences: "Customer NDA requires written authorization" },
-    { title: "3. Term and Termination", match: 60, differences: "Extended term to 5 years with automatic renewal" }
-  ]
-
-  // Improved text extraction for display
-  const getSectionContent = (text: string, sectionTitle: string, documentType: 'reference' | 'customer') => {
-    if (!text) return "Content not available"
-    
-    // Clean up the text
-    const cleanText = text.replace(/\s+/g, ' ').trim()
-    const sentences = cleanText.split(/[.!?]+/).filter(s => s.trim().length > 10)
-    
-    if (sentences.length === 0) return "Content not available"
-    
-    // Try to find section-specific content based on keywords
-    const sectionKeywords = {
-      'Confidential': ['confidential', 'information', 'proprietary', 'secret', '비밀', '정보'],
-      'Definition': ['means', 'defined', 'include', 'definition', '의미', '정의'],
-      'Non-Disclosure': ['disclose', 'disclosure', 'share', 'reveal', '공개', '누설'],
-      'Obligation': ['obligation', 'duty', 'responsibility', 'shall', '의무', '책임'],
-      'Exception': ['exception', 'exclude', 'public', 'known', '예외', '제외'],
-      'Term': ['term', 'period', 'duration', 'expire', '기간', '만료'],
-      'Return': ['return', 'destroy', 'destruction', '반환', '파기'],
-      'Intellectual': ['intellectual', 'property', 'patent', 'trademark', '지적', '재산'],
-      'Remedy': ['remedy', 'damages', 'injunction', 'relief', '구제', '손해'],
-      'Termination': ['termination', 'terminate', 'end', '종료', '해지'],
-      'Governing': ['governing', 'law', 'jurisdiction', 'court', '준거법', '관할']
-    }
-    
-    // Find relevant keywords for this section
-    const relevantKeywords = Object.entries(sectionKeywords).find(([key]) => 
-      sectionTitle.toLowerCase().includes(key.toLowerCase())
-    )?.[1] || []
-    
-    // Look for sentences containing relevant keywords
-    const relevantSentences = sentences.filter(sentence => 
-      relevantKeywords.some(keyword => 
-        sentence.toLowerCase().includes(keyword.toLowerCase())
-      )
-    )
-    
-    // Use relevant sentences if found, otherwise use different parts of the document
-    let contentToShow: string[]
-    
-    if (relevantSentences.length > 0) {
-      contentToShow = relevantSentences.slice(0, 2)
-    } else {
-      // Show different parts of the document for different sections
-      const sectionIndex = sections.findIndex(s => s.title === sectionTitle)
-      const startIndex = Math.max(0, sectionIndex * 2)
-      contentToShow = sentences.slice(startIndex, startIndex + 2)
+type SectionFilter = "all" | "different" | "similar" | "risky"
+
+const SIMILAR_MATCH = 80
+
+function matchClass(match: number): string {
+  return match >= 80
+    ? "bg-green-100 text-green-800"
+    : match >= 50
+      ? "bg-yellow-100 text-yellow-800"
+      : "bg-red-100 text-red-800"
+}
+
+function isRiskySection(title: string, riskSections: string[]): boolean {
+  return riskSections.some((riskSection) => isSameSection(title, riskSection))
+}
+
+export function ComparisonView({ analysisResult, referenceNda, customerNda, baselineNda, streaming }: ComparisonViewProps) {
+  const [searchTerm, setSearchTerm] = useQueryState("q", "", { debounceMs: 300 })
+  const [filterParam, setFilter] = useQueryState("filter", "all")
+  const filter: SectionFilter = ["different", "similar", "risky"].includes(filterParam) ? filterParam as SectionFilter : "all"
+  const [hitCount, setHitCount] = useState(0)
+  const [activeHit, setActiveHit] = useState(0)
+  const sectionsRef = useRef<HTMLDivElement>(null)
+  const [redlineMode, setRedlineMode] = useState<RedlineMode>("side-by-side")
+  const [ignoreWhitespace, setIgnoreWhitespace] = useState(true)
+  const [ignorePunctuation, setIgnorePunctuation] = useState(false)
+
+  // Results saved before clause linking existed are segmented and linked here
+  const { sections, clausesById } = useMemo(() => {
+    const rawSections = analysisResult?.sections || []
+    const hasLinks = analysisResult?.clauses && rawSections.every((section) => section.referenceClauseIds && section.customerClauseIds)
+
+    const reference = analysisResult?.clauses?.reference ?? segmentClauses({
+      text: referenceNda.parsedContent.text || referenceNda.parsedContent.html,
+      elements: referenceNda.parsedContent.elements,
+    }, "ref")
+    const customer = analysisResult?.clauses?.customer ?? segmentClauses({
+      text: customerNda.parsedContent.text || customerNda.parsedContent.html,
+      elements: customerNda.parsedContent.elements,
+    }, "cust")
+
+    const linkedSections = hasLinks
+      ? rawSections.map((section) => ({
+          ...section,
+          referenceClauseIds: section.referenceClauseIds ?? [],
+          customerClauseIds: section.customerClauseIds ?? [],
+        }))
+      : linkSectionsToClauses(rawSections, alignClauses(reference, customer), reference, customer)
+
+    return {
+      sections: linkedSections,
+      clausesById: new Map([...reference, ...customer, ...(analysisResult?.clauses?.baseline ?? [])].map((clause) => [clause.id, clause])),
     }
-    
-    const result = contentToShow.join('. ').trim()
-    
-    // Limit length for display
-    if (result.length > 300) {
-      return result.substring(0, 300) + '...'
+  }, [analysisResult, referenceNda, customerNda])
+
+  const getClauseText = (clauseIds: string[]) => {
+    const clauses = clauseIds
+      .map((id) => clausesById.get(id))
+      .filter((clause): clause is Clause => Boolean(clause))
+
+    if (clauses.length === 0) {
+      return null
     }
-    
-    return result || `Section content from ${documentType} NDA...`
+
+    return clauses.map((clause) => clause.text || clause.heading).join("\n\n")
+  }
+
+  const visibleSections = useMemo(() => {
+    const riskSections = (analysisResult?.risks || []).map((risk) => risk.section)
+    return sections.filter((section) => {
+      if (filter === "different") return section.match < SIMILAR_MATCH
+      if (filter === "similar") return section.match >= SIMILAR_MATCH
+      if (filter === "risky") return isRiskySection(section.title, riskSections)
+      return true
+    })
+  }, [sections, filter, analysisResult])
+
+  // Hits are counted from the rendered <mark> elements so they always agree with what is highlighted
+  useEffect(() => {
+    const hits = sectionsRef.current?.querySelectorAll("mark[data-search-hit]").length ?? 0
+    setHitCount(hits)
+    setActiveHit(0)
+  }, [searchTerm, visibleSections, redlineMode, ignoreWhitespace, ignorePunctuation])
+
+  useEffect(() => {
+    const hits = sectionsRef.current?.querySelectorAll<HTMLElement>("mark[data-search-hit]")
+    if (!hits || hits.length === 0) return
+
+    hits.forEach((hit, index) => {
+      hit.classList.toggle("ring-2", index === activeHit)
+      hit.classList.toggle("ring-orange-400", index === activeHit)
+    })
+    hits[activeHit]?.scrollIntoView({ block: "center", behavior: "smooth" })
+  }, [activeHit, hitCount])
+
+  const goToHit = (step: number) => {
+    if (hitCount === 0) return
+    setActiveHit((current) => (current + step + hitCount) % hitCount)
   }
 
   return (
@@ -109,9 +165,28 @@ export function ComparisonView({ analysisResult, referenceNda, customerNda }: Co
             className="pl-8"
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                goToHit(e.shiftKey ? -1 : 1)
+              }
+            }}
           />
         </div>
-        <Select defaultValue="all">
+        {searchTerm.trim() && (
+          <div className="flex items-center gap-1">
+            <span className="text-sm text-muted-foreground whitespace-nowrap px-2">
+              {hitCount === 0 ? "No matches" : `${activeHit + 1} of ${hitCount}`}
+            </span>
+            <Button variant="outline" size="icon" onClick={() => goToHit(-1)} disabled={hitCount === 0} aria-label="Previous match">
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => goToHit(1)} disabled={hitCount === 0} aria-label="Next match">
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        <Select value={filter} onValueChange={setFilter}>
           <SelectTrigger className="w-full sm:w-[180px]">
             <SelectValue placeholder="Filter by" />
           </SelectTrigger>
@@ -124,54 +199,161 @@ export function ComparisonView({ analysisResult, referenceNda, customerNda }: Co
         </Select>
       </div>
 
-      <div className="border rounded-lg overflow-hidden">
-        <div className="grid grid-cols-2 border-b bg-muted/50">
-          <div className="p-4 font-medium border-r">
-            Reference NDA ({referenceNda.fileName})
-          </div>
-          <div className="p-4 font-medium">
-            Customer NDA ({customerNda.fileName})
-          </div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={redlineMode}
+          onValueChange={(value) => value && setRedlineMode(value as RedlineMode)}
+        >
+          <ToggleGroupItem value="side-by-side">Side by side</ToggleGroupItem>
+          <ToggleGroupItem value="inline">Inline redline</ToggleGroupItem>
+        </ToggleGroup>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="ignore-whitespace"
+            checked={ignoreWhitespace}
+            onCheckedChange={(checked) => setIgnoreWhitespace(checked === true)}
+          />
+          <Label htmlFor="ignore-whitespace" className="text-sm font-normal">Ignore whitespace</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="ignore-punctuation"
+            checked={ignorePunctuation}
+            onCheckedChange={(checked) => setIgnorePunctuation(checked === true)}
+          />
+          <Label htmlFor="ignore-punctuation" className="text-sm font-normal">Ignore punctuation</Label>
         </div>
+      </div>
 
-        {sections.map((section, index) => (
-          <div key={index} className="border-b last:border-b-0">
-            <div className="bg-muted/30 px-4 py-2 font-medium flex justify-between items-center">
-              <span>{section.title}</span>
-              <span
-                className={`text-xs px-2 py-1 rounded-full ${
-                  section.match >= 80
-                    ? "bg-green-100 text-green-800"
-                    : section.match >= 50
-                      ? "bg-yellow-100 text-yellow-800"
-                      : "bg-red-100 text-red-800"
-                }`}
-              >
-                {section.match}% Match
-              </span>
+      <div ref={sectionsRef} className="border rounded-lg overflow-hidden">
+        {redlineMode === "side-by-side" ? (
+          <div className={`grid ${baselineNda ? "grid-cols-3" : "grid-cols-2"} border-b bg-muted/50`}>
+            <div className="p-4 font-medium border-r">
+              Reference NDA ({referenceNda.fileName})
+            </div>
+            <div className="p-4 font-medium">
+              Customer NDA ({customerNda.fileName})
             </div>
-            {section.differences && (
-              <div className="px-4 py-2 bg-blue-50 text-blue-800 text-sm border-b">
-                <strong>Key Differences:</strong> {section.differences}
+            {baselineNda && (
+              <div className="p-4 font-medium border-l">
+                Market Baseline ({baselineNda.fileName})
               </div>
             )}
+          </div>
+        ) : (
+          <div className="p-4 border-b bg-muted/50 font-medium">
+            Redline: <del className="text-red-700">{referenceNda.fileName}</del> → <ins className="text-green-700">{customerNda.fileName}</ins>
+            {baselineNda && <span className="text-muted-foreground font-normal"> · market baseline: {baselineNda.fileName}</span>}
+          </div>
+        )}
+
+        {visibleSections.map((section, index) => {
+          const referenceText = getClauseText(section.referenceClauseIds)
+          const customerText = getClauseText(section.customerClauseIds)
+          const baselineText = baselineNda ? getClauseText(section.baselineClauseIds ?? []) : null
+          const baselineColumn = baselineNda && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+              {baselineText !== null ? <HighlightedText text={baselineText} term={searchTerm} /> : <em>No matching clause in the market baseline</em>}
+            </p>
+          )
+
+          const comparison = referenceText && customerText ? (
+            redlineMode === "side-by-side" ? (
+              <RedlineDiff
+                original={referenceText}
+                revised={customerText}
+                mode="side-by-side"
+                ignoreWhitespace={ignoreWhitespace}
+                ignorePunctuation={ignorePunctuation}
+                highlight={searchTerm}
+              />
+            ) : (
+              <div className="p-4">
+                <RedlineDiff
+                  original={referenceText}
+                  revised={customerText}
+                  mode="inline"
+                  ignoreWhitespace={ignoreWhitespace}
+                  ignorePunctuation={ignorePunctuation}
+                  highlight={searchTerm}
+                />
+              </div>
+            )
+          ) : (
             <div className="grid grid-cols-2">
               <div className="p-4 border-r">
-                <p className="text-sm text-muted-foreground">
-                  {getSectionContent(referenceNda.parsedContent.text || referenceNda.parsedContent.html, section.title, 'reference')}
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                  {referenceText !== null ? <HighlightedText text={referenceText} term={searchTerm} /> : <em>No matching clause in the reference NDA</em>}
                 </p>
               </div>
               <div className="p-4">
-                <p className={`text-sm ${section.match < 50 ? "bg-red-50 p-2 rounded" : section.match < 80 ? "bg-yellow-50 p-2 rounded" : ""}`}>
-                  {getSectionContent(customerNda.parsedContent.text || customerNda.parsedContent.html, section.title, 'customer')}
+                <p className={`text-sm whitespace-pre-wrap ${customerText && !referenceText ? "bg-green-50 p-2 rounded" : ""}`}>
+                  {customerText !== null ? <HighlightedText text={customerText} term={searchTerm} /> : <em className="text-muted-foreground">No matching clause in the customer NDA</em>}
                 </p>
               </div>
             </div>
+          )
+
+          return (
+            <div key={index} className="border-b last:border-b-0">
+              <div className="bg-muted/30 px-4 py-2 font-medium flex justify-between items-center">
+                <span><HighlightedText text={section.title} term={searchTerm} /></span>
+                <span className="flex items-center gap-2">
+                  <span className={`text-xs px-2 py-1 rounded-full ${matchClass(section.match)}`}>
+                    {section.match}% Match
+                  </span>
+                  {baselineNda && section.baselineMatch !== undefined && (
+                    <span className={`text-xs px-2 py-1 rounded-full ${matchClass(section.baselineMatch)}`}>
+                      {section.baselineMatch}% Market
+                    </span>
+                  )}
+                </span>
+              </div>
+              {section.differences && (
+                <div className="px-4 py-2 bg-blue-50 text-blue-800 text-sm border-b">
+                  <strong>Key Differences:</strong> <HighlightedText text={section.differences} term={searchTerm} />
+                </div>
+              )}
+              {!baselineNda ? (
+                comparison
+              ) : redlineMode === "side-by-side" ? (
+                <div className="grid grid-cols-3">
+                  <div className="col-span-2">{comparison}</div>
+                  <div className="p-4 border-l">{baselineColumn}</div>
+                </div>
+              ) : (
+                <>
+                  {comparison}
+                  <div className="px-4 pb-4">
+                    <div className="rounded-md border bg-muted/30 p-3 grid gap-1">
+                      <span className="text-xs font-medium text-muted-foreground">Market baseline</span>
+                      {baselineColumn}
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          )
+        })}
+
+        {sections.length > 0 && visibleSections.length === 0 && (
+          <div className="p-8 text-center text-sm text-muted-foreground">
+            No sections match this filter.
           </div>
-        ))}
+        )}
       </div>
+
+      {streaming && (
+        <div className="flex items-center justify-center gap-2 py-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          More sections are being compared...
+        </div>
+      )}
       
-      {(!analysisResult?.sections || analysisResult.sections.length === 0) && (
+      {!streaming && (!analysisResult?.sections || analysisResult.sections.length === 0) && (
         <div className="text-center py-8 text-muted-foreground">
           <p>No section comparison data available.</p>
           <p className="text-sm">The analysis may still be processing or encountered an error.</p>
@@ -0,0 +1,79 @@
+"use client"
+
+import { useState } from "react"
+import { Download, Loader2, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import type { CounterProposalClause } from "@/lib/analysis-store"
+import { saveDownload } from "@/lib/utils"
+
+interface CounterProposalListProps {
+  clauses: CounterProposalClause[]
+  onRemove?: (clause: CounterProposalClause) => void
+  /** Accepted or negotiated risks with replacement wording, i.e. the changes in the marked-up NDA. */
+  changeCount: number
+  /** Marked-up customer NDA with the changes applied as tracked changes; posting to it records the export. */
+  markupPath?: string
+}
+
+export function CounterProposalList({ clauses, onRemove, changeCount, markupPath }: CounterProposalListProps) {
+  const { toast } = useToast()
+  const [downloading, setDownloading] = useState(false)
+
+  const downloadMarkup = async () => {
+    if (!markupPath) return
+    setDownloading(true)
+    try {
+      await saveDownload(await fetch(markupPath, { method: "POST" }), "counter-proposal.docx")
+    } catch (error) {
+      console.error("Error downloading marked-up NDA:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not create the marked-up NDA",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="bg-muted/50 p-4 font-medium flex justify-between items-center">
+        <span>Counter-Proposal ({changeCount} change{changeCount === 1 ? "" : "s"})</span>
+        {markupPath && changeCount > 0 && (
+          <Button variant="outline" size="sm" disabled={downloading} onClick={downloadMarkup}>
+            {downloading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Marked-up DOCX
+          </Button>
+        )}
+      </div>
+      <p className="p-4 text-sm text-muted-foreground border-b">
+        The marked-up NDA applies every accepted or negotiated risk that has replacement wording: the wording entered
+        with the decision, or else the library clause inserted for its section.
+      </p>
+      {clauses.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">
+          No library clauses inserted yet. Insert suggested clauses from the risks above.
+        </p>
+      ) : (
+        <div className="divide-y">
+          {clauses.map((clause) => (
+            <div key={clause.id} className="p-4 flex gap-4">
+              <div className="flex-1 grid gap-1">
+                <div className="text-sm font-medium">{clause.section}</div>
+                <div className="text-xs text-muted-foreground">Addresses: {clause.riskTitle}</div>
+                <p className="text-sm whitespace-pre-wrap">{clause.text}</p>
+              </div>
+              {onRemove && (
+                <Button variant="ghost" size="icon" aria-label="Remove from counter-proposal" onClick={() => onRemove(clause)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
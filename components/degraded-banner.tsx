@@ -0,0 +1,29 @@
+import { AlertTriangle } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import type { AnalysisProvenance } from "@/lib/nda-analysis"
+
+interface DegradedBannerProps {
+  provenance?: AnalysisProvenance
+}
+
+export function DegradedBanner({ provenance }: DegradedBannerProps) {
+  if (!provenance?.degraded) {
+    return null
+  }
+
+  return (
+    <Alert className="border-amber-400 bg-amber-50 text-amber-900 [&>svg]:text-amber-600">
+      <AlertTriangle className="h-5 w-5" />
+      <AlertTitle className="font-semibold">Degraded analysis — AI review unavailable</AlertTitle>
+      <AlertDescription>
+        <p>
+          These results come from an automated word comparison ({provenance.model}), not from legal analysis by the
+          AI model. Similarity scores and flagged clauses are pointers for manual review only.
+        </p>
+        {provenance.reason && (
+          <p className="mt-1 text-xs text-amber-700">Reason: {provenance.reason}</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useState } from "react"
+import { Download, FileText, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/hooks/use-toast"
+import { saveDownload } from "@/lib/utils"
+
+interface ExportReportButtonProps {
+  /** Report endpoint: `/api/analyses/<id>/export`, or `/api/shared/<token>/export` in shared views. */
+  exportPath: string
+}
+
+// Downloads through fetch so a refused export, e.g. a PDF the fonts cannot show, is reported instead of saved as a file
+export function ExportReportButton({ exportPath }: ExportReportButtonProps) {
+  const { toast } = useToast()
+  const [exporting, setExporting] = useState(false)
+
+  const download = async (format: "pdf" | "docx") => {
+    setExporting(true)
+    try {
+      await saveDownload(await fetch(`${exportPath}?format=${format}`), `nda-review.${format}`)
+    } catch (error) {
+      console.error("Error exporting report:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not export the report",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Download Report
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => download("pdf")}>
+          <FileText className="mr-2 h-4 w-4" />
+          PDF memo
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => download("docx")}>
+          <FileText className="mr-2 h-4 w-4" />
+          Word document (DOCX)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -2,10 +2,13 @@
 
 import type React from "react"
 
-import { useState, useRef } from "react"
+import { useEffect, useState, useRef } from "react"
 import { Upload, Check, AlertCircle, Loader2, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { pollJob } from "@/lib/job-client"
+import type { Job } from "@/lib/jobs"
 
 interface FileUploadProps {
   label: string
@@ -31,11 +34,23 @@ interface UploadResult {
   details?: string
 }
 
+// Lets a reload or a reopened tab pick up a document that is still being parsed on the server
+const parseJobKey = (endpoint: string) => `nda-checker:parse-job:${endpoint}`
+
+interface StoredParseJob {
+  jobId: string
+  fileName: string
+  fileSize: number
+}
+
+type SelectedFile = Pick<File, "name" | "size">
+
 export function FileUpload({ label, description, accept, endpoint, onUploadComplete }: FileUploadProps) {
-  const [file, setFile] = useState<File | null>(null)
+  const [file, setFile] = useState<SelectedFile | null>(null)
   const [uploading, setUploading] = useState(false)
   const [uploadStatus, setUploadStatus] = useState<"idle" | "success" | "error" | "cancelled">("idle")
   const [uploadResult, setUploadResult] = useState<UploadResult | null>(null)
+  const [job, setJob] = useState<Job | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -46,34 +61,68 @@ export function FileUpload({ label, description, accept, endpoint, onUploadCompl
     }
   }
 
-  const handleUpload = async (selectedFile: File) => {
-    setUploading(true)
-    setUploadStatus("idle")
-    setUploadResult(null)
-
-    // Create a new AbortController for this upload
-    const abortController = new AbortController()
-    abortControllerRef.current = abortController
-
+  useEffect(() => {
+    const stored = window.localStorage.getItem(parseJobKey(endpoint))
+    if (!stored) return
     try {
+      const { jobId, fileName, fileSize } = JSON.parse(stored) as StoredParseJob
+      const selectedFile = { name: fileName, size: fileSize }
+      setFile(selectedFile)
+      trackUpload(selectedFile, async () => jobId)
+    } catch {
+      window.localStorage.removeItem(parseJobKey(endpoint))
+    }
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const handleUpload = (selectedFile: File) =>
+    trackUpload(selectedFile, async (signal) => {
       const formData = new FormData()
       formData.append("file", selectedFile)
       formData.append("type", endpoint)
 
-      const response = await fetch("/api/upload", {
+      // Parsing runs as a background job on the server; this only uploads the file
+      const response = await fetch("/api/jobs/parse", {
         method: "POST",
         body: formData,
-        signal: abortController.signal, // Add abort signal
+        signal, // Add abort signal
       })
+      const queued = await response.json()
 
-      // Check if the request was aborted
-      if (abortController.signal.aborted) {
-        return
+      if (!response.ok) {
+        setUploadStatus("error")
+        setUploadResult({ ...queued, success: false, fileName: selectedFile.name, fileSize: selectedFile.size, documentType: endpoint })
+        return null
       }
+      return queued.job.id as string
+    })
 
-      const result: UploadResult = await response.json()
+  // Follows the parse job until it finishes; its id is kept in localStorage until then
+  const trackUpload = async (selectedFile: SelectedFile, startJob: (signal: AbortSignal) => Promise<string | null>) => {
+    setUploading(true)
+    setUploadStatus("idle")
+    setUploadResult(null)
+    setJob(null)
+
+    // Create a new AbortController for this upload
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    try {
+      const jobId = await startJob(abortController.signal)
+      if (!jobId) return
 
-      if (result.success) {
+      const stored: StoredParseJob = { jobId, fileName: selectedFile.name, fileSize: selectedFile.size }
+      window.localStorage.setItem(parseJobKey(endpoint), JSON.stringify(stored))
+      const { job: finished, document } = await pollJob(jobId, setJob, abortController.signal)
+      window.localStorage.removeItem(parseJobKey(endpoint))
+
+      if (finished.status === "done" && document) {
+        const result: UploadResult = {
+          ...document,
+          success: true,
+          message: `${endpoint} uploaded and parsed successfully`,
+        }
         setUploadStatus("success")
         setUploadResult(result)
         
@@ -83,7 +132,15 @@ export function FileUpload({ label, description, accept, endpoint, onUploadCompl
         }
       } else {
         setUploadStatus("error")
-        setUploadResult(result)
+        setUploadResult({
+          success: false,
+          message: "Upload failed",
+          fileName: selectedFile.name,
+          fileSize: selectedFile.size,
+          documentType: endpoint,
+          error: "Failed to parse document",
+          details: finished.error?.message,
+        })
       }
     } catch (error) {
       // Check if the error is due to abortion
@@ -100,6 +157,7 @@ export function FileUpload({ label, description, accept, endpoint, onUploadCompl
         return
       }
 
+      window.localStorage.removeItem(parseJobKey(endpoint))
       console.error("Upload failed:", error)
       setUploadStatus("error")
       setUploadResult({
@@ -120,6 +178,7 @@ export function FileUpload({ label, description, accept, endpoint, onUploadCompl
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
+    window.localStorage.removeItem(parseJobKey(endpoint))
   }
 
   const resetUpload = () => {
@@ -127,6 +186,7 @@ export function FileUpload({ label, description, accept, endpoint, onUploadCompl
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
+    window.localStorage.removeItem(parseJobKey(endpoint))
     
     setFile(null)
     setUploadStatus("idle")
@@ -159,8 +219,9 @@ export function FileUpload({ label, description, accept, endpoint, onUploadCompl
               {uploading && (
                 <div className="text-center">
                   <p className="text-xs text-muted-foreground mb-2">
-                    Uploading and parsing document...
+                    {job ? job.message : "Uploading document..."}
                   </p>
+                  {job && <Progress value={job.progress} className="h-1.5 w-48 mb-2" />}
                   <Button 
                     variant="outline" 
                     size="sm" 
@@ -0,0 +1,43 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { keyTermRows } from "@/lib/key-term-rows"
+import type { KeyTermsComparison } from "@/lib/key-terms"
+
+interface KeyTermsTableProps {
+  keyTerms: KeyTermsComparison
+}
+
+const DIFFERS_CLASS = "bg-yellow-50 font-medium text-yellow-900"
+
+/**
+ * Side-by-side key terms of the reference, customer and (in three-way
+ * comparisons) baseline NDAs, highlighting values that differ from the reference.
+ */
+export function KeyTermsTable({ keyTerms }: KeyTermsTableProps) {
+  const rows = keyTermRows(keyTerms)
+  const hasBaseline = Boolean(keyTerms.baseline)
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-48">Term</TableHead>
+            <TableHead>Reference NDA</TableHead>
+            <TableHead>Customer NDA</TableHead>
+            {hasBaseline && <TableHead>Market Baseline</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.label}>
+              <TableCell className="font-medium">{row.label}</TableCell>
+              <TableCell>{row.reference}</TableCell>
+              <TableCell className={row.customerDiffers ? DIFFERS_CLASS : undefined}>{row.customer}</TableCell>
+              {hasBaseline && <TableCell className={row.baselineDiffers ? DIFFERS_CLASS : undefined}>{row.baseline}</TableCell>}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
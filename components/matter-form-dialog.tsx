@@ -0,0 +1,145 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { MATTER_STATUSES, MATTER_STATUS_LABELS, type MatterStatus } from "@/lib/matter-status"
+import type { Matter } from "@/lib/matters"
+
+interface MatterFormDialogProps {
+  /** The matter to edit; a new matter is created when omitted. */
+  matter?: Matter
+  trigger: ReactNode
+  onSaved: (matter: Matter) => void
+}
+
+interface MatterForm {
+  name: string
+  counterparty: string
+  owner: string
+  status: MatterStatus
+  dueDate: string
+}
+
+const toForm = (matter?: Matter): MatterForm => ({
+  name: matter?.name ?? "",
+  counterparty: matter?.counterparty ?? "",
+  owner: matter?.owner ?? "",
+  status: matter?.status ?? "open",
+  dueDate: matter?.dueDate ?? "",
+})
+
+export function MatterFormDialog({ matter, trigger, onSaved }: MatterFormDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [form, setForm] = useState<MatterForm>(toForm(matter))
+  const [saving, setSaving] = useState(false)
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setForm(toForm(matter))
+    setOpen(next)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(matter ? `/api/matters/${matter.id}` : "/api/matters", {
+        method: matter ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, dueDate: form.dueDate || null }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `Failed to save matter: ${response.status}`)
+      }
+      setOpen(false)
+      onSaved(result.matter)
+      toast({ title: matter ? "Matter saved" : "Matter created", description: result.matter.name })
+    } catch (error) {
+      console.error("Error saving matter:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not save matter",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{matter ? "Edit Matter" : "New Matter"}</DialogTitle>
+          <DialogDescription>An NDA request from one counterparty, tracked from first draft to signature.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="matter-name">Name</Label>
+            <Input
+              id="matter-name"
+              placeholder="e.g. Acme partnership NDA"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="matter-counterparty">Counterparty</Label>
+              <Input id="matter-counterparty" value={form.counterparty} onChange={(e) => setForm({ ...form, counterparty: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="matter-owner">Deal owner</Label>
+              <Input id="matter-owner" value={form.owner} onChange={(e) => setForm({ ...form, owner: e.target.value })} />
+            </div>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="matter-status">Status</Label>
+              <Select value={form.status} onValueChange={(status) => setForm({ ...form, status: status as MatterStatus })}>
+                <SelectTrigger id="matter-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MATTER_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {MATTER_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="matter-due-date">Due date</Label>
+              <Input id="matter-due-date" type="date" value={form.dueDate} onChange={(e) => setForm({ ...form, dueDate: e.target.value })} />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !form.name.trim() || !form.counterparty.trim()}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {matter ? "Save Matter" : "Create Matter"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Loader2 } from "lucide-react"
+import { FileUpload } from "@/components/file-upload"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+interface NextRoundUploadProps {
+  analysisId: string
+  referenceDocumentId: string
+  /** Market baseline of a three-way comparison, reused for the next round. */
+  baselineDocumentId?: string
+  matterId: string | null
+  round: number | null
+}
+
+/** Analyzes the customer's next draft against the same reference as a new round of the matter. */
+export function NextRoundUpload({ analysisId, referenceDocumentId, baselineDocumentId, matterId, round }: NextRoundUploadProps) {
+  const router = useRouter()
+  const [customerDocumentId, setCustomerDocumentId] = useState<string | null>(null)
+  const [analyzing, setAnalyzing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const nextRound = (round ?? 1) + 1
+
+  const analyzeNextRound = async () => {
+    if (!customerDocumentId) return
+
+    setAnalyzing(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ referenceDocumentId, customerDocumentId, baselineDocumentId, previousAnalysisId: analysisId }),
+      })
+      const result = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(result?.error || `Analysis failed: ${response.status}`)
+      }
+      router.push(result.matterId ? `/matters/${result.matterId}` : `/comparison/${result.id}`)
+    } catch (error) {
+      console.error("Error analyzing next round:", error)
+      setError(error instanceof Error ? error.message : "Analysis failed")
+      setAnalyzing(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Next Round</CardTitle>
+        <CardDescription>
+          Upload the customer&apos;s revised draft to see which risks it resolves, which remain and which are new
+          {matterId && (
+            <>
+              {" "}· <Link href={`/matters/${matterId}`} className="underline">view matter</Link>
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        <FileUpload
+          label={`Customer NDA, round ${nextRound}`}
+          description="Revised NDA from the customer"
+          accept=".pdf,.doc,.docx"
+          endpoint="customerNda"
+          onUploadComplete={(result) => setCustomerDocumentId(result.success ? result.documentId : null)}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button onClick={analyzeNextRound} disabled={!customerDocumentId || analyzing}>
+          {analyzing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {analyzing ? "Analyzing..." : `Analyze Round ${nextRound}`}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,42 @@
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import type { PlaybookEvaluation, PlaybookTier } from "@/lib/playbook"
+
+interface PlaybookEvaluationTableProps {
+  evaluations: PlaybookEvaluation[]
+}
+
+// lib/playbook is server-only (storage and LLM access), so labels are repeated here
+const tierStyles: Record<PlaybookTier, { label: string; className: string }> = {
+  preferred: { label: "Preferred", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  fallback: { label: "Fallback", className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100" },
+  walk_away: { label: "Walk-away", className: "bg-orange-100 text-orange-800 hover:bg-orange-100" },
+  unacceptable: { label: "Beyond walk-away", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+  missing: { label: "Missing", className: "bg-gray-100 text-gray-700 hover:bg-gray-100" },
+}
+
+export function PlaybookEvaluationTable({ evaluations }: PlaybookEvaluationTableProps) {
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="bg-muted/50 p-4 font-medium flex justify-between items-center">
+        <span>Playbook Positions</span>
+        <Link href="/playbook" className="text-sm font-normal text-muted-foreground hover:underline">
+          Edit playbook
+        </Link>
+      </div>
+      <div className="divide-y">
+        {evaluations.map((evaluation) => (
+          <div key={evaluation.clauseType} className="p-4 flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
+            <div className="sm:w-48 shrink-0 flex items-center justify-between sm:flex-col sm:items-start gap-1">
+              <span className="font-medium">{evaluation.label}</span>
+              <Badge className={tierStyles[evaluation.tier].className}>
+                {tierStyles[evaluation.tier].label}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">{evaluation.rationale}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+"use client"
+
+import { useMemo } from "react"
+import { HighlightedText } from "@/components/search-highlight"
+import { diffWords, type DiffOptions, type DiffSegment } from "@/lib/text-diff"
+
+export type RedlineMode = "inline" | "side-by-side"
+
+interface RedlineDiffProps extends DiffOptions {
+  original: string
+  revised: string
+  mode: RedlineMode
+  /** Search term to highlight inside the redline. */
+  highlight?: string
+}
+
+function renderSegments(segments: DiffSegment[], show: Array<DiffSegment["type"]>, highlight = "") {
+  return segments
+    .filter((segment) => show.includes(segment.type))
+    .map((segment, index) => {
+      if (segment.type === "insert") {
+        return (
+          <ins key={index} className="bg-green-100 text-green-900 underline decoration-green-600">
+            <HighlightedText text={segment.text} term={highlight} />
+          </ins>
+        )
+      }
+      if (segment.type === "delete") {
+        return (
+          <del key={index} className="bg-red-100 text-red-900 line-through decoration-red-600">
+            <HighlightedText text={segment.text} term={highlight} />
+          </del>
+        )
+      }
+      return <span key={index}><HighlightedText text={segment.text} term={highlight} /></span>
+    })
+}
+
+export function RedlineDiff({ original, revised, mode, ignoreWhitespace, ignorePunctuation, highlight }: RedlineDiffProps) {
+  const segments = useMemo(
+    () => diffWords(original, revised, { ignoreWhitespace, ignorePunctuation }),
+    [original, revised, ignoreWhitespace, ignorePunctuation]
+  )
+
+  if (mode === "inline") {
+    return (
+      <p className="text-sm whitespace-pre-wrap leading-relaxed">
+        {renderSegments(segments, ["equal", "delete", "insert"], highlight)}
+      </p>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-2">
+      <div className="p-4 border-r">
+        <p className="text-sm whitespace-pre-wrap leading-relaxed text-muted-foreground">
+          {renderSegments(segments, ["equal", "delete"], highlight)}
+        </p>
+      </div>
+      <div className="p-4">
+        <p className="text-sm whitespace-pre-wrap leading-relaxed">
+          {renderSegments(segments, ["equal", "insert"], highlight)}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertCircle, FileText, Loader2 } from "lucide-react"
+import { FileUpload } from "@/components/file-upload"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ParsedUpload } from "@/lib/analysis-pipeline"
+import type { NdaTemplate } from "@/lib/templates"
+import { currentVersion } from "@/lib/template-versions"
+
+interface ReferenceTemplatePickerProps {
+  /** Called with the chosen template's parsed document or a finished upload, and with null when neither is ready. */
+  onSelect: (document: ParsedUpload | null) => void
+}
+
+const UPLOAD = "upload"
+
+/**
+ * Reference NDA input: a saved template (the default one preselected) or a
+ * one-off upload. Without saved templates it is a plain upload.
+ */
+export function ReferenceTemplatePicker({ onSelect }: ReferenceTemplatePickerProps) {
+  const [templates, setTemplates] = useState<NdaTemplate[] | null>(null)
+  const [selected, setSelected] = useState(UPLOAD)
+  const [templateDocument, setTemplateDocument] = useState<ParsedUpload | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selectTemplate = async (value: string) => {
+    setSelected(value)
+    setTemplateDocument(null)
+    setError(null)
+    onSelect(null)
+    if (value === UPLOAD) return
+
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/templates/${value}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to load template: ${response.status}`)
+      }
+      setTemplateDocument(result.document)
+      onSelect(result.document)
+    } catch (error) {
+      console.error("Error loading template:", error)
+      setError(error instanceof Error ? error.message : "Failed to load template")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch("/api/templates")
+        if (!response.ok) {
+          throw new Error(`Failed to load templates: ${response.status}`)
+        }
+        const result: { templates: NdaTemplate[] } = await response.json()
+        setTemplates(result.templates)
+
+        const preferred = result.templates.find((template) => template.isDefault)
+        if (preferred) selectTemplate(preferred.id)
+      } catch (error) {
+        console.error("Error loading templates:", error)
+        setTemplates([])
+      }
+    }
+
+    loadTemplates()
+  }, [])
+
+  const upload = (
+    <FileUpload
+      label={templates && templates.length > 0 ? "Reference file" : "Reference NDA"}
+      description="Your standard NDA template"
+      accept=".pdf,.doc,.docx"
+      endpoint="referenceNda"
+      onUploadComplete={(result) => onSelect(result.success ? result : null)}
+    />
+  )
+
+  if (templates === null) {
+    return (
+      <div className="grid gap-2">
+        <Label>Reference NDA</Label>
+        <div className="rounded-md border border-dashed p-6 flex items-center justify-center bg-muted/50">
+          <Loader2 className="h-6 w-6 text-muted-foreground animate-spin" />
+        </div>
+      </div>
+    )
+  }
+
+  if (templates.length === 0) {
+    return (
+      <div className="grid gap-2">
+        {upload}
+        <p className="text-xs text-muted-foreground">
+          Compare against the same NDA often?{" "}
+          <Link href="/templates" className="underline">
+            Save it as a template
+          </Link>
+        </p>
+      </div>
+    )
+  }
+
+  const template = templates.find((entry) => entry.id === selected)
+  const version = template && currentVersion(template)
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="reference-template">Reference NDA</Label>
+      <Select value={selected} onValueChange={selectTemplate}>
+        <SelectTrigger id="reference-template">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((entry) => (
+            <SelectItem key={entry.id} value={entry.id}>
+              {entry.name} · {currentVersion(entry).label}
+            </SelectItem>
+          ))}
+          <SelectItem value={UPLOAD}>Upload a different file</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {selected === UPLOAD ? (
+        upload
+      ) : (
+        <div className="rounded-md border border-dashed p-6 flex flex-col items-center justify-center gap-2 bg-muted/50">
+          {loading && <Loader2 className="h-8 w-8 text-blue-500 animate-spin" />}
+          {error && <AlertCircle className="h-8 w-8 text-red-500" />}
+          {templateDocument && <FileText className="h-8 w-8 text-green-500" />}
+          <p className="text-sm font-medium truncate max-w-full">{version?.fileName}</p>
+          {templateDocument && (
+            <p className="text-xs text-muted-foreground">
+              {version?.label} · {templateDocument.parsedContent.pages} page(s)
+            </p>
+          )}
+          {error && <p className="text-xs text-red-600 text-center">{error}</p>}
+          <Link href="/templates" className="text-xs underline text-muted-foreground">
+            Manage templates
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
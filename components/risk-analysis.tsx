@@ -1,9 +1,23 @@
 "use client"
 
-import { AlertTriangle, AlertCircle, CheckCircle, ChevronDown, ChevronUp } from "lucide-react"
-import { useState } from "react"
+import { AlertTriangle, AlertCircle, CheckCircle, ChevronDown, ChevronUp, Loader2 } from "lucide-react"
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
+import { ClauseSuggestions } from "@/components/clause-suggestions"
+import { CounterProposalList } from "@/components/counter-proposal"
+import { DegradedBanner } from "@/components/degraded-banner"
+import { PlaybookEvaluationTable } from "@/components/playbook-evaluation"
+import { RiskDecisionBadge, RiskDecisionForm, type RiskDecisionValues } from "@/components/risk-decision-form"
+import { useToast } from "@/hooks/use-toast"
+import type { CounterProposalClause } from "@/lib/analysis-store"
+import { RISK_DEVIATION_LABELS } from "@/lib/baseline-comparison"
+import type { LibraryClause } from "@/lib/clause-library"
+import { suggestLibraryClauses } from "@/lib/clause-suggestions"
+import type { AnalysisProvenance, RiskDeviation } from "@/lib/nda-analysis"
+import { getMarkupChanges, type RiskDecision } from "@/lib/risk-decisions"
+import type { PlaybookEvaluation } from "@/lib/playbook"
 
 interface RiskAnalysisProps {
   analysisResult: {
@@ -13,17 +27,135 @@ interface RiskAnalysisProps {
       title: string
       description: string
       recommendation: string
+      deviation?: RiskDeviation
     }>
-    summary: {
+    /** Missing while the analysis is still streaming. */
+    summary?: {
       overallRisk: "low" | "medium" | "high"
       keyIssues: string[]
       recommendation: string
     }
+    playbook?: PlaybookEvaluation[]
+    provenance?: AnalysisProvenance
   }
+  /** Saved analysis the counter-proposal belongs to; without it clauses can only be copied. */
+  analysisId?: string
+  counterProposal?: CounterProposalClause[]
+  decisions?: RiskDecision[]
+  /** Called with the saved decisions so the page can update its sign-off progress. */
+  onDecisionsChange?: (decisions: RiskDecision[]) => void
+  /** Hides library suggestions and counter-proposal editing, e.g. for share links. */
+  readOnly?: boolean
+  /** Freezes decisions and the counter-proposal once sign-off has been requested. */
+  locked?: boolean
+  /** The analysis is still running; risks are appended as they arrive and the summary comes last. */
+  streaming?: boolean
 }
 
-export function RiskAnalysis({ analysisResult }: RiskAnalysisProps) {
+const deviationClass: Record<RiskDeviation, string> = {
+  ours: "border-blue-300 text-blue-700",
+  market: "border-purple-300 text-purple-700",
+  both: "border-red-300 text-red-700",
+}
+
+export function RiskAnalysis({
+  analysisResult,
+  analysisId,
+  counterProposal: initialCounterProposal,
+  decisions = [],
+  onDecisionsChange,
+  readOnly,
+  locked,
+  streaming,
+}: RiskAnalysisProps) {
+  const editable = !readOnly && !locked
+  const { toast } = useToast()
   const [expandedRisks, setExpandedRisks] = useState<number[]>([])
+  const [library, setLibrary] = useState<LibraryClause[]>([])
+  const [counterProposal, setCounterProposal] = useState<CounterProposalClause[]>(initialCounterProposal ?? [])
+
+  useEffect(() => {
+    setCounterProposal(initialCounterProposal ?? [])
+  }, [initialCounterProposal])
+
+  useEffect(() => {
+    if (!editable) return
+
+    const loadLibrary = async () => {
+      try {
+        const response = await fetch("/api/clause-library")
+        if (!response.ok) {
+          throw new Error(`Failed to load clause library: ${response.status}`)
+        }
+        setLibrary((await response.json()).clauses)
+      } catch (error) {
+        console.error("Error loading clause library:", error)
+      }
+    }
+
+    loadLibrary()
+  }, [editable])
+
+  const updateCounterProposal = async (request: Promise<Response>, successTitle: string) => {
+    try {
+      const response = await request
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to update counter-proposal: ${response.status}`)
+      }
+      setCounterProposal(result.counterProposal)
+      toast({ title: successTitle })
+    } catch (error) {
+      console.error("Error updating counter-proposal:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not update counter-proposal",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  const insertClause = (risk: { section: string; title: string }, clause: LibraryClause) =>
+    updateCounterProposal(
+      fetch(`/api/analyses/${analysisId}/counter-proposal`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ section: risk.section, riskTitle: risk.title, text: clause.text, libraryClauseId: clause.id }),
+      }),
+      "Added to counter-proposal"
+    )
+
+  const saveDecision = async (riskIndex: number, request: RequestInit) => {
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}/decisions/${riskIndex}`, request)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to save decision: ${response.status}`)
+      }
+      onDecisionsChange?.(result.decisions)
+      toast({ title: request.method === "DELETE" ? "Decision cleared" : "Decision saved" })
+    } catch (error) {
+      console.error("Error saving risk decision:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not save decision",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  const recordDecision = (riskIndex: number, values: RiskDecisionValues) =>
+    saveDecision(riskIndex, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(values),
+    })
+
+  const removeClause = (clause: CounterProposalClause) =>
+    updateCounterProposal(
+      fetch(`/api/analyses/${analysisId}/counter-proposal/${clause.id}`, { method: "DELETE" }),
+      "Removed from counter-proposal"
+    )
 
   const toggleRisk = (id: number) => {
     if (expandedRisks.includes(id)) {
@@ -33,22 +165,9 @@ export function RiskAnalysis({ analysisResult }: RiskAnalysisProps) {
     }
   }
 
-  // Use analysis result risks or fallback to mock data
-  const risks = analysisResult?.risks || [
-    {
-      section: "5. Term and Termination",
-      severity: "high" as const,
-      title: "Extended Term Duration",
-      description: "The customer NDA extends the term to 5 years with automatic renewal",
-      recommendation: "Negotiate to reduce term to 3 years and remove automatic renewal",
-    }
-  ]
-
-  const summary = analysisResult?.summary || {
-    overallRisk: "high" as const,
-    keyIssues: ["Extended term", "Indemnification clause"],
-    recommendation: "Negotiate key terms before signing"
-  }
+  // Risks stream in before the summary; nothing is shown for what the analysis has not produced
+  const risks = analysisResult?.risks ?? []
+  const summary = analysisResult?.summary
 
   const riskCounts = {
     high: risks.filter((r) => r.severity === "high").length,
@@ -58,6 +177,11 @@ export function RiskAnalysis({ analysisResult }: RiskAnalysisProps) {
 
   const totalRisks = risks.length
 
+  // Set only in three-way comparisons with a market baseline
+  const deviationCounts = (["ours", "market", "both"] as const)
+    .map((deviation) => ({ deviation, count: risks.filter((risk) => risk.deviation === deviation).length }))
+    .filter(({ count }) => count > 0)
+
   const getRiskProgress = (overallRisk: string) => {
     switch (overallRisk) {
       case "low": return 25
@@ -85,23 +209,31 @@ export function RiskAnalysis({ analysisResult }: RiskAnalysisProps) {
     }
   }
 
-  const progressColors = getProgressColor(summary.overallRisk)
+  const progressColors = summary ? getProgressColor(summary.overallRisk) : null
 
   return (
     <div className="grid gap-6">
+      <DegradedBanner provenance={analysisResult?.provenance} />
+
       <div className="grid gap-4 p-6 border rounded-lg bg-card">
         <h3 className="text-lg font-semibold">Risk Summary</h3>
         <div className="grid gap-2">
           <div className="flex justify-between items-center">
             <span className="text-sm font-medium">Overall Risk Assessment</span>
-            <span className={`text-sm font-medium ${getRiskColor(summary.overallRisk)} capitalize`}>
-              {summary.overallRisk} Risk
-            </span>
+            {streaming || !summary ? (
+              <span className="text-sm text-muted-foreground">Assessed when the analysis completes</span>
+            ) : (
+              <span className={`text-sm font-medium ${getRiskColor(summary.overallRisk)} capitalize`}>
+                {summary.overallRisk} Risk
+              </span>
+            )}
           </div>
-          <Progress 
-            value={getRiskProgress(summary.overallRisk)} 
-            className={`h-2 ${progressColors.bg}`}
-          />
+          {!streaming && summary && progressColors && (
+            <Progress 
+              value={getRiskProgress(summary.overallRisk)} 
+              className={`h-2 ${progressColors.bg}`}
+            />
+          )}
         </div>
         <div className="grid grid-cols-3 gap-4 mt-2">
           <div className="flex flex-col items-center p-3 border rounded-md bg-red-50">
@@ -120,8 +252,18 @@ export function RiskAnalysis({ analysisResult }: RiskAnalysisProps) {
             <span className="text-xs text-muted-foreground">Low Risk</span>
           </div>
         </div>
+
+        {deviationCounts.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {deviationCounts.map(({ deviation, count }) => (
+              <Badge key={deviation} variant="outline" className={deviationClass[deviation]}>
+                {RISK_DEVIATION_LABELS[deviation]}: {count}
+              </Badge>
+            ))}
+          </div>
+        )}
         
-        {summary.keyIssues && summary.keyIssues.length > 0 && (
+        {!streaming && summary?.keyIssues && summary.keyIssues.length > 0 && (
           <div className="mt-4">
             <h4 className="text-sm font-medium mb-2">Key Issues</h4>
             <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
@@ -133,53 +275,110 @@ export function RiskAnalysis({ analysisResult }: RiskAnalysisProps) {
         )}
       </div>
 
+      {analysisResult?.playbook && analysisResult.playbook.length > 0 && (
+        <PlaybookEvaluationTable evaluations={analysisResult.playbook} />
+      )}
+
       <div className="border rounded-lg overflow-hidden">
         <div className="bg-muted/50 p-4 font-medium">Identified Risks ({totalRisks})</div>
         <div className="divide-y">
-          {risks.length === 0 ? (
+          {risks.length === 0 && !streaming ? (
             <div className="p-8 text-center text-muted-foreground">
               <p>No specific risks identified in the analysis.</p>
               <p className="text-sm">This could indicate the documents are very similar or the analysis needs refinement.</p>
             </div>
           ) : (
-            risks.map((risk, index) => (
-              <div key={index} className="p-4">
-                <div className="flex items-center justify-between cursor-pointer" onClick={() => toggleRisk(index)}>
-                  <div className="flex items-center gap-3">
-                    {risk.severity === "high" && <AlertCircle className="h-5 w-5 text-red-600" />}
-                    {risk.severity === "medium" && <AlertTriangle className="h-5 w-5 text-yellow-600" />}
-                    {risk.severity === "low" && <CheckCircle className="h-5 w-5 text-green-600" />}
-                    <div>
-                      <div className="font-medium">{risk.title}</div>
-                      <div className="text-sm text-muted-foreground">{risk.section}</div>
+            risks.map((risk, index) => {
+              const decision = decisions.find((entry) => entry.riskIndex === index)
+              return (
+                <div key={index} className="p-4">
+                  <div className="flex items-center justify-between cursor-pointer" onClick={() => toggleRisk(index)}>
+                    <div className="flex items-center gap-3">
+                      {risk.severity === "high" && <AlertCircle className="h-5 w-5 text-red-600" />}
+                      {risk.severity === "medium" && <AlertTriangle className="h-5 w-5 text-yellow-600" />}
+                      {risk.severity === "low" && <CheckCircle className="h-5 w-5 text-green-600" />}
+                      <div>
+                        <div className="font-medium">{risk.title}</div>
+                        <div className="text-sm text-muted-foreground">{risk.section}</div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {risk.deviation && (
+                        <Badge variant="outline" className={deviationClass[risk.deviation]}>
+                          {RISK_DEVIATION_LABELS[risk.deviation]}
+                        </Badge>
+                      )}
+                      {decision && <RiskDecisionBadge decision={decision} />}
+                      <Button variant="ghost" size="icon">
+                        {expandedRisks.includes(index) ? (
+                          <ChevronUp className="h-4 w-4" />
+                        ) : (
+                          <ChevronDown className="h-4 w-4" />
+                        )}
+                      </Button>
                     </div>
                   </div>
-                  <Button variant="ghost" size="icon">
-                    {expandedRisks.includes(index) ? (
-                      <ChevronUp className="h-4 w-4" />
-                    ) : (
-                      <ChevronDown className="h-4 w-4" />
-                    )}
-                  </Button>
-                </div>
 
-                {expandedRisks.includes(index) && (
-                  <div className="mt-4 grid gap-3 pl-8">
-                    <div>
-                      <div className="text-sm font-medium">Issue</div>
-                      <p className="text-sm text-muted-foreground">{risk.description}</p>
+                  {expandedRisks.includes(index) && (
+                    <div className="mt-4 grid gap-3 pl-8">
+                      <div>
+                        <div className="text-sm font-medium">Issue</div>
+                        <p className="text-sm text-muted-foreground">{risk.description}</p>
+                      </div>
+                      <div>
+                        <div className="text-sm font-medium">Recommendation</div>
+                        <p className="text-sm text-muted-foreground">{risk.recommendation}</p>
+                      </div>
+                      {editable && (
+                        <ClauseSuggestions
+                          suggestions={suggestLibraryClauses(risk, library)}
+                          insertedClauseId={counterProposal.find((clause) => clause.section === risk.section)?.libraryClauseId}
+                          onInsert={analysisId ? (clause) => insertClause(risk, clause) : undefined}
+                        />
+                      )}
+                      {analysisId && editable && (
+                        <RiskDecisionForm
+                          riskIndex={index}
+                          decision={decision}
+                          onSave={(values) => recordDecision(index, values)}
+                          onClear={() => saveDecision(index, { method: "DELETE" })}
+                        />
+                      )}
+                      {!editable && decision?.note && (
+                        <div>
+                          <div className="text-sm font-medium">Reviewer Note</div>
+                          <p className="text-sm text-muted-foreground">{decision.note}</p>
+                        </div>
+                      )}
+                      {!editable && decision?.replacementText && (
+                        <div>
+                          <div className="text-sm font-medium">Replacement Wording</div>
+                          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{decision.replacementText}</p>
+                        </div>
+                      )}
                     </div>
-                    <div>
-                      <div className="text-sm font-medium">Recommendation</div>
-                      <p className="text-sm text-muted-foreground">{risk.recommendation}</p>
-                    </div>
-                  </div>
-                )}
-              </div>
-            ))
+                  )}
+                </div>
+              )
+            })
+          )}
+          {streaming && (
+            <div className="flex items-center justify-center gap-2 p-4 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Looking for more risks...
+            </div>
           )}
         </div>
       </div>
+
+      {(analysisId || readOnly) && (editable || counterProposal.length > 0) && (
+        <CounterProposalList
+          clauses={counterProposal}
+          onRemove={editable ? removeClause : undefined}
+          changeCount={getMarkupChanges(risks, decisions, counterProposal).length}
+          markupPath={analysisId && !readOnly ? `/api/analyses/${analysisId}/markup` : undefined}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,130 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { MARKUP_DECISIONS, RISK_DECISION_LABELS, RISK_DECISIONS, type RiskDecision, type RiskDecisionType } from "@/lib/risk-decisions"
+
+const decisionStyles: Record<RiskDecisionType, string> = {
+  accept: "bg-green-100 text-green-800 hover:bg-green-100",
+  negotiate: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  reject: "bg-red-100 text-red-800 hover:bg-red-100",
+  escalate: "bg-purple-100 text-purple-800 hover:bg-purple-100",
+}
+
+export function RiskDecisionBadge({ decision }: { decision: RiskDecision }) {
+  return (
+    <Badge className={decisionStyles[decision.decision]}>
+      {RISK_DECISION_LABELS[decision.decision]}
+      {decision.assignee && ` · ${decision.assignee}`}
+    </Badge>
+  )
+}
+
+export type RiskDecisionValues = Pick<RiskDecision, "decision" | "note" | "assignee" | "replacementText">
+
+interface RiskDecisionFormProps {
+  riskIndex: number
+  decision?: RiskDecision
+  onSave: (values: RiskDecisionValues) => Promise<void>
+  onClear: () => Promise<void>
+}
+
+export function RiskDecisionForm({ riskIndex, decision, onSave, onClear }: RiskDecisionFormProps) {
+  const [choice, setChoice] = useState<RiskDecisionType | "">(decision?.decision ?? "")
+  const [note, setNote] = useState(decision?.note ?? "")
+  const [assignee, setAssignee] = useState(decision?.assignee ?? "")
+  const [replacementText, setReplacementText] = useState(decision?.replacementText ?? "")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setChoice(decision?.decision ?? "")
+    setNote(decision?.note ?? "")
+    setAssignee(decision?.assignee ?? "")
+    setReplacementText(decision?.replacementText ?? "")
+  }, [decision])
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true)
+    try {
+      await action()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-md border p-3 grid gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-medium">Reviewer Decision</div>
+        {decision && (
+          <span className="text-xs text-muted-foreground">
+            Decided {new Date(decision.decidedAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        className="justify-start flex-wrap"
+        value={choice}
+        onValueChange={(value) => setChoice(value as RiskDecisionType | "")}
+      >
+        {RISK_DECISIONS.map((value) => (
+          <ToggleGroupItem key={value} value={value}>
+            {RISK_DECISION_LABELS[value]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <div className="grid gap-3 sm:grid-cols-[1fr_12rem]">
+        <div className="grid gap-1">
+          <Label htmlFor={`decision-note-${riskIndex}`} className="text-xs">Note</Label>
+          <Textarea id={`decision-note-${riskIndex}`} rows={2} value={note} onChange={(e) => setNote(e.target.value)} />
+        </div>
+        <div className="grid gap-1 content-start">
+          <Label htmlFor={`decision-assignee-${riskIndex}`} className="text-xs">Assignee</Label>
+          <Input id={`decision-assignee-${riskIndex}`} value={assignee} onChange={(e) => setAssignee(e.target.value)} />
+        </div>
+      </div>
+      {choice && MARKUP_DECISIONS.includes(choice) && (
+        <div className="grid gap-1">
+          <Label htmlFor={`decision-replacement-${riskIndex}`} className="text-xs">
+            Replacement wording (marked-up NDA; leave empty to use the inserted library clause)
+          </Label>
+          <Textarea
+            id={`decision-replacement-${riskIndex}`}
+            rows={3}
+            value={replacementText}
+            onChange={(e) => setReplacementText(e.target.value)}
+          />
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          disabled={!choice || saving}
+          onClick={() => choice && run(() => onSave({
+            decision: choice,
+            note,
+            assignee,
+            replacementText: MARKUP_DECISIONS.includes(choice) ? replacementText : "",
+          }))}
+        >
+          {saving && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          Save Decision
+        </Button>
+        {decision && (
+          <Button size="sm" variant="ghost" disabled={saving} onClick={() => run(onClear)}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
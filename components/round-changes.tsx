@@ -0,0 +1,126 @@
+"use client"
+
+import { AlertTriangle, ArrowDown, ArrowUp, CheckCircle, PlusCircle } from "lucide-react"
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import { Badge } from "@/components/ui/badge"
+import type { AnalysisRisk } from "@/lib/nda-analysis"
+import type { ClauseChange, RoundComparison } from "@/lib/round-comparison"
+
+const severityClass: Record<AnalysisRisk["severity"], string> = {
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+  medium: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  low: "bg-green-100 text-green-800 hover:bg-green-100",
+}
+
+const clauseChangeLabels: Record<ClauseChange["type"], string> = {
+  added: "Added",
+  removed: "Removed",
+  modified: "Reworded",
+}
+
+function RiskLine({ risk }: { risk: AnalysisRisk }) {
+  return (
+    <li className="flex items-start gap-2 text-sm">
+      <Badge className={severityClass[risk.severity]}>{risk.severity}</Badge>
+      <span>
+        <span className="font-medium">{risk.title}</span>
+        <span className="text-muted-foreground"> · {risk.section}</span>
+      </span>
+    </li>
+  )
+}
+
+function clauseLabel(change: ClauseChange): string {
+  const clause = change.current ?? change.previous!
+  return clause.heading || clause.text.slice(0, 80)
+}
+
+/** Risks resolved, remaining and new in one round, plus the clauses the customer changed. */
+export function RoundChanges({ comparison }: { comparison: RoundComparison }) {
+  return (
+    <Accordion type="multiple" className="w-full">
+      <AccordionItem value="resolved">
+        <AccordionTrigger>
+          <span className="flex items-center gap-2">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            Resolved risks ({comparison.resolved.length})
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          {comparison.resolved.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No earlier risk was resolved in this draft.</p>
+          ) : (
+            <ul className="grid gap-2">
+              {comparison.resolved.map((risk, index) => <RiskLine key={index} risk={risk} />)}
+            </ul>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+      <AccordionItem value="remaining">
+        <AccordionTrigger>
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-yellow-600" />
+            Remaining risks ({comparison.remaining.length})
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          {comparison.remaining.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No earlier risk carried over.</p>
+          ) : (
+            <ul className="grid gap-2">
+              {comparison.remaining.map(({ current, previous, severityChange }, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm">
+                  <Badge className={severityClass[current.severity]}>{current.severity}</Badge>
+                  <span>
+                    <span className="font-medium">{current.title}</span>
+                    <span className="text-muted-foreground"> · {current.section}</span>
+                    {severityChange && (
+                      <span className="ml-2 inline-flex items-center text-xs text-muted-foreground">
+                        {severityChange === "raised" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                        was {previous.severity}
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+      <AccordionItem value="new">
+        <AccordionTrigger>
+          <span className="flex items-center gap-2">
+            <PlusCircle className="h-4 w-4 text-red-600" />
+            New risks ({comparison.new.length})
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          {comparison.new.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This draft introduced no new risks.</p>
+          ) : (
+            <ul className="grid gap-2">
+              {comparison.new.map((risk, index) => <RiskLine key={index} risk={risk} />)}
+            </ul>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+      <AccordionItem value="clauses">
+        <AccordionTrigger>Changed clauses ({comparison.clauseChanges.length})</AccordionTrigger>
+        <AccordionContent>
+          {comparison.clauseChanges.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The customer clauses are unchanged from the previous draft.</p>
+          ) : (
+            <ul className="grid gap-2">
+              {comparison.clauseChanges.map((change, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm">
+                  <Badge variant="outline">{clauseChangeLabels[change.type]}</Badge>
+                  <span className="truncate">{clauseLabel(change)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  )
+}
@@ -0,0 +1,34 @@
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+interface HighlightedTextProps {
+  text: string
+  term: string
+}
+
+/**
+ * Wraps case-insensitive occurrences of `term` in <mark> elements tagged with
+ * `data-search-hit`, which ComparisonView uses to step between matches.
+ */
+export function HighlightedText({ text, term }: HighlightedTextProps) {
+  const trimmed = term.trim()
+  if (!trimmed) {
+    return <>{text}</>
+  }
+
+  const parts = text.split(new RegExp(`(${escapeRegExp(trimmed)})`, "gi"))
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} data-search-hit="" className="bg-yellow-200 text-inherit rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  )
+}
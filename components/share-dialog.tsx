@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { Copy, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+
+interface ShareDialogProps {
+  analysisId: string
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+]
+
+export function ShareDialog({ analysisId }: ShareDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [expiresInDays, setExpiresInDays] = useState("7")
+  const [creating, setCreating] = useState(false)
+  const [link, setLink] = useState<{ url: string; expiresAt: string } | null>(null)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (!nextOpen) setLink(null)
+  }
+
+  const createLink = async () => {
+    setCreating(true)
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}/shares`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ expiresInDays: Number(expiresInDays) }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to create share link: ${response.status}`)
+      }
+      setLink({ url: `${window.location.origin}${result.path}`, expiresAt: result.expiresAt })
+    } catch (error) {
+      console.error("Error creating share link:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not create share link",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const copyLink = async () => {
+    if (!link) return
+    try {
+      await navigator.clipboard.writeText(link.url)
+      toast({ title: "Link copied", description: "Anyone with this link can view the comparison until it expires." })
+    } catch {
+      toast({ variant: "destructive", title: "Copy failed", description: "Select the link and copy it manually." })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Share</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share a read-only link</DialogTitle>
+          <DialogDescription>
+            Recipients can view this comparison but cannot change or delete it. The link stops working when it expires.
+          </DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="grid gap-2">
+            <Label htmlFor="share-link">Link</Label>
+            <div className="flex gap-2">
+              <Input id="share-link" value={link.url} readOnly onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyLink} aria-label="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Expires {new Date(link.expiresAt).toLocaleString()}
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            <Label htmlFor="share-expiry">Link expires after</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger id="share-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          {link ? (
+            <Button onClick={copyLink}>Copy Link</Button>
+          ) : (
+            <Button onClick={createLink} disabled={creating}>
+              {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Link
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
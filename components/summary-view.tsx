@@ -1,6 +1,18 @@
 import { AlertCircle, AlertTriangle, CheckCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { DegradedBanner } from "@/components/degraded-banner"
+import { Progress } from "@/components/ui/progress"
+import type { AnalysisProvenance } from "@/lib/nda-analysis"
+import {
+  getReviewProgress,
+  REVIEW_STATUS_LABELS,
+  RISK_DECISION_LABELS,
+  RISK_DECISIONS,
+  type ReviewStatus,
+  type RiskDecision,
+} from "@/lib/risk-decisions"
 
 interface SummaryViewProps {
   analysisResult: {
@@ -11,22 +23,30 @@ interface SummaryViewProps {
       description: string
       recommendation: string
     }>
-    summary: {
+    /** Missing while the analysis is still running. */
+    summary?: {
       overallRisk: "low" | "medium" | "high"
       keyIssues: string[]
       recommendation: string
     }
+    provenance?: AnalysisProvenance
   }
+  /** Reviewer decisions on the risks; sign-off progress is shown when present. */
+  decisions?: RiskDecision[]
 }
 
-export function SummaryView({ analysisResult }: SummaryViewProps) {
-  const summary = analysisResult?.summary || {
-    overallRisk: "high" as const,
-    keyIssues: ["Extended term", "Indemnification clause"],
-    recommendation: "Negotiate key terms before signing"
-  }
+const statusStyles: Record<ReviewStatus, string> = {
+  not_started: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+  in_review: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  escalated: "bg-purple-100 text-purple-800 hover:bg-purple-100",
+  rejected: "bg-red-100 text-red-800 hover:bg-red-100",
+  negotiating: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  ready_to_sign: "bg-green-100 text-green-800 hover:bg-green-100",
+}
 
-  const risks = analysisResult?.risks || []
+export function SummaryView({ analysisResult, decisions }: SummaryViewProps) {
+  const summary = analysisResult?.summary
+  const risks = analysisResult?.risks ?? []
 
   const getRiskIcon = (overallRisk: string) => {
     switch (overallRisk) {
@@ -46,7 +66,20 @@ export function SummaryView({ analysisResult }: SummaryViewProps) {
     }
   }
 
+  if (!summary) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Executive Summary</CardTitle>
+          <CardDescription>The summary and recommended actions appear when the analysis completes.</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
   const riskColors = getRiskColor(summary.overallRisk)
+  const progress = decisions ? getReviewProgress(risks.length, decisions) : null
+  const escalated = (decisions ?? []).filter((decision) => decision.decision === "escalate")
 
   const highRisks = risks.filter(r => r.severity === "high")
   const mediumRisks = risks.filter(r => r.severity === "medium")
@@ -54,6 +87,52 @@ export function SummaryView({ analysisResult }: SummaryViewProps) {
 
   return (
     <div className="grid gap-6">
+      <DegradedBanner provenance={analysisResult?.provenance} />
+
+      {progress && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="grid gap-1.5">
+              <CardTitle>Sign-off Progress</CardTitle>
+              <CardDescription>Reviewer decisions recorded on the identified risks</CardDescription>
+            </div>
+            <Badge className={statusStyles[progress.status]}>{REVIEW_STATUS_LABELS[progress.status]}</Badge>
+          </CardHeader>
+          <CardContent className="grid gap-4">
+            <div className="grid gap-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">Risks decided</span>
+                <span className="text-muted-foreground">
+                  {progress.decided} of {progress.total}
+                </span>
+              </div>
+              <Progress value={progress.total > 0 ? (progress.decided / progress.total) * 100 : 100} className="h-2" />
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {RISK_DECISIONS.map((decision) => (
+                <div key={decision} className="border rounded-md p-2 text-center">
+                  <div className="text-lg font-bold">{progress.counts[decision]}</div>
+                  <div className="text-xs text-muted-foreground">{RISK_DECISION_LABELS[decision]}</div>
+                </div>
+              ))}
+            </div>
+            {escalated.length > 0 && (
+              <ul className="text-sm space-y-1">
+                {escalated.map((decision) => (
+                  <li key={decision.riskIndex} className="flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 text-purple-600 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Escalated: {risks[decision.riskIndex]?.title ?? `Risk ${decision.riskIndex + 1}`}
+                      {decision.assignee && ` (assigned to ${decision.assignee})`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Executive Summary</CardTitle>
@@ -107,10 +186,7 @@ export function SummaryView({ analysisResult }: SummaryViewProps) {
                   </li>
                 ))}
                 {lowRisks.length === 0 && (
-                  <li className="flex items-start gap-2">
-                    <CheckCircle className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
-                    <span>Standard confidentiality provisions</span>
-                  </li>
+                  <li className="text-muted-foreground">No low-risk findings.</li>
                 )}
               </ul>
             </div>
@@ -0,0 +1,172 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import type { NdaTemplate } from "@/lib/templates"
+
+interface TemplateFormDialogProps {
+  /** The template to edit; a new template is created from an uploaded file when omitted. */
+  template?: NdaTemplate
+  trigger: ReactNode
+  onSaved: (template: NdaTemplate) => void
+}
+
+interface TemplateForm {
+  name: string
+  description: string
+  isDefault: boolean
+  versionLabel: string
+  effectiveDate: string
+}
+
+const toForm = (template?: NdaTemplate): TemplateForm => ({
+  name: template?.name ?? "",
+  description: template?.description ?? "",
+  isDefault: template?.isDefault ?? false,
+  versionLabel: "",
+  effectiveDate: "",
+})
+
+export function TemplateFormDialog({ template, trigger, onSaved }: TemplateFormDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [form, setForm] = useState<TemplateForm>(toForm(template))
+  const [file, setFile] = useState<File | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setForm(toForm(template))
+      setFile(null)
+    }
+    setOpen(next)
+  }
+
+  const save = (): Promise<Response> => {
+    if (template) {
+      return fetch(`/api/templates/${template.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: form.name, description: form.description, isDefault: form.isDefault }),
+      })
+    }
+
+    const formData = new FormData()
+    formData.append("file", file!)
+    formData.append("name", form.name)
+    formData.append("description", form.description)
+    formData.append("isDefault", String(form.isDefault))
+    formData.append("versionLabel", form.versionLabel)
+    formData.append("effectiveDate", form.effectiveDate)
+    return fetch("/api/templates", { method: "POST", body: formData })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await save()
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `Failed to save template: ${response.status}`)
+      }
+      setOpen(false)
+      onSaved(result.template)
+      toast({ title: template ? "Template saved" : "Template created", description: result.template.name })
+    } catch (error) {
+      console.error("Error saving template:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not save template",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Template" : "New Template"}</DialogTitle>
+          <DialogDescription>A standard NDA that customer drafts are compared against. It is parsed once when uploaded.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              placeholder="e.g. Standard Company NDA"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              placeholder="When to use this template"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          {!template && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="template-file">Document</Label>
+                <Input id="template-file" type="file" accept=".pdf,.doc,.docx" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="template-version">Version</Label>
+                <Input
+                  id="template-version"
+                  placeholder="v1"
+                  value={form.versionLabel}
+                  onChange={(e) => setForm({ ...form, versionLabel: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="template-effective-date">Effective date</Label>
+                <Input
+                  id="template-effective-date"
+                  type="date"
+                  value={form.effectiveDate}
+                  onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch id="template-default" checked={form.isDefault} onCheckedChange={(isDefault) => setForm({ ...form, isDefault })} />
+            <Label htmlFor="template-default">Use as the default reference NDA</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !form.name.trim() || (!template && !file)}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {template ? "Save Template" : "Upload Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import type { NdaTemplate } from "@/lib/templates"
+
+interface TemplateVersionDialogProps {
+  template: NdaTemplate
+  trigger: ReactNode
+  onSaved: (template: NdaTemplate) => void
+}
+
+export function TemplateVersionDialog({ template, trigger, onSaved }: TemplateVersionDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [label, setLabel] = useState("")
+  const [effectiveDate, setEffectiveDate] = useState("")
+  const [changeNote, setChangeNote] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setFile(null)
+      setLabel("")
+      setEffectiveDate("")
+      setChangeNote("")
+    }
+    setOpen(next)
+  }
+
+  const handleSave = async () => {
+    if (!file) return
+
+    setSaving(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("label", label)
+      formData.append("effectiveDate", effectiveDate)
+      formData.append("changeNote", changeNote)
+      const response = await fetch(`/api/templates/${template.id}/versions`, { method: "POST", body: formData })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `Failed to upload version: ${response.status}`)
+      }
+      setOpen(false)
+      onSaved(result.template)
+      toast({ title: "New version uploaded", description: result.template.name })
+    } catch (error) {
+      console.error("Error uploading template version:", error)
+      toast({
+        variant: "destructive",
+        title: "Could not upload version",
+        description: error instanceof Error ? error.message : "Unknown error",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Version of {template.name}</DialogTitle>
+          <DialogDescription>
+            The new version becomes the current one. Past comparisons keep the version they were run against.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="version-file">Document</Label>
+            <Input id="version-file" type="file" accept=".pdf,.doc,.docx" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="version-label">Version</Label>
+            <Input
+              id="version-label"
+              placeholder={`v${template.versions.length + 1}`}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="version-effective-date">Effective date</Label>
+            <Input id="version-effective-date" type="date" value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} />
+          </div>
+          <div className="grid gap-2 sm:col-span-2">
+            <Label htmlFor="version-change-note">What changed</Label>
+            <Textarea
+              id="version-change-note"
+              placeholder="e.g. Confidentiality term extended to 5 years"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !file}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Upload Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
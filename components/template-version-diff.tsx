@@ -0,0 +1,121 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { RedlineDiff } from "@/components/redline-diff"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ClauseChange } from "@/lib/round-comparison"
+import type { NdaTemplate, TemplateVersionDiff as VersionDiff } from "@/lib/templates"
+
+const changeLabels: Record<ClauseChange["type"], string> = {
+  added: "Added",
+  removed: "Removed",
+  modified: "Reworded",
+}
+
+function clauseLabel(change: ClauseChange): string {
+  const clause = change.current ?? change.previous!
+  return clause.heading || clause.text.slice(0, 80)
+}
+
+/** Clause-by-clause redline between two versions of a template, the previous and current ones by default. */
+export function TemplateVersionDiff({ template }: { template: NdaTemplate }) {
+  const latest = template.versions[template.versions.length - 1].number
+  const [from, setFrom] = useState(String(Math.max(latest - 1, 1)))
+  const [to, setTo] = useState(String(latest))
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setFrom(String(Math.max(latest - 1, 1)))
+    setTo(String(latest))
+  }, [latest])
+
+  useEffect(() => {
+    if (from === to) {
+      setDiff(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const loadDiff = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/templates/${template.id}/diff?from=${from}&to=${to}`, { signal: controller.signal })
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || `Failed to compare versions: ${response.status}`)
+        }
+        setDiff(result)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error("Error comparing template versions:", error)
+        setError(error instanceof Error ? error.message : "Failed to compare versions")
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+
+    loadDiff()
+    return () => controller.abort()
+  }, [template.id, from, to])
+
+  const versionSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {template.versions.map((version) => (
+          <SelectItem key={version.number} value={String(version.number)}>
+            {version.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="diff-from">From</Label>
+          {versionSelect("diff-from", from, setFrom)}
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="diff-to">To</Label>
+          {versionSelect("diff-to", to, setTo)}
+        </div>
+        {loading && <Loader2 className="h-5 w-5 mb-2 animate-spin text-muted-foreground" />}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {from === to ? (
+        <p className="text-sm text-muted-foreground">Pick two different versions to compare.</p>
+      ) : diff && !loading && (
+        diff.changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            The clauses of {diff.from.label} and {diff.to.label} are the same.
+          </p>
+        ) : (
+          <ul className="grid gap-3">
+            {diff.changes.map((change, index) => (
+              <li key={index} className="rounded-md border p-3 grid gap-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <Badge variant="outline">{changeLabels[change.type]}</Badge>
+                  <span className="truncate">{clauseLabel(change)}</span>
+                </div>
+                <RedlineDiff original={change.previous?.text ?? ""} revised={change.current?.text ?? ""} mode="inline" />
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  )
+}
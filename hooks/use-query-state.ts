@@ -0,0 +1,62 @@
+import * as React from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+
+/**
+ * Keeps a string value in the URL query so the current view can be shared.
+ * The parameter is dropped from the URL while it equals the default. With
+ * `debounceMs`, the value updates right away and reaches the URL once it has
+ * stopped changing, e.g. for a search box.
+ */
+export function useQueryState(key: string, defaultValue = "", { debounceMs = 0 }: { debounceMs?: number } = {}) {
+  const searchParams = useSearchParams()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  const urlValue = searchParams.get(key) ?? defaultValue
+  const [value, setLocalValue] = React.useState(urlValue)
+  const pendingRef = React.useRef<ReturnType<typeof setTimeout> | null>(null)
+  const searchParamsRef = React.useRef(searchParams)
+  searchParamsRef.current = searchParams
+
+  // Follows navigation (back/forward, shared links) unless a newer value is still on its way to the URL
+  React.useEffect(() => {
+    if (!pendingRef.current) setLocalValue(urlValue)
+  }, [urlValue])
+
+  React.useEffect(() => () => {
+    if (pendingRef.current) clearTimeout(pendingRef.current)
+  }, [])
+
+  const writeToUrl = React.useCallback(
+    (nextValue: string) => {
+      const params = new URLSearchParams(searchParamsRef.current.toString())
+      if (nextValue === defaultValue || nextValue === "") {
+        params.delete(key)
+      } else {
+        params.set(key, nextValue)
+      }
+      const query = params.toString()
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+    },
+    [key, defaultValue, pathname, router]
+  )
+
+  const setValue = React.useCallback(
+    (nextValue: string) => {
+      setLocalValue(nextValue)
+      if (pendingRef.current) clearTimeout(pendingRef.current)
+      if (debounceMs <= 0) {
+        pendingRef.current = null
+        writeToUrl(nextValue)
+        return
+      }
+      pendingRef.current = setTimeout(() => {
+        pendingRef.current = null
+        writeToUrl(nextValue)
+      }, debounceMs)
+    },
+    [debounceMs, writeToUrl]
+  )
+
+  return [value, setValue] as const
+}
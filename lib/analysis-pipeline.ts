@@ -0,0 +1,336 @@
+import { getAnalysis, getDocument, saveAnalysis, saveDocument, saveTextDocument, type DocumentType, type StoredDocument } from "@/lib/analysis-store"
+import { addBaselineComparison } from "@/lib/baseline-comparison"
+import {
+  ANALYSIS_PROMPT_VERSION,
+  analyzeNdaDocuments,
+  getAnalysisBudget,
+  type AnalysisDocument,
+  type AnalysisFinding,
+  type AnalysisListeners,
+} from "@/lib/chunked-analysis"
+import { hashContent, withCache } from "@/lib/content-cache"
+import { getDocumentParser } from "@/lib/document-parser"
+import { AnalysisRequestError, toAnalysisError } from "@/lib/errors"
+import { extractKeyTerms, extractKeyTermsLocally, KEY_TERMS_PROMPT_VERSION } from "@/lib/key-terms"
+import { getLLMProvider } from "@/lib/llm-providers"
+import { analyzeLocally } from "@/lib/local-analysis"
+import { addAnalysisToMatter, addNegotiationRound, getMatter } from "@/lib/matters"
+import type { AnalysisResult } from "@/lib/nda-analysis"
+import { evaluatePlaybook, evaluatePlaybookLocally, getPlaybook } from "@/lib/playbook"
+import { findTemplateVersion } from "@/lib/templates"
+
+/** Body of an analysis request: stored document ids, or raw texts with optional parser elements. */
+export interface AnalysisRequest {
+  referenceDocumentId?: string
+  customerDocumentId?: string
+  referenceText?: string
+  customerText?: string
+  referenceElements?: StoredDocument["parsedContent"]["elements"]
+  customerElements?: StoredDocument["parsedContent"]["elements"]
+  /** Optional market baseline, e.g. a public model NDA, for a three-way comparison. */
+  baselineDocumentId?: string
+  baselineText?: string
+  baselineElements?: StoredDocument["parsedContent"]["elements"]
+  /** Files the analysis as the next negotiation round after this one. */
+  previousAnalysisId?: string
+  /** Files the analysis as the next round of this matter. */
+  matterId?: string
+}
+
+/** A validated request whose documents are all stored. */
+export interface PreparedAnalysis {
+  referenceDocumentId: string
+  customerDocumentId: string
+  baselineDocumentId?: string
+  previousAnalysisId?: string
+  matterId?: string
+  /** Set when re-running an earlier analysis's customer NDA against another template version. */
+  rerunOf?: string
+}
+
+export type AnalysisOutcome = AnalysisResult & { id: string; matterId: string | null; round: number | null }
+
+/** Reports progress from 0 to 100 with a short description of the current step. */
+export type ProgressReporter = (progress: number, message: string) => void
+
+/** A parsed upload as returned to the browser by /api/upload and friends. */
+export interface ParsedUpload {
+  documentId: string
+  fileName: string
+  fileSize: number
+  documentType: DocumentType
+  parser: string
+  parsedContent: StoredDocument["parsedContent"]
+}
+
+const DOCUMENT_TYPES: DocumentType[] = ["referenceNda", "customerNda", "baselineNda"]
+
+/** Returns why an upload cannot be parsed, or null when it is acceptable. */
+export function validateUpload(file: File | null, type: string | null): string | null {
+  if (!file) return "No file provided"
+  if (!type || !DOCUMENT_TYPES.includes(type as DocumentType)) return "Invalid document type"
+
+  const allowedTypes = ["pdf", "doc", "docx"]
+  const fileExtension = file.name.toLowerCase().split(".").pop()
+  const isValidType = allowedTypes.includes(fileExtension || "") ||
+    file.type.includes("pdf") ||
+    file.type.includes("msword") ||
+    file.type.includes("wordprocessingml")
+
+  return isValidType ? null : "Only PDF, DOC, and DOCX files are supported"
+}
+
+/**
+ * Parses an upload with the configured parser and keeps the original file
+ * next to the result. Identical files parsed with the same settings reuse the
+ * cached result.
+ */
+export async function parseAndSaveDocument(file: File, documentType: DocumentType): Promise<StoredDocument> {
+  const parser = getDocumentParser()
+  const key = hashContent("parse", parser.name, JSON.stringify(parser.options), new Uint8Array(await file.arrayBuffer()))
+  const { value: parsedContent } = await withCache(key, () => parser.parse(file))
+  return saveDocument(file, documentType, parser.name, parsedContent)
+}
+
+export function toParsedUpload(document: StoredDocument): ParsedUpload {
+  return {
+    documentId: document.id,
+    fileName: document.fileName,
+    fileSize: document.fileSize,
+    documentType: document.documentType,
+    parser: document.parser,
+    parsedContent: document.parsedContent,
+  }
+}
+
+async function prepareBaseline({ baselineDocumentId, baselineText, baselineElements }: AnalysisRequest): Promise<string | undefined> {
+  if (baselineDocumentId) {
+    if (!(await getDocument(baselineDocumentId))) {
+      throw new AnalysisRequestError("Baseline document not found. Please upload it again.", 404)
+    }
+    return baselineDocumentId
+  }
+  if (!baselineText) return undefined
+
+  const document = await saveTextDocument("Baseline NDA", "baselineNda", {
+    text: baselineText,
+    html: "",
+    elements: baselineElements ?? [],
+    pages: 0,
+  })
+  return document.id
+}
+
+/**
+ * Checks that the referenced documents, round and matter exist. Raw texts are
+ * stored as text-only documents so the analysis can run from ids alone.
+ */
+export async function prepareAnalysis(request: AnalysisRequest): Promise<PreparedAnalysis> {
+  const { referenceDocumentId, customerDocumentId, referenceText, customerText, previousAnalysisId, matterId } = request
+
+  // A previous analysis id makes this a new negotiation round of the same matter
+  if (previousAnalysisId && !(await getAnalysis(previousAnalysisId))) {
+    throw new AnalysisRequestError("Previous round not found", 404)
+  }
+  if (matterId && !(await getMatter(matterId))) {
+    throw new AnalysisRequestError("Matter not found", 404)
+  }
+
+  if (referenceDocumentId || customerDocumentId) {
+    const referenceDocument = referenceDocumentId ? await getDocument(referenceDocumentId) : null
+    const customerDocument = customerDocumentId ? await getDocument(customerDocumentId) : null
+    if (!referenceDocument || !customerDocument) {
+      throw new AnalysisRequestError("Uploaded document not found. Please upload it again.", 404)
+    }
+    return {
+      referenceDocumentId: referenceDocument.id,
+      customerDocumentId: customerDocument.id,
+      baselineDocumentId: await prepareBaseline(request),
+      previousAnalysisId,
+      matterId,
+    }
+  }
+
+  if (!referenceText || !customerText) {
+    throw new AnalysisRequestError("Both reference and customer NDA texts are required", 400)
+  }
+  const referenceDocument = await saveTextDocument("Reference NDA", "referenceNda", {
+    text: referenceText,
+    html: "",
+    elements: request.referenceElements ?? [],
+    pages: 0,
+  })
+  const customerDocument = await saveTextDocument("Customer NDA", "customerNda", {
+    text: customerText,
+    html: "",
+    elements: request.customerElements ?? [],
+    pages: 0,
+  })
+  return {
+    referenceDocumentId: referenceDocument.id,
+    customerDocumentId: customerDocument.id,
+    baselineDocumentId: await prepareBaseline(request),
+    previousAnalysisId,
+    matterId,
+  }
+}
+
+function toAnalysisDocument(document: StoredDocument): AnalysisDocument {
+  return {
+    text: document.parsedContent.text || document.parsedContent.html,
+    elements: document.parsedContent.elements,
+  }
+}
+
+/**
+ * Runs the LLM analysis (or the local fallback when enabled), evaluates the
+ * playbook, extracts the key terms of each NDA and saves the result. Throws
+ * an AnalysisError when the provider fails and no fallback is configured.
+ * `onFinding` receives sections and risks as the provider streams them; the
+ * saved result is authoritative.
+ * With a baseline document the customer NDA is also analyzed against the
+ * baseline and the two results are combined into a three-way comparison.
+ */
+export async function runAnalysis(
+  prepared: PreparedAnalysis,
+  onProgress: ProgressReporter = () => {},
+  onFinding?: (finding: AnalysisFinding) => void
+): Promise<AnalysisOutcome> {
+  const [referenceDocument, customerDocument, baselineDocument] = await Promise.all([
+    getDocument(prepared.referenceDocumentId),
+    getDocument(prepared.customerDocumentId),
+    prepared.baselineDocumentId ? getDocument(prepared.baselineDocumentId) : null,
+  ])
+  if (!referenceDocument || !customerDocument || (prepared.baselineDocumentId && !baselineDocument)) {
+    throw new AnalysisRequestError("Uploaded document not found. Please upload it again.", 404)
+  }
+
+  const reference = toAnalysisDocument(referenceDocument)
+  const customer = toAnalysisDocument(customerDocument)
+  const baseline = baselineDocument ? toAnalysisDocument(baselineDocument) : null
+  const playbook = await getPlaybook()
+  let result: AnalysisResult
+
+  try {
+    // Use the configured LLM provider for analysis
+    const provider = getLLMProvider()
+    const budget = getAnalysisBudget()
+    onProgress(10, "Comparing sections and clauses")
+
+    // An identical pair analyzed with the same model, prompt and budget reuses the cached result
+    const analyzePair = (against: AnalysisDocument, listeners: AnalysisListeners) => {
+      const key = hashContent(
+        "analysis",
+        JSON.stringify(against),
+        JSON.stringify(customer),
+        provider.name,
+        provider.model,
+        ANALYSIS_PROMPT_VERSION,
+        JSON.stringify(budget)
+      )
+      return withCache(key, () => analyzeNdaDocuments(against, customer, provider, budget, listeners))
+    }
+
+    const span = baseline ? 35 : 70
+    const ours = await analyzePair(reference, {
+      onBatchComplete: (completed, total) =>
+        onProgress(10 + Math.round((span * completed) / total), `Analyzed part ${completed} of ${total}`),
+      onFinding,
+    })
+    const { batches: ourBatches, ...ourAnalysis } = ours.value
+    let analysis: AnalysisResult = ourAnalysis
+    let batches = ourBatches
+    let cached = ours.cached
+
+    if (baseline) {
+      const market = await analyzePair(baseline, {
+        onBatchComplete: (completed, total) =>
+          onProgress(45 + Math.round((35 * completed) / total), `Compared part ${completed} of ${total} with the market baseline`),
+      })
+      analysis = addBaselineComparison(ourAnalysis, market.value)
+      batches += market.value.batches
+      cached = cached && market.cached
+    }
+    // A failed playbook evaluation falls back to the local one instead of discarding the finished analysis
+    onProgress(85, "Evaluating the playbook")
+    const customerClauses = analysis.clauses?.customer ?? []
+    const playbookEvaluations = await evaluatePlaybook(customerClauses, playbook, provider).catch((playbookError) => {
+      console.error("Error evaluating playbook:", playbookError)
+      return evaluatePlaybookLocally(customerClauses, playbook)
+    })
+
+    // Key terms depend on one document only, so a reference template is extracted once per model and prompt.
+    // A document whose extraction fails gets the pattern-based key terms and the analysis is kept
+    onProgress(90, "Extracting key terms")
+    const extractTerms = async (document: AnalysisDocument) => {
+      const key = hashContent("key-terms", JSON.stringify(document), provider.name, provider.model, KEY_TERMS_PROMPT_VERSION)
+      try {
+        return (await withCache(key, () => extractKeyTerms(document, provider, budget.maxInputTokens))).value
+      } catch (keyTermsError) {
+        console.error("Error extracting key terms:", keyTermsError)
+        return extractKeyTermsLocally(document)
+      }
+    }
+    const [referenceTerms, customerTerms, baselineTerms] = await Promise.all([
+      extractTerms(reference),
+      extractTerms(customer),
+      baseline ? extractTerms(baseline) : undefined,
+    ])
+
+    result = {
+      ...analysis,
+      keyTerms: { reference: referenceTerms, customer: customerTerms, baseline: baselineTerms },
+      playbook: playbookEvaluations,
+      provenance: {
+        provider: provider.name,
+        model: provider.model,
+        mode: "llm",
+        degraded: false,
+        batches,
+        cached,
+        generatedAt: new Date().toISOString()
+      }
+    }
+
+  } catch (analysisError) {
+    console.error("Error analyzing with LLM provider:", analysisError)
+    const error = toAnalysisError(analysisError)
+
+    // Only fall back when explicitly enabled, and always flag the result as degraded
+    if (process.env.ANALYSIS_FALLBACK !== "local") {
+      throw error
+    }
+
+    const local = analyzeLocally(reference, customer)
+    const analysis = baseline ? addBaselineComparison(local, analyzeLocally(baseline, customer)) : local
+    result = {
+      ...analysis,
+      keyTerms: {
+        reference: extractKeyTermsLocally(reference),
+        customer: extractKeyTermsLocally(customer),
+        baseline: baseline ? extractKeyTermsLocally(baseline) : undefined,
+      },
+      playbook: evaluatePlaybookLocally(analysis.clauses?.customer ?? [], playbook),
+      provenance: {
+        provider: "local",
+        model: "text-overlap",
+        mode: "local-fallback",
+        degraded: true,
+        reason: `${error.code}: ${error.message}`,
+        generatedAt: new Date().toISOString()
+      }
+    }
+  }
+
+  onProgress(95, "Saving the analysis")
+  const stored = await saveAnalysis(referenceDocument.id, customerDocument.id, result, {
+    baselineDocumentId: baselineDocument?.id,
+    templateVersion: (await findTemplateVersion(referenceDocument)) ?? undefined,
+    rerunOf: prepared.rerunOf,
+  })
+  const round = prepared.previousAnalysisId
+    ? await addNegotiationRound(prepared.previousAnalysisId, stored.id)
+    : prepared.matterId ? await addAnalysisToMatter(prepared.matterId, stored.id) : null
+
+  return { id: stored.id, ...result, matterId: round?.matterId ?? null, round: round?.round ?? null }
+}
@@ -0,0 +1,340 @@
+import type { AnalysisApproval } from "@/lib/approvals"
+import type { ParsedDocument } from "@/lib/document-parser"
+import type { AnalysisResult, RiskLevel } from "@/lib/nda-analysis"
+import { getReviewProgress, type ReviewStatus, type RiskDecision } from "@/lib/risk-decisions"
+import { createId, createJsonCollection } from "@/lib/storage"
+
+/** A baseline NDA is a market-standard document, e.g. a public model NDA, used in three-way comparisons. */
+export type DocumentType = "referenceNda" | "customerNda" | "baselineNda"
+
+export interface StoredDocument {
+  id: string
+  fileName: string
+  fileSize: number
+  mimeType: string
+  documentType: DocumentType
+  /** Parser that produced `parsedContent`, e.g. "upstage" or "local". */
+  parser: string
+  parsedContent: ParsedDocument
+  /** Set on reference templates; such documents are kept when the analyses using them are deleted. */
+  templateId?: string
+  uploadedAt: string
+}
+
+/** Replacement wording a reviewer picked for one risk, to be sent back to the customer. */
+export interface CounterProposalClause {
+  id: string
+  /** The risk's section, which identifies the customer clause being replaced. */
+  section: string
+  riskTitle: string
+  text: string
+  /** Set when the wording came from the clause library. */
+  libraryClauseId?: string
+  addedAt: string
+}
+
+/** A report or marked-up NDA downloaded from an analysis. */
+export interface AnalysisExport {
+  kind: "report_pdf" | "report_docx" | "markup_docx"
+  fileName: string
+  exportedAt: string
+}
+
+/** The reference template version an analysis was run against, as it was named at the time. */
+export interface AnalysisTemplateVersion {
+  templateId: string
+  templateName: string
+  versionNumber: number
+  versionLabel: string
+  effectiveDate: string | null
+}
+
+export interface StoredAnalysis {
+  id: string
+  referenceDocumentId: string
+  customerDocumentId: string
+  /** Set on three-way comparisons. */
+  baselineDocumentId?: string
+  result: AnalysisResult
+  counterProposal?: CounterProposalClause[]
+  decisions?: RiskDecision[]
+  approval?: AnalysisApproval
+  exports?: AnalysisExport[]
+  /** Set when the analysis is one negotiation round of a matter; rounds count from 1. */
+  matterId?: string
+  round?: number
+  /** Set when the reference NDA was a saved template version. */
+  templateVersion?: AnalysisTemplateVersion
+  /** Set when the analysis re-ran an earlier analysis's customer NDA against another template version. */
+  rerunOf?: string
+  createdAt: string
+}
+
+/** List entry for the history page; the full record is fetched on open. */
+export interface AnalysisListItem {
+  id: string
+  referenceFileName: string
+  customerFileName: string
+  overallRisk: RiskLevel
+  riskCount: number
+  highRiskCount: number
+  degraded: boolean
+  reviewStatus: ReviewStatus
+  approvalStatus: AnalysisApproval["status"] | null
+  matterId: string | null
+  round: number | null
+  templateVersion: AnalysisTemplateVersion | null
+  createdAt: string
+}
+
+/** An analysis with both documents, in the shape the comparison views render. */
+export interface AnalysisDetail {
+  id: string
+  createdAt: string
+  analysisResult: AnalysisResult
+  counterProposal: CounterProposalClause[]
+  decisions: RiskDecision[]
+  approval: AnalysisApproval | null
+  matterId: string | null
+  round: number | null
+  templateVersion: AnalysisTemplateVersion | null
+  rerunOf: string | null
+  referenceNda: Omit<StoredDocument, "mimeType" | "parser" | "uploadedAt">
+  customerNda: Omit<StoredDocument, "mimeType" | "parser" | "uploadedAt">
+  baselineNda: Omit<StoredDocument, "mimeType" | "parser" | "uploadedAt"> | null
+}
+
+const documents = createJsonCollection<StoredDocument>("documents")
+const analyses = createJsonCollection<StoredAnalysis>("analyses")
+
+/** Stores the original upload next to its parsed content. */
+export async function saveDocument(
+  file: File,
+  documentType: DocumentType,
+  parser: string,
+  parsedContent: ParsedDocument
+): Promise<StoredDocument> {
+  const document: StoredDocument = {
+    id: createId(),
+    fileName: file.name,
+    fileSize: file.size,
+    mimeType: file.type,
+    documentType,
+    parser,
+    parsedContent,
+    uploadedAt: new Date().toISOString(),
+  }
+
+  await documents.putBlob(document.id, new Uint8Array(await file.arrayBuffer()))
+  return documents.put(document)
+}
+
+/** Stores a document that arrived as text only, without an original file. */
+export async function saveTextDocument(fileName: string, documentType: DocumentType, parsedContent: ParsedDocument): Promise<StoredDocument> {
+  return documents.put({
+    id: createId(),
+    fileName,
+    fileSize: parsedContent.text.length,
+    mimeType: "text/plain",
+    documentType,
+    parser: "text",
+    parsedContent,
+    uploadedAt: new Date().toISOString(),
+  })
+}
+
+export function getDocument(id: string): Promise<StoredDocument | null> {
+  return documents.get(id)
+}
+
+/** Marks a document as a version of a reference template, or releases it when `templateId` is null. */
+export async function setDocumentTemplate(id: string, templateId: string | null): Promise<void> {
+  const document = await documents.get(id)
+  if (!document) return
+
+  if (templateId) {
+    await documents.put({ ...document, templateId })
+    return
+  }
+
+  // A released template version is deleted unless an analysis still refers to it
+  const inUse = (await analyses.list()).some((record) => analysisDocumentIds(record).includes(id))
+  if (inUse) {
+    await documents.put({ ...document, templateId: undefined })
+  } else {
+    await documents.delete(id)
+  }
+}
+
+/** Every document an analysis compares. */
+export function analysisDocumentIds(analysis: StoredAnalysis): string[] {
+  return [analysis.referenceDocumentId, analysis.customerDocumentId, ...(analysis.baselineDocumentId ? [analysis.baselineDocumentId] : [])]
+}
+
+export function getDocumentFile(id: string): Promise<Buffer | null> {
+  return documents.getBlob(id)
+}
+
+export function saveAnalysis(
+  referenceDocumentId: string,
+  customerDocumentId: string,
+  result: AnalysisResult,
+  origin: Pick<StoredAnalysis, "baselineDocumentId" | "templateVersion" | "rerunOf"> = {}
+): Promise<StoredAnalysis> {
+  return analyses.put({
+    id: createId(),
+    referenceDocumentId,
+    customerDocumentId,
+    result,
+    ...origin,
+    createdAt: new Date().toISOString(),
+  })
+}
+
+export function getAnalysis(id: string): Promise<StoredAnalysis | null> {
+  return analyses.get(id)
+}
+
+export async function getAnalysisDetail(id: string): Promise<AnalysisDetail | null> {
+  const analysis = await analyses.get(id)
+  if (!analysis) return null
+
+  const [reference, customer, baseline] = await Promise.all([
+    documents.get(analysis.referenceDocumentId),
+    documents.get(analysis.customerDocumentId),
+    analysis.baselineDocumentId ? documents.get(analysis.baselineDocumentId) : null,
+  ])
+  if (!reference || !customer) return null
+
+  const toView = ({ id, fileName, fileSize, documentType, parsedContent }: StoredDocument) =>
+    ({ id, fileName, fileSize, documentType, parsedContent })
+
+  return {
+    id: analysis.id,
+    createdAt: analysis.createdAt,
+    analysisResult: analysis.result,
+    counterProposal: analysis.counterProposal ?? [],
+    decisions: analysis.decisions ?? [],
+    approval: analysis.approval ?? null,
+    matterId: analysis.matterId ?? null,
+    round: analysis.round ?? null,
+    templateVersion: analysis.templateVersion ?? null,
+    rerunOf: analysis.rerunOf ?? null,
+    referenceNda: toView(reference),
+    customerNda: toView(customer),
+    baselineNda: baseline ? toView(baseline) : null,
+  }
+}
+
+/** Applies `change` to the stored analysis; see `JsonCollection.update`. Resolves to null when it does not exist. */
+export function updateAnalysis(
+  id: string,
+  change: (analysis: StoredAnalysis) => StoredAnalysis | Promise<StoredAnalysis>
+): Promise<StoredAnalysis | null> {
+  return analyses.update(id, change)
+}
+
+/**
+ * Adds wording to the analysis's counter-proposal. Each risk section holds one
+ * proposal, so inserting again for the same section replaces the earlier text.
+ */
+export async function addCounterProposalClause(
+  analysisId: string,
+  clause: Omit<CounterProposalClause, "id" | "addedAt">
+): Promise<CounterProposalClause[] | null> {
+  const analysis = await analyses.update(analysisId, (current) => ({
+    ...current,
+    counterProposal: [
+      ...(current.counterProposal ?? []).filter((existing) => existing.section !== clause.section),
+      { ...clause, id: createId(), addedAt: new Date().toISOString() },
+    ],
+  }))
+  return analysis?.counterProposal ?? null
+}
+
+export async function removeCounterProposalClause(analysisId: string, clauseId: string): Promise<CounterProposalClause[] | null> {
+  const analysis = await analyses.update(analysisId, (current) => ({
+    ...current,
+    counterProposal: (current.counterProposal ?? []).filter((clause) => clause.id !== clauseId),
+  }))
+  return analysis?.counterProposal ?? null
+}
+
+/** Records or replaces the decision on one risk; a null decision clears it. */
+export async function setRiskDecision(
+  analysisId: string,
+  riskIndex: number,
+  decision: Omit<RiskDecision, "riskIndex" | "decidedAt"> | null
+): Promise<RiskDecision[] | null> {
+  const analysis = await analyses.update(analysisId, (current) => {
+    const decisions = (current.decisions ?? []).filter((existing) => existing.riskIndex !== riskIndex)
+    if (decision) {
+      decisions.push({ ...decision, riskIndex, decidedAt: new Date().toISOString() })
+      decisions.sort((a, b) => a.riskIndex - b.riskIndex)
+    }
+    return { ...current, decisions }
+  })
+  return analysis?.decisions ?? null
+}
+
+export async function recordExport(analysisId: string, kind: AnalysisExport["kind"], fileName: string): Promise<void> {
+  await analyses.update(analysisId, (current) => ({
+    ...current,
+    exports: [...(current.exports ?? []), { kind, fileName, exportedAt: new Date().toISOString() }],
+  }))
+}
+
+export function listStoredAnalyses(): Promise<StoredAnalysis[]> {
+  return analyses.list()
+}
+
+export async function listAnalyses(): Promise<AnalysisListItem[]> {
+  const records = await analyses.list()
+  const fileNames = new Map<string, string>()
+
+  const fileName = async (documentId: string) => {
+    if (!fileNames.has(documentId)) {
+      fileNames.set(documentId, (await documents.get(documentId))?.fileName ?? "Deleted document")
+    }
+    return fileNames.get(documentId)!
+  }
+
+  const items = await Promise.all(records.map(async (record) => ({
+    id: record.id,
+    referenceFileName: await fileName(record.referenceDocumentId),
+    customerFileName: await fileName(record.customerDocumentId),
+    overallRisk: record.result.summary.overallRisk,
+    riskCount: record.result.risks.length,
+    highRiskCount: record.result.risks.filter((risk) => risk.severity === "high").length,
+    degraded: Boolean(record.result.provenance?.degraded),
+    reviewStatus: getReviewProgress(record.result.risks.length, record.decisions ?? []).status,
+    approvalStatus: record.approval?.status ?? null,
+    matterId: record.matterId ?? null,
+    round: record.round ?? null,
+    templateVersion: record.templateVersion ?? null,
+    createdAt: record.createdAt,
+  })))
+
+  return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Deletes an analysis and any of its documents that no other analysis uses.
+ * Returns false when the analysis does not exist.
+ */
+export async function deleteAnalysis(id: string): Promise<boolean> {
+  const analysis = await analyses.get(id)
+  if (!analysis || !(await analyses.delete(id))) {
+    return false
+  }
+
+  const remaining = await analyses.list()
+  const inUse = new Set(remaining.flatMap(analysisDocumentIds))
+  for (const documentId of analysisDocumentIds(analysis)) {
+    if (!inUse.has(documentId) && !(await documents.get(documentId))?.templateId) {
+      await documents.delete(documentId)
+    }
+  }
+
+  return true
+}
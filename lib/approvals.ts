@@ -0,0 +1,244 @@
+import { getDocument, listStoredAnalyses, updateAnalysis, type StoredAnalysis } from "@/lib/analysis-store"
+import { ApprovalError } from "@/lib/errors"
+import type { AnalysisResult, RiskLevel } from "@/lib/nda-analysis"
+import { getReviewProgress } from "@/lib/risk-decisions"
+import { createJsonCollection } from "@/lib/storage"
+
+/**
+ * When a rule applies. "overall_risk" matches the analysis's overall risk;
+ * "risk" matches any single risk of the given severities, optionally only in
+ * sections whose name contains `section` (case-insensitive).
+ */
+export type ApprovalCondition =
+  | { type: "overall_risk"; levels: RiskLevel[] }
+  | { type: "risk"; severities: RiskLevel[]; section?: string }
+
+/** Sign-off required from `approver` when any of the conditions matches. */
+export interface ApprovalRule {
+  id: string
+  name: string
+  approver: string
+  conditions: ApprovalCondition[]
+}
+
+export interface ApprovalRuleSet {
+  id: string
+  rules: ApprovalRule[]
+  updatedAt: string
+}
+
+export type ApprovalDecision = "approved" | "rejected"
+
+export interface ApprovalRequirement {
+  ruleId: string
+  ruleName: string
+  approver: string
+  /** Why the rule matched, e.g. "Overall risk is high". */
+  reasons: string[]
+  status: "pending" | ApprovalDecision
+  decidedBy?: string
+  comment?: string
+  decidedAt?: string
+}
+
+/**
+ * Sign-off state recorded on an analysis. It is final, and the analysis is
+ * locked, once every requirement is approved or any one is rejected.
+ */
+export interface AnalysisApproval {
+  status: "pending" | ApprovalDecision
+  requirements: ApprovalRequirement[]
+  requestedAt: string
+  lockedAt?: string
+}
+
+export interface ApprovalQueueItem {
+  analysisId: string
+  referenceFileName: string
+  customerFileName: string
+  overallRisk: RiskLevel
+  requirement: ApprovalRequirement
+  requestedAt: string
+}
+
+const RISK_LEVELS: RiskLevel[] = ["low", "medium", "high"]
+
+export const DEFAULT_APPROVAL_RULES: ApprovalRuleSet = {
+  id: "default",
+  updatedAt: new Date(0).toISOString(),
+  rules: [
+    {
+      id: "legal",
+      name: "Legal review",
+      approver: "Legal",
+      conditions: [{ type: "overall_risk", levels: ["medium", "high"] }],
+    },
+    {
+      id: "general_counsel",
+      name: "General Counsel sign-off",
+      approver: "General Counsel",
+      conditions: [
+        { type: "overall_risk", levels: ["high"] },
+        { type: "risk", severities: ["high"], section: "Governing Law" },
+      ],
+    },
+    {
+      id: "security",
+      name: "Security review",
+      approver: "Security",
+      conditions: [{ type: "risk", severities: ["medium", "high"], section: "Security" }],
+    },
+  ],
+}
+
+const ruleSets = createJsonCollection<ApprovalRuleSet>("approval-rules")
+
+export async function getApprovalRules(): Promise<ApprovalRuleSet> {
+  return (await ruleSets.get(DEFAULT_APPROVAL_RULES.id)) ?? DEFAULT_APPROVAL_RULES
+}
+
+export async function saveApprovalRules(rules: ApprovalRule[]): Promise<ApprovalRuleSet> {
+  return ruleSets.put({ id: DEFAULT_APPROVAL_RULES.id, rules, updatedAt: new Date().toISOString() })
+}
+
+/** Returns a list of problems, empty when the payload is a valid rule list. */
+export function validateApprovalRules(value: unknown): string[] {
+  if (!Array.isArray(value)) return ["rules must be an array"]
+
+  const problems: string[] = []
+  const seen = new Set<string>()
+  value.forEach((rule: Partial<ApprovalRule> | null, index) => {
+    const label = `rules[${index}]`
+    if (!rule || typeof rule.id !== "string" || !/^[a-z0-9_]+$/.test(rule.id)) {
+      problems.push(`${label}.id must use lowercase letters, digits and underscores`)
+    } else if (seen.has(rule.id)) {
+      problems.push(`${label}.id "${rule.id}" is duplicated`)
+    } else {
+      seen.add(rule.id)
+    }
+    if (typeof rule?.name !== "string" || !rule.name.trim()) problems.push(`${label}.name is required`)
+    if (typeof rule?.approver !== "string" || !rule.approver.trim()) problems.push(`${label}.approver is required`)
+    if (!Array.isArray(rule?.conditions) || rule.conditions.length === 0) {
+      problems.push(`${label}.conditions must be a non-empty array`)
+      return
+    }
+    rule.conditions.forEach((condition, conditionIndex) => {
+      const conditionLabel = `${label}.conditions[${conditionIndex}]`
+      const levels = condition?.type === "overall_risk" ? condition.levels : condition?.type === "risk" ? condition.severities : null
+      if (!levels) {
+        problems.push(`${conditionLabel}.type must be overall_risk or risk`)
+      } else if (!Array.isArray(levels) || levels.length === 0 || levels.some((level) => !RISK_LEVELS.includes(level))) {
+        problems.push(`${conditionLabel} must list at least one of ${RISK_LEVELS.join(", ")}`)
+      }
+      if (condition?.type === "risk" && condition.section !== undefined && typeof condition.section !== "string") {
+        problems.push(`${conditionLabel}.section must be a string`)
+      }
+    })
+  })
+
+  return problems
+}
+
+/** Rules that apply to an analysis, with the reasons each one matched. */
+export function evaluateApprovalRules(result: AnalysisResult, rules: ApprovalRule[]): Array<Pick<ApprovalRequirement, "ruleId" | "ruleName" | "approver" | "reasons">> {
+  return rules
+    .map((rule) => {
+      const reasons = rule.conditions.flatMap((condition) => {
+        if (condition.type === "overall_risk") {
+          return condition.levels.includes(result.summary.overallRisk) ? [`Overall risk is ${result.summary.overallRisk}`] : []
+        }
+        const section = condition.section?.trim().toLowerCase()
+        return result.risks
+          .filter((risk) => condition.severities.includes(risk.severity))
+          .filter((risk) => !section || risk.section.toLowerCase().includes(section) || risk.title.toLowerCase().includes(section))
+          .map((risk) => `${risk.severity[0].toUpperCase()}${risk.severity.slice(1)}-severity risk in ${risk.section}: ${risk.title}`)
+      })
+      return { ruleId: rule.id, ruleName: rule.name, approver: rule.approver, reasons: Array.from(new Set(reasons)) }
+    })
+    .filter((requirement) => requirement.reasons.length > 0)
+}
+
+/** Decisions and the counter-proposal are frozen once sign-off has been requested. */
+export function isReviewLocked(analysis: Pick<StoredAnalysis, "approval">): boolean {
+  return Boolean(analysis.approval)
+}
+
+/**
+ * Routes a fully reviewed analysis to the approvers its rules require. When
+ * no rule applies the analysis is approved and locked straight away.
+ */
+export async function requestApproval(analysisId: string): Promise<AnalysisApproval> {
+  const rules = (await getApprovalRules()).rules
+  // Checked inside the update so a concurrent request or decision cannot slip in between
+  const analysis = await updateAnalysis(analysisId, (current) => {
+    if (current.approval) throw new ApprovalError("Sign-off has already been requested", 409)
+
+    const progress = getReviewProgress(current.result.risks.length, current.decisions ?? [])
+    if (progress.decided < progress.total) {
+      throw new ApprovalError(`Record a decision on every risk before requesting sign-off (${progress.decided} of ${progress.total} decided)`, 409)
+    }
+
+    const now = new Date().toISOString()
+    const requirements = evaluateApprovalRules(current.result, rules)
+      .map((requirement): ApprovalRequirement => ({ ...requirement, status: "pending" }))
+    const approval: AnalysisApproval = requirements.length > 0
+      ? { status: "pending", requirements, requestedAt: now }
+      : { status: "approved", requirements, requestedAt: now, lockedAt: now }
+    return { ...current, approval }
+  })
+  if (!analysis?.approval) throw new ApprovalError("Analysis not found", 404)
+  return analysis.approval
+}
+
+export async function decideApproval(
+  analysisId: string,
+  ruleId: string,
+  decision: { status: ApprovalDecision; decidedBy: string; comment: string }
+): Promise<AnalysisApproval> {
+  // Checked inside the update so two approvers deciding at once both count
+  const analysis = await updateAnalysis(analysisId, (current) => {
+    if (!current.approval) throw new ApprovalError("Sign-off has not been requested", 409)
+    if (current.approval.lockedAt) throw new ApprovalError(`Sign-off is final: the analysis was ${current.approval.status}`, 409)
+
+    const requirement = current.approval.requirements.find((entry) => entry.ruleId === ruleId)
+    if (!requirement) throw new ApprovalError("Approval requirement not found", 404)
+    if (requirement.status !== "pending") throw new ApprovalError(`${requirement.approver} has already ${requirement.status} this analysis`, 409)
+
+    const now = new Date().toISOString()
+    const requirements = current.approval.requirements.map((entry) =>
+      entry.ruleId === ruleId ? { ...entry, ...decision, decidedAt: now } : entry
+    )
+    const status = requirements.some((entry) => entry.status === "rejected")
+      ? "rejected"
+      : requirements.every((entry) => entry.status === "approved") ? "approved" : "pending"
+    return {
+      ...current,
+      approval: { ...current.approval, status, requirements, lockedAt: status === "pending" ? undefined : now },
+    }
+  })
+  if (!analysis?.approval) throw new ApprovalError("Analysis not found", 404)
+  return analysis.approval
+}
+
+/** Pending sign-offs across all analyses, oldest request first. */
+export async function listApprovalQueue(): Promise<ApprovalQueueItem[]> {
+  const pending = (await listStoredAnalyses()).filter((analysis) => analysis.approval?.status === "pending")
+  const fileName = async (documentId: string) => (await getDocument(documentId))?.fileName ?? "Deleted document"
+
+  const items = await Promise.all(pending.map(async ({ id, referenceDocumentId, customerDocumentId, result, approval }) => {
+    const referenceFileName = await fileName(referenceDocumentId)
+    const customerFileName = await fileName(customerDocumentId)
+    return approval!.requirements
+      .filter((requirement) => requirement.status === "pending")
+      .map((requirement) => ({
+        analysisId: id,
+        referenceFileName,
+        customerFileName,
+        overallRisk: result.summary.overallRisk,
+        requirement,
+        requestedAt: approval!.requestedAt,
+      }))
+  }))
+
+  return items.flat().sort((a, b) => a.requestedAt.localeCompare(b.requestedAt))
+}
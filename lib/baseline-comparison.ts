@@ -0,0 +1,80 @@
+import { isSameSection } from "@/lib/clause-align"
+import type { AnalysisResult, AnalysisRisk, AnalysisSection, RiskDeviation } from "@/lib/nda-analysis"
+
+export const RISK_DEVIATION_LABELS: Record<RiskDeviation, string> = {
+  ours: "Deviates from ours only",
+  market: "Deviates from market only",
+  both: "Deviates from ours and market",
+}
+
+// The baseline run analyzes the baseline as its reference, so its clause ids are renamed to stay apart from ours
+function toBaselineId(id: string): string {
+  return id.replace(/^ref-/, "base-")
+}
+
+// Both runs segment the same customer NDA, so customer clause ids identify a clause across them
+function riskClauseIds(risk: AnalysisRisk, sections: AnalysisSection[]): string[] {
+  return sections
+    .filter((section) => isSameSection(section.title, risk.section))
+    .flatMap((section) => section.customerClauseIds ?? [])
+}
+
+function sameClause(a: { risk: AnalysisRisk; clauseIds: string[] }, b: { risk: AnalysisRisk; clauseIds: string[] }): boolean {
+  if (a.clauseIds.length > 0 && b.clauseIds.length > 0) {
+    return a.clauseIds.some((id) => b.clauseIds.includes(id))
+  }
+  return isSameSection(a.risk.section, b.risk.section)
+}
+
+/**
+ * Combines the analysis against our reference NDA with the analysis of the
+ * same customer NDA against a market baseline. Sections keep our comparison
+ * and gain the matching baseline clauses; each risk is labelled by which
+ * documents the customer clause deviates from. Risks found only against the
+ * baseline are appended. The summary stays the one against our reference.
+ */
+export function addBaselineComparison(ours: AnalysisResult, market: AnalysisResult): AnalysisResult {
+  const marketSections = market.sections.map((section) => ({
+    ...section,
+    referenceClauseIds: (section.referenceClauseIds ?? []).map(toBaselineId),
+  }))
+
+  const sections = ours.sections.map((section) => {
+    const customerIds = section.customerClauseIds ?? []
+    // Names are only compared when a side has no linked clauses, so unrelated sections with similar names stay apart
+    const counterpart =
+      marketSections.find((entry) => entry.customerClauseIds?.some((id) => customerIds.includes(id))) ??
+      marketSections.find((entry) =>
+        (customerIds.length === 0 || (entry.customerClauseIds ?? []).length === 0) && isSameSection(entry.title, section.title)
+      )
+
+    return {
+      ...section,
+      baselineClauseIds: counterpart?.referenceClauseIds ?? [],
+      baselineMatch: counterpart?.match,
+    }
+  })
+
+  const ourRisks = ours.risks.map((risk) => ({ risk, clauseIds: riskClauseIds(risk, ours.sections) }))
+  const marketRisks = market.risks.map((risk) => ({ risk, clauseIds: riskClauseIds(risk, market.sections) }))
+
+  const risks: AnalysisRisk[] = [
+    ...ourRisks.map((entry) => ({
+      ...entry.risk,
+      deviation: marketRisks.some((other) => sameClause(entry, other)) ? "both" as const : "ours" as const,
+    })),
+    ...marketRisks
+      .filter((entry) => !ourRisks.some((other) => sameClause(entry, other)))
+      .map((entry) => ({ ...entry.risk, deviation: "market" as const })),
+  ]
+
+  return {
+    ...ours,
+    sections,
+    risks,
+    clauses: ours.clauses && {
+      ...ours.clauses,
+      baseline: (market.clauses?.reference ?? []).map((clause) => ({ ...clause, id: toBaselineId(clause.id) })),
+    },
+  }
+}
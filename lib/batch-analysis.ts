@@ -0,0 +1,83 @@
+import JSZip from "jszip"
+import type { AnalysisResult, RiskLevel } from "@/lib/nda-analysis"
+
+export type BatchItemStatus = "queued" | "uploading" | "analyzing" | "done" | "failed"
+
+/** One customer NDA in a batch run against a single reference NDA. */
+export interface BatchItem {
+  id: string
+  file: File
+  status: BatchItemStatus
+  /** Progress message of the running parse or analysis job. */
+  message?: string
+  error?: string
+  analysisId?: string
+  overallRisk?: RiskLevel
+  riskCount?: number
+  highRiskCount?: number
+  /** Mean `match` over the analysis sections, 0-100. */
+  averageMatch?: number | null
+  degraded?: boolean
+}
+
+export type BatchSortKey = "fileName" | "overallRisk" | "highRiskCount" | "averageMatch"
+
+const NDA_FILE_PATTERN = /\.(pdf|docx?)$/i
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+}
+
+export function isNdaFile(fileName: string): boolean {
+  return NDA_FILE_PATTERN.test(fileName)
+}
+
+/** NDA files unpacked from a ZIP archive, and the names of the other files it held. */
+export interface ExtractedNdaFiles {
+  files: File[]
+  skipped: string[]
+}
+
+/** PDF, DOC and DOCX files in a ZIP archive; folders and macOS metadata are ignored, other files reported as skipped. */
+export async function extractNdaFiles(archive: Blob): Promise<ExtractedNdaFiles> {
+  const zip = await JSZip.loadAsync(archive)
+  const entries = Object.values(zip.files).filter((entry) => {
+    const name = entry.name.split("/").pop() ?? ""
+    return !entry.dir && !entry.name.startsWith("__MACOSX/") && !name.startsWith(".")
+  })
+  const ndaEntries = entries.filter((entry) => isNdaFile(entry.name))
+
+  const files = await Promise.all(ndaEntries.map(async (entry) => {
+    const name = entry.name.split("/").pop()!
+    const extension = name.split(".").pop()!.toLowerCase()
+    return new File([await entry.async("blob")], name, { type: MIME_TYPES[extension] })
+  }))
+  return { files, skipped: entries.filter((entry) => !isNdaFile(entry.name)).map((entry) => entry.name) }
+}
+
+export function averageSectionMatch(result: Pick<AnalysisResult, "sections">): number | null {
+  if (result.sections.length === 0) return null
+  return Math.round(result.sections.reduce((sum, section) => sum + section.match, 0) / result.sections.length)
+}
+
+const RISK_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 }
+
+/** Sorts a copy of the items; unfinished items always sort last. */
+export function sortBatchItems(items: BatchItem[], key: BatchSortKey, direction: "asc" | "desc"): BatchItem[] {
+  const value = (item: BatchItem): number | string | null => {
+    if (key === "fileName") return item.file.name.toLowerCase()
+    if (item.status !== "done") return null
+    if (key === "overallRisk") return item.overallRisk ? RISK_RANK[item.overallRisk] : null
+    return item[key] ?? null
+  }
+  const sign = direction === "asc" ? 1 : -1
+
+  return [...items].sort((a, b) => {
+    const left = value(a)
+    const right = value(b)
+    if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1
+    return (left < right ? -1 : left > right ? 1 : 0) * sign
+  })
+}
@@ -0,0 +1,320 @@
+import type { DocumentElement } from "@/lib/document-parser"
+import type { ChatMessage, LLMProvider } from "@/lib/llm-providers"
+import { alignClauses, linkSectionsToClauses, segmentClauses, type Clause } from "@/lib/clause-align"
+import { hashContent } from "@/lib/content-cache"
+import { createArrayItemReader } from "@/lib/json-stream"
+import {
+  analyzeNdas,
+  buildAnalysisMessages,
+  completeJson,
+  NDA_ANALYSIS_SCHEMA,
+  SYSTEM_PROMPT,
+  type AnalysisResult,
+  type AnalysisRisk,
+  type AnalysisSection,
+  type RiskLevel,
+} from "@/lib/nda-analysis"
+import { mapWithConcurrency } from "@/lib/utils"
+
+/** The parts of a parser element the pipeline needs; clients send only these. */
+export type AnalysisElement = Pick<DocumentElement, "category" | "page"> & {
+  content: { text: string }
+}
+
+export interface AnalysisDocument {
+  text: string
+  elements?: AnalysisElement[]
+}
+
+export interface AnalysisBudget {
+  /** Above this estimated prompt size the documents are analyzed in batches. */
+  maxInputTokens: number
+  /** Upper bound for the clause text sent in a single batch. */
+  batchTokens: number
+  /** Number of batches sent to the provider at the same time. */
+  maxConcurrency: number
+}
+
+/** A section comparison or risk reported while the analysis is still running. */
+export type AnalysisFinding =
+  | { type: "section"; section: AnalysisSection }
+  | { type: "risk"; risk: AnalysisRisk }
+
+export interface AnalysisListeners {
+  /** Called after each provider request with the number of requests completed so far. */
+  onBatchComplete?: (completed: number, total: number) => void
+  /** Called with each section (already linked to clauses) and risk as the provider streams it. */
+  onFinding?: (finding: AnalysisFinding) => void
+}
+
+interface ClausePair {
+  reference?: Clause
+  customer?: Clause
+}
+
+export function getAnalysisBudget(): AnalysisBudget {
+  return {
+    maxInputTokens: Number(process.env.ANALYSIS_MAX_INPUT_TOKENS) || 24000,
+    batchTokens: Number(process.env.ANALYSIS_BATCH_TOKENS) || 6000,
+    maxConcurrency: Number(process.env.ANALYSIS_MAX_CONCURRENCY) || 2,
+  }
+}
+
+const WIDE_CHARACTER = /[\u1100-\u11ff\u3000-\u9fff\uac00-\ud7af]/
+
+/**
+ * Rough token estimate: one token per CJK/Hangul character and one per four
+ * characters of other text. It errs on the high side for English.
+ */
+export function estimateTokens(text: string): number {
+  const wideCharacters = (text.match(new RegExp(WIDE_CHARACTER.source, "g")) || []).length
+  return wideCharacters + Math.ceil((text.length - wideCharacters) / 4)
+}
+
+// Cuts text into consecutive pieces of at most maxTokens, measured the way estimateTokens counts
+function chunkByTokens(text: string, maxTokens: number): string[] {
+  const chunks: string[] = []
+  let start = 0
+  let wide = 0
+  let narrow = 0
+  for (let index = 0; index < text.length; index++) {
+    const isWide = WIDE_CHARACTER.test(text[index])
+    if (index > start && (isWide ? wide + 1 : wide) + Math.ceil((isWide ? narrow : narrow + 1) / 4) > maxTokens) {
+      chunks.push(text.slice(start, index))
+      start = index
+      wide = 0
+      narrow = 0
+    }
+    if (isWide) wide++
+    else narrow++
+  }
+  chunks.push(text.slice(start))
+  return chunks
+}
+
+// Joins pieces greedily into parts within the budget; a piece over the budget is first cut with `split`
+function packWithin(pieces: string[], separator: string, maxTokens: number, split: (piece: string) => string[]): string[] {
+  const parts: string[] = []
+  let buffer = ""
+  for (const piece of pieces.flatMap((piece) => (estimateTokens(piece) <= maxTokens ? [piece] : split(piece)))) {
+    if (buffer && estimateTokens(buffer + separator + piece) > maxTokens) {
+      parts.push(buffer)
+      buffer = ""
+    }
+    buffer = buffer ? buffer + separator + piece : piece
+  }
+  if (buffer) parts.push(buffer)
+  return parts
+}
+
+// Keeps every clause within one batch: oversized clauses are cut at paragraphs, then sentences,
+// then fixed-size chunks, and every piece becomes a "(part n)" clause so no text is dropped
+function splitOversizedClauses(clauses: Clause[], maxClauseTokens: number): Clause[] {
+  return clauses.flatMap((clause) => {
+    if (estimateTokens(clause.text) <= maxClauseTokens) return [clause]
+
+    const splitSentences = (paragraph: string) =>
+      packWithin(paragraph.split(/(?<=[.!?;。])\s+/), " ", maxClauseTokens, (sentence) => chunkByTokens(sentence, maxClauseTokens))
+    const parts = packWithin(clause.text.split(/\n+/).filter(Boolean), "\n", maxClauseTokens, splitSentences)
+
+    return parts.map((text, index) => ({ ...clause, heading: `${clause.heading} (part ${index + 1})`, text }))
+  })
+}
+
+function alignedPairs(reference: Clause[], customer: Clause[]): ClausePair[] {
+  const referenceById = new Map(reference.map((clause) => [clause.id, clause]))
+  const customerById = new Map(customer.map((clause) => [clause.id, clause]))
+
+  return alignClauses(reference, customer).map((entry) => ({
+    reference: entry.referenceId ? referenceById.get(entry.referenceId) : undefined,
+    customer: entry.customerId ? customerById.get(entry.customerId) : undefined,
+  }))
+}
+
+// Pairs a clause split into parts with the matching parts on the other side
+function splitPairs(pairs: ClausePair[], maxClauseTokens: number): ClausePair[] {
+  return pairs.flatMap((pair) => {
+    const referenceParts = pair.reference ? splitOversizedClauses([pair.reference], maxClauseTokens) : []
+    const customerParts = pair.customer ? splitOversizedClauses([pair.customer], maxClauseTokens) : []
+    return Array.from({ length: Math.max(referenceParts.length, customerParts.length) }, (_, index) => ({
+      reference: referenceParts[index],
+      customer: customerParts[index],
+    }))
+  })
+}
+
+function pairTokens(pair: ClausePair): number {
+  return estimateTokens(pair.reference?.text ?? "") + estimateTokens(pair.customer?.text ?? "")
+}
+
+function batchPairs(pairs: ClausePair[], batchTokens: number): ClausePair[][] {
+  const batches: ClausePair[][] = []
+  let current: ClausePair[] = []
+  let currentTokens = 0
+
+  for (const pair of pairs) {
+    const tokens = pairTokens(pair)
+    if (current.length > 0 && currentTokens + tokens > batchTokens) {
+      batches.push(current)
+      current = []
+      currentTokens = 0
+    }
+    current.push(pair)
+    currentTokens += tokens
+  }
+  if (current.length > 0) batches.push(current)
+
+  return batches
+}
+
+function describeClause(clause: Clause | undefined, label: string): string {
+  if (!clause) {
+    return `${label}: (no corresponding clause)`
+  }
+  const pages = clause.pages.length > 0 ? ` [page ${clause.pages.join(", ")}]` : ""
+  return `${label} — ${clause.heading}${pages}:\n${clause.text}`
+}
+
+function buildBatchMessages(batch: ClausePair[], batchNumber: number, totalBatches: number): ChatMessage[] {
+  const pairs = batch
+    .map((pair, index) => `### Clause pair ${index + 1}\n${describeClause(pair.reference, "Reference NDA")}\n\n${describeClause(pair.customer, "Customer NDA")}`)
+    .join("\n\n")
+
+  return [
+    {
+      role: "system",
+      content: SYSTEM_PROMPT
+    },
+    {
+      role: "user",
+      content: `I am comparing a reference NDA with a customer NDA. The documents are too long to review at once, so this is part ${batchNumber} of ${totalBatches}. Each clause pair below was aligned by heading and wording; a missing side means that clause has no counterpart in the other document.
+
+${pairs}
+
+For the clauses in this part only, provide:
+1. A comparison for each clause pair, titled with the clause heading, with a match percentage (0-100) and the differences
+2. Risks in the customer NDA compared to the reference NDA, each naming its clause in the section field
+3. An overall risk assessment (low, medium, high) for this part, its key issues and a recommendation
+
+Provide your response as a JSON object with sections, risks and summary as in the schema. Focus on practical legal analysis and actionable recommendations.`
+    }
+  ]
+}
+
+/**
+ * Hash of the analysis prompts and schema. It is part of the analysis cache
+ * key, so results cached under an earlier prompt are not reused.
+ */
+export const ANALYSIS_PROMPT_VERSION = hashContent(
+  JSON.stringify([buildAnalysisMessages("", ""), buildBatchMessages([], 1, 1), NDA_ANALYSIS_SCHEMA])
+)
+
+const RISK_ORDER: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 }
+
+// Batches can report the same risk for a clause pair they share
+function riskKey(risk: AnalysisRisk): string {
+  return `${risk.section}::${risk.title}`.toLowerCase()
+}
+
+function mergeResults(results: AnalysisResult[]): AnalysisResult {
+  const seenRisks = new Set<string>()
+  const risks: AnalysisRisk[] = []
+  for (const risk of results.flatMap((result) => result.risks)) {
+    const key = riskKey(risk)
+    if (seenRisks.has(key)) continue
+    seenRisks.add(key)
+    risks.push(risk)
+  }
+
+  const overallRisk = results.reduce<RiskLevel>(
+    (highest, result) => RISK_ORDER[result.summary.overallRisk] > RISK_ORDER[highest] ? result.summary.overallRisk : highest,
+    "low"
+  )
+
+  const keyIssues = Array.from(new Set(results.flatMap((result) => result.summary.keyIssues))).slice(0, 10)
+  const recommendation = Array.from(new Set(
+    results
+      .filter((result) => result.summary.overallRisk === overallRisk)
+      .map((result) => result.summary.recommendation)
+  )).join(" ")
+
+  return {
+    sections: results.flatMap((result) => result.sections),
+    risks,
+    summary: { overallRisk, keyIssues, recommendation },
+  }
+}
+
+export interface DocumentAnalysis extends AnalysisResult {
+  batches: number
+}
+
+/**
+ * Analyzes two NDAs in one request when they fit the token budget, and
+ * otherwise analyzes the aligned clause pairs in bounded batches and merges
+ * the partial results. Either way, sections are linked to clause ids.
+ */
+export async function analyzeNdaDocuments(
+  reference: AnalysisDocument,
+  customer: AnalysisDocument,
+  provider: LLMProvider,
+  budget: AnalysisBudget = getAnalysisBudget(),
+  { onBatchComplete, onFinding }: AnalysisListeners = {}
+): Promise<DocumentAnalysis> {
+  const referenceClauses = segmentClauses(reference, "ref")
+  const customerClauses = segmentClauses(customer, "cust")
+  const alignment = alignClauses(referenceClauses, customerClauses)
+
+  // Each provider request streams into its own reader; risks are deduplicated across requests
+  const reportedRisks = new Set<string>()
+  const streamFindings = (): ((content: string) => void) | undefined => {
+    if (!onFinding) return undefined
+    const readItems = createArrayItemReader(["sections", "risks"])
+
+    return (content) => {
+      for (const { key, value } of readItems(content)) {
+        if (key === "sections") {
+          const [section] = linkSectionsToClauses([value as AnalysisSection], alignment, referenceClauses, customerClauses)
+          onFinding({ type: "section", section })
+        } else if (!reportedRisks.has(riskKey(value as AnalysisRisk))) {
+          reportedRisks.add(riskKey(value as AnalysisRisk))
+          onFinding({ type: "risk", risk: value as AnalysisRisk })
+        }
+      }
+    }
+  }
+
+  let result: AnalysisResult
+  let batchCount = 1
+
+  if (estimateTokens(reference.text) + estimateTokens(customer.text) <= budget.maxInputTokens) {
+    result = await analyzeNdas(reference.text, customer.text, provider, streamFindings())
+    onBatchComplete?.(1, 1)
+  } else {
+    const maxClauseTokens = Math.floor(budget.batchTokens / 2)
+    const pairs = splitPairs(alignedPairs(referenceClauses, customerClauses), maxClauseTokens)
+    const batches = batchPairs(pairs, budget.batchTokens)
+
+    let completed = 0
+    const results = await mapWithConcurrency(batches, budget.maxConcurrency, async (batch, index) => {
+      const batchResult = await completeJson<AnalysisResult>(
+        provider,
+        buildBatchMessages(batch, index + 1, batches.length),
+        "nda_analysis",
+        NDA_ANALYSIS_SCHEMA,
+        streamFindings()
+      )
+      onBatchComplete?.(++completed, batches.length)
+      return batchResult
+    })
+    result = mergeResults(results)
+    batchCount = batches.length
+  }
+
+  return {
+    ...result,
+    sections: linkSectionsToClauses(result.sections, alignment, referenceClauses, customerClauses),
+    clauses: { reference: referenceClauses, customer: customerClauses },
+    batches: batchCount,
+  }
+}
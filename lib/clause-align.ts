@@ -0,0 +1,298 @@
+import { contentWords, similarity } from "@/lib/text-similarity"
+
+export interface Clause {
+  /** Stable within one analysis, e.g. "ref-3.1" or "cust-7". */
+  id: string
+  /** Normalized clause number ("3.1", "Article 4" → "4", "제3조" → "3"), if any. */
+  number: string | null
+  heading: string
+  text: string
+  pages: number[]
+}
+
+export interface ClauseAlignment {
+  referenceId: string | null
+  customerId: string | null
+  /** Combined heading and text similarity, 0-1. Zero for one-sided entries. */
+  score: number
+}
+
+export interface SegmentableDocument {
+  text: string
+  elements?: Array<{
+    category: string
+    page: number
+    content: { text: string }
+  }>
+}
+
+const ROMAN_NUMERALS: Record<string, number> = { i: 1, v: 5, x: 10, l: 50 }
+
+function romanToNumber(roman: string): number {
+  let total = 0
+  const letters = roman.toLowerCase().split("")
+  letters.forEach((letter, index) => {
+    const value = ROMAN_NUMERALS[letter]
+    const next = ROMAN_NUMERALS[letters[index + 1]] ?? 0
+    total += value < next ? -value : value
+  })
+  return total
+}
+
+// Each pattern captures the clause number and the rest of the line
+const NUMBERING_PATTERNS: Array<{ pattern: RegExp; normalize: (match: RegExpMatchArray) => string }> = [
+  { pattern: /^제\s*(\d+)\s*조\s*(.*)$/, normalize: (match) => match[1] },
+  { pattern: /^(?:article|section|clause)\s+(\d+(?:\.\d+)*)\.?\s*[:.\-–—]?\s*(.*)$/i, normalize: (match) => match[1] },
+  { pattern: /^(?:article|section)\s+([ivxl]+)\.?\s*[:.\-–—]?\s*(.*)$/i, normalize: (match) => String(romanToNumber(match[1])) },
+  { pattern: /^(\d+(?:\.\d+)+)\.?\s+(.*)$/, normalize: (match) => match[1] },
+  { pattern: /^(\d+)\.\s+(.*)$/, normalize: (match) => match[1] },
+]
+
+/**
+ * Detects a clause number at the start of a line: "1.", "1.1", "Article 3",
+ * "Section IV" or "제3조". Returns the normalized number and the remainder.
+ */
+export function parseClauseNumber(line: string): { number: string; marker: string; rest: string } | null {
+  const trimmed = line.trim()
+  for (const { pattern, normalize } of NUMBERING_PATTERNS) {
+    const match = trimmed.match(pattern)
+    if (match) {
+      const rest = match[2].trim()
+      return { number: normalize(match), marker: trimmed.slice(0, trimmed.length - rest.length).trim(), rest }
+    }
+  }
+  return null
+}
+
+// Clause headings are short; longer remainders are numbered body paragraphs
+function headingFromRest(rest: string): { heading: string; body: string } {
+  if (rest.length <= 80 && !/[.;]\s+\S/.test(rest)) {
+    return { heading: rest.replace(/[.:]$/, ""), body: "" }
+  }
+  const lead = rest.match(/^([^.:]{3,60})[.:]\s+([\s\S]*)$/)
+  if (lead && !/\s(shall|will|may|must)\s/i.test(lead[1])) {
+    return { heading: lead[1], body: lead[2] }
+  }
+  return { heading: "", body: rest }
+}
+
+interface Block {
+  text: string
+  page: number
+  isHeading: boolean
+}
+
+function blocksFromDocument(document: SegmentableDocument): Block[] {
+  if (document.elements && document.elements.length > 0) {
+    return document.elements
+      .filter((element) => !["header", "footer", "page_number"].includes(element.category))
+      .map((element) => ({
+        text: element.content.text?.trim() ?? "",
+        page: element.page,
+        isHeading: element.category.startsWith("heading"),
+      }))
+      .filter((block) => block.text)
+  }
+
+  return document.text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => ({ text: line, page: 0, isHeading: false }))
+}
+
+// Documents without numbering, e.g. "Definitions: ... Term: ...", are split on "Label:" prefixes
+function segmentByLabels(text: string, idPrefix: string): Clause[] {
+  return text
+    .split(/\n\s*\n|(?<=[.!?])\s+(?=[A-Z][A-Za-z ]{2,40}:)/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 20)
+    .map((paragraph, index) => {
+      const label = paragraph.match(/^([A-Z][A-Za-z ]{2,40}):\s*([\s\S]*)$/)
+      return {
+        id: `${idPrefix}-${index + 1}`,
+        number: null,
+        heading: label ? label[1].trim() : paragraph.split(/[.\n]/)[0].slice(0, 60).trim(),
+        text: label ? label[2].trim() : paragraph,
+        pages: [],
+      }
+    })
+}
+
+/**
+ * Splits a parsed document into clauses. Numbered lines and parser headings
+ * start new clauses; unnumbered documents are split on "Label:" prefixes.
+ */
+export function segmentClauses(document: SegmentableDocument, idPrefix: string): Clause[] {
+  const clauses: Clause[] = []
+  let current: Clause | null = null
+  let unnumbered = 0
+
+  for (const block of blocksFromDocument(document)) {
+    const numbering = parseClauseNumber(block.text)
+
+    if (numbering || block.isHeading) {
+      const { heading, body } = numbering ? headingFromRest(numbering.rest) : { heading: block.text, body: "" }
+      current = {
+        id: "",
+        number: numbering?.number ?? null,
+        heading: numbering && heading ? `${numbering.marker} ${heading}` : heading || `Clause ${numbering?.number ?? ""}`.trim(),
+        text: body,
+        pages: block.page ? [block.page] : [],
+      }
+      clauses.push(current)
+      continue
+    }
+
+    if (!current) {
+      current = { id: "", number: null, heading: "Preamble", text: "", pages: [] }
+      clauses.push(current)
+    }
+    current.text = current.text ? `${current.text}\n${block.text}` : block.text
+    if (block.page && !current.pages.includes(block.page)) current.pages.push(block.page)
+  }
+
+  const numberedCount = clauses.filter((clause) => clause.number).length
+  if (numberedCount < 2 && !document.elements?.some((element) => element.category.startsWith("heading"))) {
+    return segmentByLabels(document.text, idPrefix)
+  }
+
+  // Ids use the clause number where it is unique and a running index otherwise
+  const seen = new Set<string>()
+  for (const clause of clauses) {
+    let id = clause.number ? `${idPrefix}-${clause.number}` : `${idPrefix}-u${++unnumbered}`
+    while (seen.has(id)) id = `${id}-${++unnumbered}`
+    seen.add(id)
+    clause.id = id
+  }
+
+  return clauses
+}
+
+function headingKey(heading: string): string {
+  const numbering = parseClauseNumber(heading)
+  return numbering ? numbering.rest : heading
+}
+
+function sectionKey(title: string): string {
+  const numbering = parseClauseNumber(title)
+  return (numbering ? numbering.rest : title).toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()
+}
+
+/**
+ * Whether two section names refer to the same clause. Risks name their clause
+ * loosely ("Term", "5. Term and Termination"), so names match by number or when
+ * every word of one name is a whole word of the other; "Term" does not match "Termination".
+ */
+export function isSameSection(title: string, other: string): boolean {
+  const number = parseClauseNumber(title)?.number
+  const otherNumber = parseClauseNumber(other)?.number
+  if (number && otherNumber) return number === otherNumber
+
+  const words = sectionKey(title).split(" ").filter(Boolean)
+  const otherWords = sectionKey(other).split(" ").filter(Boolean)
+  if (words.length === 0 || otherWords.length === 0) return false
+
+  const [shorter, longer] = words.length <= otherWords.length ? [words, new Set(otherWords)] : [otherWords, new Set(words)]
+  return shorter.every((word) => longer.has(word))
+}
+
+export function clauseSimilarity(reference: Clause, customer: Clause): number {
+  const headingScore = similarity(contentWords(headingKey(reference.heading)), contentWords(headingKey(customer.heading)))
+  const textScore = similarity(contentWords(reference.text), contentWords(customer.text))
+  const numberBonus = reference.number && reference.number === customer.number ? 0.05 : 0
+  return Math.min(1, 0.4 * headingScore + 0.6 * textScore + numberBonus)
+}
+
+/**
+ * Pairs reference clauses with customer clauses, best matches first, and
+ * keeps unmatched clauses as one-sided entries. The result follows the
+ * reference document order, with customer-only clauses after the clause
+ * they follow in the customer document.
+ */
+export function alignClauses(reference: Clause[], customer: Clause[], threshold = 0.2): ClauseAlignment[] {
+  const candidates: Array<{ referenceIndex: number; customerIndex: number; score: number }> = []
+  reference.forEach((referenceClause, referenceIndex) => {
+    customer.forEach((customerClause, customerIndex) => {
+      const score = clauseSimilarity(referenceClause, customerClause)
+      if (score >= threshold) candidates.push({ referenceIndex, customerIndex, score })
+    })
+  })
+  candidates.sort((a, b) => b.score - a.score)
+
+  const referenceMatch = new Map<number, { customerIndex: number; score: number }>()
+  const matchedCustomers = new Set<number>()
+  for (const candidate of candidates) {
+    if (referenceMatch.has(candidate.referenceIndex) || matchedCustomers.has(candidate.customerIndex)) continue
+    referenceMatch.set(candidate.referenceIndex, { customerIndex: candidate.customerIndex, score: candidate.score })
+    matchedCustomers.add(candidate.customerIndex)
+  }
+
+  const alignment: ClauseAlignment[] = []
+  const emittedCustomers = new Set<number>()
+  const emitCustomerOnlyBefore = (customerIndex: number) => {
+    for (let index = 0; index < customerIndex; index++) {
+      if (!matchedCustomers.has(index) && !emittedCustomers.has(index)) {
+        emittedCustomers.add(index)
+        alignment.push({ referenceId: null, customerId: customer[index].id, score: 0 })
+      }
+    }
+  }
+
+  reference.forEach((referenceClause, referenceIndex) => {
+    const match = referenceMatch.get(referenceIndex)
+    if (match) {
+      emitCustomerOnlyBefore(match.customerIndex)
+      alignment.push({ referenceId: referenceClause.id, customerId: customer[match.customerIndex].id, score: match.score })
+    } else {
+      alignment.push({ referenceId: referenceClause.id, customerId: null, score: 0 })
+    }
+  })
+  emitCustomerOnlyBefore(customer.length)
+
+  return alignment
+}
+
+/**
+ * Points each analysis section at the aligned clauses it describes, matching
+ * the section title against clause numbers and headings on both sides.
+ */
+export function linkSectionsToClauses<T extends { title: string }>(
+  sections: T[],
+  alignment: ClauseAlignment[],
+  reference: Clause[],
+  customer: Clause[]
+): Array<T & { referenceClauseIds: string[]; customerClauseIds: string[] }> {
+  const byId = new Map([...reference, ...customer].map((clause) => [clause.id, clause]))
+
+  return sections.map((section) => {
+    const sectionNumber = parseClauseNumber(section.title)?.number ?? null
+    const sectionWords = contentWords(headingKey(section.title))
+    let best: ClauseAlignment | null = null
+    let bestScore = 0
+
+    for (const entry of alignment) {
+      const clauses = [entry.referenceId, entry.customerId]
+        .map((id) => (id ? byId.get(id) : undefined))
+        .filter((clause): clause is Clause => Boolean(clause))
+
+      const score = Math.max(...clauses.map((clause) => {
+        const headingScore = similarity(sectionWords, contentWords(headingKey(clause.heading)))
+        const numberScore = sectionNumber && clause.number === sectionNumber ? 0.3 : 0
+        return headingScore + numberScore
+      }))
+
+      if (score > bestScore) {
+        bestScore = score
+        best = entry
+      }
+    }
+
+    const linked = best && bestScore >= 0.3 ? best : null
+    return {
+      ...section,
+      referenceClauseIds: linked?.referenceId ? [linked.referenceId] : [],
+      customerClauseIds: linked?.customerId ? [linked.customerId] : [],
+    }
+  })
+}
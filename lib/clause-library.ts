@@ -0,0 +1,187 @@
+import { createId, createJsonCollection } from "@/lib/storage"
+
+/** Pre-approved wording that reviewers can propose in place of a customer clause. */
+export interface LibraryClause {
+  id: string
+  title: string
+  /** Same keys as the playbook, e.g. "term" or "governing_law". */
+  clauseType: string
+  /** "Any" when the wording is not tied to a jurisdiction. */
+  jurisdiction: string
+  text: string
+  tags: string[]
+  notes?: string
+  updatedAt: string
+}
+
+export type LibraryClauseInput = Omit<LibraryClause, "id" | "updatedAt">
+
+export interface LibraryQuery {
+  query?: string
+  clauseType?: string
+  jurisdiction?: string
+}
+
+const SEED_CLAUSES: LibraryClauseInput[] = [
+  {
+    title: "Two-year term with three-year survival",
+    clauseType: "term",
+    jurisdiction: "Any",
+    text: "This Agreement shall remain in effect for two (2) years from the Effective Date. The Receiving Party's obligations with respect to Confidential Information disclosed during the term shall survive for three (3) years following expiration or termination, except that obligations with respect to trade secrets shall continue for so long as such information remains a trade secret under applicable law.",
+    tags: ["duration", "survival", "trade secrets"],
+  },
+  {
+    title: "Three-year term, no automatic renewal",
+    clauseType: "term",
+    jurisdiction: "Any",
+    text: "This Agreement shall commence on the Effective Date and continue for three (3) years, unless terminated earlier by either party on thirty (30) days' written notice. This Agreement shall not renew automatically.",
+    tags: ["duration", "renewal", "termination"],
+  },
+  {
+    title: "Residuals limited to general skills",
+    clauseType: "residuals",
+    jurisdiction: "Any",
+    text: "Nothing in this Agreement restricts either party from using general skills, know-how and experience retained in the unaided memory of its personnel, provided that this clause does not grant any license under any patent, copyright or trade secret of the Disclosing Party and does not permit disclosure of Confidential Information.",
+    tags: ["residuals", "memory", "know-how"],
+  },
+  {
+    title: "Mutual twelve-month non-solicitation",
+    clauseType: "non_solicit",
+    jurisdiction: "Any",
+    text: "For twelve (12) months after the Effective Date, neither party shall directly solicit for employment any employee of the other party with whom it had contact in connection with the Purpose. General solicitations not targeted at such employees, and hiring in response to them, shall not breach this clause.",
+    tags: ["employees", "hiring", "mutual"],
+  },
+  {
+    title: "California governing law and courts",
+    clauseType: "governing_law",
+    jurisdiction: "US-California",
+    text: "This Agreement shall be governed by the laws of the State of California, without regard to its conflict of laws principles. The state and federal courts located in San Francisco County, California shall have exclusive jurisdiction over any dispute arising out of this Agreement.",
+    tags: ["jurisdiction", "venue", "courts"],
+  },
+  {
+    title: "Delaware governing law",
+    clauseType: "governing_law",
+    jurisdiction: "US-Delaware",
+    text: "This Agreement shall be governed by and construed in accordance with the laws of the State of Delaware, without giving effect to any choice of law rules. Each party submits to the exclusive jurisdiction of the state and federal courts located in Wilmington, Delaware.",
+    tags: ["jurisdiction", "venue", "courts"],
+  },
+  {
+    title: "English law and courts",
+    clauseType: "governing_law",
+    jurisdiction: "England & Wales",
+    text: "This Agreement and any non-contractual obligations arising out of it shall be governed by the laws of England and Wales. The courts of England shall have exclusive jurisdiction to settle any dispute arising out of or in connection with this Agreement.",
+    tags: ["jurisdiction", "venue", "courts"],
+  },
+  {
+    title: "Mutual injunctive relief without bond",
+    clauseType: "injunctive_relief",
+    jurisdiction: "Any",
+    text: "Each party acknowledges that unauthorized disclosure or use of Confidential Information may cause irreparable harm for which monetary damages would be inadequate. Accordingly, either party shall be entitled to seek injunctive or other equitable relief, without the necessity of posting a bond, in addition to any other remedies available at law.",
+    tags: ["remedies", "equitable relief", "mutual"],
+  },
+  {
+    title: "Return or destruction within thirty days",
+    clauseType: "return_of_information",
+    jurisdiction: "Any",
+    text: "Within thirty (30) days after the Disclosing Party's written request, the Receiving Party shall return or destroy all Confidential Information in its possession and certify the destruction in writing, except for copies retained in automatic electronic archives or as required by law, which remain subject to this Agreement.",
+    tags: ["return", "destruction", "certification"],
+  },
+  {
+    title: "Standard confidentiality exclusions",
+    clauseType: "confidentiality",
+    jurisdiction: "Any",
+    text: "Confidential Information does not include information that (a) is or becomes publicly available through no fault of the Receiving Party; (b) was known to the Receiving Party before disclosure without restriction; (c) is independently developed without use of the Confidential Information; or (d) is rightfully received from a third party without a duty of confidentiality.",
+    tags: ["definition", "exclusions"],
+  },
+]
+
+const clauses = createJsonCollection<LibraryClause>("clause-library")
+
+// Written once the defaults are in place, so deleting every clause does not bring them back
+const libraryState = createJsonCollection<{ id: string; seededAt: string }>("clause-library-state")
+const SEEDED = "seeded"
+
+let seeding: Promise<void> | null = null
+
+/**
+ * Seeds the library with approved defaults once per data directory. Concurrent
+ * callers share one run, and seed ids are fixed, so a second process seeding at
+ * the same time overwrites the same records instead of adding duplicates.
+ */
+function seedLibrary(): Promise<void> {
+  seeding ??= (async () => {
+    if (await libraryState.get(SEEDED)) return
+
+    const now = new Date().toISOString()
+    // Libraries seeded before the marker existed hold their defaults already
+    if ((await clauses.list()).length === 0) {
+      await Promise.all(SEED_CLAUSES.map((clause, index) => clauses.put({ ...clause, id: `seed-${index + 1}`, updatedAt: now })))
+    }
+    await libraryState.put({ id: SEEDED, seededAt: now })
+  })().catch((error) => {
+    seeding = null
+    throw error
+  })
+  return seeding
+}
+
+async function loadLibrary(): Promise<LibraryClause[]> {
+  await seedLibrary()
+  return clauses.list()
+}
+
+export async function listLibraryClauses({ query, clauseType, jurisdiction }: LibraryQuery = {}): Promise<LibraryClause[]> {
+  const terms = (query ?? "").toLowerCase().split(/\s+/).filter(Boolean)
+
+  return (await loadLibrary())
+    .filter((clause) => !clauseType || clause.clauseType === clauseType)
+    .filter((clause) => !jurisdiction || clause.jurisdiction === jurisdiction || clause.jurisdiction === "Any")
+    .filter((clause) => {
+      const haystack = `${clause.title} ${clause.text} ${clause.tags.join(" ")} ${clause.notes ?? ""}`.toLowerCase()
+      return terms.every((term) => haystack.includes(term))
+    })
+    .sort((a, b) => a.clauseType.localeCompare(b.clauseType) || a.title.localeCompare(b.title))
+}
+
+export function getLibraryClause(id: string): Promise<LibraryClause | null> {
+  return clauses.get(id)
+}
+
+export async function saveLibraryClause(input: LibraryClauseInput, id: string = createId()): Promise<LibraryClause> {
+  await seedLibrary()
+  return clauses.put({ ...input, id, updatedAt: new Date().toISOString() })
+}
+
+export function deleteLibraryClause(id: string): Promise<boolean> {
+  return clauses.delete(id)
+}
+
+/** Returns a list of problems, empty when the payload is a valid library clause. */
+export function validateLibraryClause(value: unknown): string[] {
+  const clause = value as Partial<LibraryClauseInput> | null
+  const problems: string[] = []
+
+  if (!clause || typeof clause.title !== "string" || !clause.title.trim()) problems.push("title is required")
+  if (typeof clause?.clauseType !== "string" || !/^[a-z0-9_]+$/.test(clause.clauseType)) {
+    problems.push("clauseType must use lowercase letters, digits and underscores")
+  }
+  if (typeof clause?.jurisdiction !== "string" || !clause.jurisdiction.trim()) problems.push("jurisdiction is required")
+  if (typeof clause?.text !== "string" || !clause.text.trim()) problems.push("text is required")
+  if (clause?.tags !== undefined && (!Array.isArray(clause.tags) || clause.tags.some((tag) => typeof tag !== "string"))) {
+    problems.push("tags must be an array of strings")
+  }
+  if (clause?.notes !== undefined && typeof clause.notes !== "string") problems.push("notes must be a string")
+
+  return problems
+}
+
+export function toLibraryClauseInput(value: LibraryClauseInput): LibraryClauseInput {
+  return {
+    title: value.title.trim(),
+    clauseType: value.clauseType,
+    jurisdiction: value.jurisdiction.trim(),
+    text: value.text.trim(),
+    tags: (value.tags ?? []).map((tag) => tag.trim()).filter(Boolean),
+    notes: value.notes?.trim() || undefined,
+  }
+}
@@ -0,0 +1,32 @@
+import type { LibraryClause } from "@/lib/clause-library"
+import type { AnalysisRisk } from "@/lib/nda-analysis"
+import { contentWords, similarity } from "@/lib/text-similarity"
+
+const MIN_SCORE = 0.15
+
+/**
+ * Library clauses that fit a risk, best first. The clause type, title and tags
+ * count most since risks name the clause they concern; the body text breaks ties.
+ */
+export function suggestLibraryClauses(
+  risk: Pick<AnalysisRisk, "section" | "title" | "description" | "recommendation">,
+  library: LibraryClause[],
+  limit = 3
+): LibraryClause[] {
+  const riskWords = contentWords(`${risk.section} ${risk.title} ${risk.description} ${risk.recommendation}`)
+
+  return library
+    .map((clause) => {
+      const labelWords = contentWords(`${clause.clauseType.replace(/_/g, " ")} ${clause.title} ${clause.tags.join(" ")}`)
+      let labelHits = 0
+      labelWords.forEach((word) => {
+        if (riskWords.has(word)) labelHits++
+      })
+      const score = (labelWords.size > 0 ? labelHits / labelWords.size : 0) + similarity(riskWords, contentWords(clause.text))
+      return { clause, score }
+    })
+    .filter(({ score }) => score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ clause }) => clause)
+}
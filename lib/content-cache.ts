@@ -0,0 +1,72 @@
+import { createHash } from "crypto"
+import { createJsonCollection } from "@/lib/storage"
+
+interface CacheEntry {
+  /** SHA-256 of everything the value was computed from. */
+  id: string
+  createdAt: string
+  expiresAt: string
+  value: unknown
+}
+
+const entries = createJsonCollection<CacheEntry>("cache")
+
+const DEFAULT_TTL_HOURS = 168
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+let lastPrunedAt = 0
+
+/** Lifetime of cache entries; `CACHE_TTL_HOURS=0` turns caching off. */
+export function getCacheTtlMs(): number {
+  const hours = Number(process.env.CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS)
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0
+}
+
+/**
+ * SHA-256 over the given parts. Each part is length-prefixed, so moving text
+ * from one part to the next changes the hash.
+ */
+export function hashContent(...parts: Array<string | Uint8Array>): string {
+  const hash = createHash("sha256")
+  for (const part of parts) {
+    const bytes = typeof part === "string" ? Buffer.from(part, "utf8") : part
+    hash.update(`${bytes.length}:`)
+    hash.update(bytes)
+  }
+  return hash.digest("hex")
+}
+
+/**
+ * Returns the cached value for `key` while it has not expired, and otherwise
+ * computes, stores and returns it. Failures are never cached.
+ */
+export async function withCache<T>(key: string, compute: () => Promise<T>, ttlMs = getCacheTtlMs()): Promise<{ value: T; cached: boolean }> {
+  if (ttlMs <= 0) return { value: await compute(), cached: false }
+
+  const entry = await entries.get(key)
+  if (entry && entry.expiresAt > new Date().toISOString()) {
+    return { value: entry.value as T, cached: true }
+  }
+  if (entry) await entries.delete(key)
+
+  const value = await compute()
+  const now = Date.now()
+  if (now - lastPrunedAt > PRUNE_INTERVAL_MS) {
+    lastPrunedAt = now
+    await pruneExpired()
+  }
+  await entries.put({
+    id: key,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString(),
+    value,
+  })
+  return { value, cached: false }
+}
+
+// Entries keyed by an old prompt or parser setting are never read again, so expired ones are removed in bulk
+async function pruneExpired() {
+  const now = new Date().toISOString()
+  const expired = (await entries.list()).filter((entry) => entry.expiresAt <= now)
+  await Promise.all(expired.map((entry) => entries.delete(entry.id)))
+}
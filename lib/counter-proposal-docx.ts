@@ -0,0 +1,158 @@
+import {
+  CommentRangeEnd,
+  CommentRangeStart,
+  CommentReference,
+  DeletedTextRun,
+  Document,
+  HeadingLevel,
+  InsertedTextRun,
+  Packer,
+  Paragraph,
+  TextRun,
+  type ICommentOptions,
+  type ParagraphChild,
+} from "docx"
+import type { AnalysisDetail } from "@/lib/analysis-store"
+import { linkSectionsToClauses, segmentClauses, type Clause } from "@/lib/clause-align"
+import { getMarkupChanges, type MarkupChange } from "@/lib/risk-decisions"
+import { diffWords } from "@/lib/text-diff"
+
+export function getMarkupAuthor(): string {
+  return process.env.MARKUP_AUTHOR || "NDA Checker"
+}
+
+interface NumberedChange extends MarkupChange {
+  commentId: number
+}
+
+/**
+ * Customer clause each change replaces, found by matching the risk section
+ * against the customer clause numbers and headings.
+ */
+function targetClauses(changes: NumberedChange[], customer: Clause[]): Map<NumberedChange, Clause | null> {
+  const alignment = customer.map((clause) => ({ referenceId: null, customerId: clause.id, score: 0 }))
+  const linked = linkSectionsToClauses(changes.map((change) => ({ title: change.risk.section })), alignment, [], customer)
+  const byId = new Map(customer.map((clause) => [clause.id, clause]))
+
+  return new Map(changes.map((change, index) => [change, byId.get(linked[index].customerClauseIds[0]) ?? null]))
+}
+
+function commentFor(change: NumberedChange, author: string, date: Date): ICommentOptions {
+  const { risk, decision } = change
+  return {
+    id: change.commentId,
+    author,
+    initials: author.split(/\s+/).map((word) => word[0]).join("").slice(0, 3).toUpperCase(),
+    date,
+    children: [
+      new Paragraph({ children: [new TextRun({ text: risk.title, bold: true })] }),
+      new Paragraph({ text: risk.description }),
+      new Paragraph({ text: `Proposed change: ${risk.recommendation}` }),
+      ...(decision.note ? [new Paragraph({ text: `Reviewer note: ${decision.note}` })] : []),
+    ],
+  }
+}
+
+// Wraps the changed runs in a comment range so the margin comment covers the whole change
+function withComment(commentId: number, children: ParagraphChild[]): ParagraphChild[] {
+  return [
+    new CommentRangeStart(commentId),
+    ...children,
+    new CommentRangeEnd(commentId),
+    new TextRun({ children: [new CommentReference(commentId)] }),
+  ]
+}
+
+/**
+ * Tracked-change runs from the original to the proposed wording. Line breaks
+ * inside a segment stay line breaks within the paragraph.
+ */
+function revisionRuns(original: string, proposed: string, nextRevisionId: () => number, author: string, date: string): ParagraphChild[] {
+  return diffWords(original, proposed).flatMap((segment) => segment.text.split("\n").map((text, index) => {
+    const options = { text, break: index > 0 ? 1 : undefined }
+    if (segment.type === "insert") return new InsertedTextRun({ ...options, id: nextRevisionId(), author, date })
+    if (segment.type === "delete") return new DeletedTextRun({ ...options, id: nextRevisionId(), author, date })
+    return new TextRun(options)
+  }))
+}
+
+function plainRuns(text: string): TextRun[] {
+  return text.split("\n").map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined }))
+}
+
+/**
+ * Rebuilds the customer NDA from its parsed text with the replacement wording
+ * of every accepted or negotiated risk applied as Word tracked changes, and a
+ * margin comment per change explaining the risk it addresses. Changes whose
+ * clause cannot be found in the customer NDA are appended as tracked insertions.
+ */
+export async function renderCounterProposalDocx(detail: AnalysisDetail, author = getMarkupAuthor()): Promise<Buffer> {
+  const { analysisResult: result, customerNda } = detail
+  const customer = result.clauses?.customer ?? segmentClauses({
+    text: customerNda.parsedContent.text || customerNda.parsedContent.html,
+    elements: customerNda.parsedContent.elements,
+  }, "cust")
+
+  const now = new Date()
+  const date = now.toISOString()
+  let revisionId = 0
+  const nextRevisionId = () => ++revisionId
+
+  const changes = new Map<string, NumberedChange>()
+  const additions: NumberedChange[] = []
+  const numbered = getMarkupChanges(result.risks, detail.decisions, detail.counterProposal)
+    .map((change, index) => ({ ...change, commentId: index }))
+  const targets = targetClauses(numbered, customer)
+  numbered.forEach((change) => {
+    const target = targets.get(change)
+    // Two changes for the same customer clause cannot both replace it; the later one is added instead
+    if (target && !changes.has(target.id)) changes.set(target.id, change)
+    else additions.push(change)
+  })
+
+  const body = customer.flatMap((clause) => {
+    const change = changes.get(clause.id)
+    // Unlabelled paragraphs use their opening words as the heading, which would repeat the text
+    const showHeading = clause.heading !== "Preamble" && !clause.text.startsWith(clause.heading)
+    const heading = showHeading ? [new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun(clause.heading)] })] : []
+
+    if (!change) {
+      return [...heading, ...(clause.text ? [new Paragraph({ spacing: { after: 160 }, children: plainRuns(clause.text) })] : [])]
+    }
+
+    return [
+      ...heading,
+      new Paragraph({
+        spacing: { after: 160 },
+        children: withComment(change.commentId, revisionRuns(clause.text, change.text, nextRevisionId, author, date)),
+      }),
+    ]
+  })
+
+  const appended = additions.flatMap((change) => [
+    new Paragraph({
+      heading: HeadingLevel.HEADING_2,
+      children: [new InsertedTextRun({ text: change.risk.section, id: nextRevisionId(), author, date })],
+    }),
+    new Paragraph({
+      spacing: { after: 160 },
+      children: withComment(change.commentId, [new InsertedTextRun({ text: change.text, id: nextRevisionId(), author, date })]),
+    }),
+  ])
+
+  const document = new Document({
+    title: `Counter-proposal: ${customerNda.fileName}`,
+    creator: author,
+    features: { trackRevisions: true },
+    comments: { children: [...changes.values(), ...additions].map((change) => commentFor(change, author, now)) },
+    sections: [{ children: [...body, ...appended] }],
+  })
+
+  return Packer.toBuffer(document)
+}
+
+/** File name for the marked-up customer NDA, e.g. "acme-nda-counter-proposal.docx". */
+export function counterProposalFileName(detail: AnalysisDetail): string {
+  const base = detail.customerNda.fileName.replace(/\.[^.]+$/, "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+  return `${base || "nda"}-counter-proposal.docx`
+}
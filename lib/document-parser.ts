@@ -0,0 +1,240 @@
+import mammoth from "mammoth"
+import { extractText } from "unpdf"
+
+export interface DocumentElement {
+  category: string
+  content: {
+    html: string
+    markdown: string
+    text: string
+  }
+  coordinates: Array<{
+    x: number
+    y: number
+  }>
+  id: number
+  page: number
+}
+
+export interface ParsedDocument {
+  text: string
+  html: string
+  elements: DocumentElement[]
+  pages: number
+}
+
+export interface DocumentParser {
+  name: string
+  /** Settings that change the parse result; part of the parse cache key. */
+  options: Record<string, string>
+  parse(file: File): Promise<ParsedDocument>
+}
+
+interface UpstageDocumentParseResponse {
+  api: string
+  content: {
+    html: string
+    markdown: string
+    text: string
+  }
+  elements: DocumentElement[]
+  model: string
+  usage: {
+    pages: number
+  }
+}
+
+const UPSTAGE_PARSE_OPTIONS: Record<string, string> = {
+  output_formats: '["html", "text"]',
+  base64_encoding: '["table"]',
+  ocr: 'auto',
+  coordinates: 'true',
+  model: 'document-parse',
+}
+
+export function createUpstageDocumentParser(): DocumentParser {
+  return {
+    name: "upstage",
+    options: UPSTAGE_PARSE_OPTIONS,
+    async parse(file: File): Promise<ParsedDocument> {
+      const apiKey = process.env.UPSTAGE_API_KEY
+
+      if (!apiKey) {
+        throw new Error("UPSTAGE_API_KEY environment variable is required")
+      }
+
+      const formData = new FormData()
+      formData.append('document', file)
+      for (const [name, value] of Object.entries(UPSTAGE_PARSE_OPTIONS)) {
+        formData.append(name, value)
+      }
+
+      const response = await fetch('https://api.upstage.ai/v1/document-digitization', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new Error(`Upstage API error: ${response.status} - ${errorText}`)
+      }
+
+      const result: UpstageDocumentParseResponse = await response.json()
+
+      return {
+        text: result.content.text || result.content.html,
+        html: result.content.html,
+        elements: result.elements,
+        pages: result.usage.pages
+      }
+    }
+  }
+}
+
+// Numbered clause headings such as "1.", "2.3 Term", "Article 4" or "제3조"
+const HEADING_PATTERN = /^(\d+(\.\d+)*\.?\s+\S|article\s+\d+|section\s+\d+|제\s*\d+\s*조)/i
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function stripTags(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim()
+}
+
+function createElement(id: number, page: number, category: string, text: string): DocumentElement {
+  const tag = category === "heading1" ? "h1" : "p"
+  return {
+    category,
+    content: {
+      html: `<${tag}>${escapeHtml(text)}</${tag}>`,
+      markdown: category === "heading1" ? `# ${text}` : text,
+      text
+    },
+    coordinates: [],
+    id,
+    page
+  }
+}
+
+function classifyBlock(text: string): string {
+  return text.length <= 80 && HEADING_PATTERN.test(text) ? "heading1" : "paragraph"
+}
+
+function buildParsedDocument(elements: DocumentElement[], pages: number): ParsedDocument {
+  return {
+    text: elements.map((element) => element.content.text).join("\n"),
+    html: elements.map((element) => element.content.html).join("\n"),
+    elements,
+    pages
+  }
+}
+
+async function parsePdfLocally(buffer: ArrayBuffer): Promise<ParsedDocument> {
+  const { totalPages, text } = await extractText(new Uint8Array(buffer), { mergePages: false })
+
+  const elements: DocumentElement[] = []
+  text.forEach((pageText, pageIndex) => {
+    const page = pageIndex + 1
+    let paragraph: string[] = []
+
+    const flushParagraph = () => {
+      const block = paragraph.join(" ").replace(/\s+/g, " ").trim()
+      if (block) {
+        elements.push(createElement(elements.length, page, "paragraph", block))
+      }
+      paragraph = []
+    }
+
+    // PDF text arrives as visual lines: short numbered lines become headings,
+    // everything else is folded into paragraphs separated by blank lines
+    for (const rawLine of pageText.split("\n")) {
+      const line = rawLine.replace(/\s+/g, " ").trim()
+      if (!line) {
+        flushParagraph()
+      } else if (classifyBlock(line) === "heading1") {
+        flushParagraph()
+        elements.push(createElement(elements.length, page, "heading1", line))
+      } else {
+        paragraph.push(line)
+      }
+    }
+    flushParagraph()
+  })
+
+  return buildParsedDocument(elements, totalPages)
+}
+
+async function parseDocxLocally(buffer: ArrayBuffer): Promise<ParsedDocument> {
+  const { value: html } = await mammoth.convertToHtml({ buffer: Buffer.from(buffer) })
+
+  const elements: DocumentElement[] = []
+  const blockPattern = /<(h[1-6]|p|li|td)[^>]*>([\s\S]*?)<\/\1>/g
+  let match: RegExpExecArray | null
+  while ((match = blockPattern.exec(html)) !== null) {
+    const text = stripTags(match[2]).replace(/\s+/g, " ")
+    if (!text) continue
+    const category = match[1].startsWith("h") ? "heading1" : classifyBlock(text)
+    elements.push(createElement(elements.length, 1, category, text))
+  }
+
+  // DOCX has no fixed pagination, so the whole document is reported as one page
+  return buildParsedDocument(elements, 1)
+}
+
+export function createLocalDocumentParser(): DocumentParser {
+  return {
+    name: "local",
+    options: {},
+    async parse(file: File): Promise<ParsedDocument> {
+      const fileExtension = file.name.toLowerCase().split('.').pop()
+      const buffer = await file.arrayBuffer()
+
+      if (fileExtension === "pdf" || file.type.includes("pdf")) {
+        return parsePdfLocally(buffer)
+      }
+
+      if (fileExtension === "docx" || file.type.includes("wordprocessingml")) {
+        return parseDocxLocally(buffer)
+      }
+
+      throw new Error("The local parser supports PDF and DOCX files only; convert legacy DOC files to DOCX")
+    }
+  }
+}
+
+const documentParsers: Record<string, () => DocumentParser> = {
+  upstage: createUpstageDocumentParser,
+  local: createLocalDocumentParser,
+}
+
+/**
+ * Returns the parser selected by DOCUMENT_PARSER ("upstage" or "local").
+ * Defaults to Upstage when an API key is configured and to the offline
+ * parser otherwise.
+ */
+export function getDocumentParser(name = process.env.DOCUMENT_PARSER): DocumentParser {
+  const parserName = name || (process.env.UPSTAGE_API_KEY ? "upstage" : "local")
+  const factory = documentParsers[parserName]
+
+  if (!factory) {
+    throw new Error(`Unknown document parser "${parserName}". Expected one of: ${Object.keys(documentParsers).join(", ")}`)
+  }
+
+  return factory()
+}
@@ -0,0 +1,70 @@
+export type AnalysisErrorCode =
+  | "provider_not_configured"
+  | "provider_unavailable"
+  | "provider_rejected"
+  | "invalid_response"
+
+const statusByCode: Record<AnalysisErrorCode, number> = {
+  provider_not_configured: 503,
+  provider_unavailable: 503,
+  provider_rejected: 502,
+  invalid_response: 502,
+}
+
+/**
+ * Error raised by the analysis pipeline. The code is returned to the client so
+ * the UI can tell configuration problems apart from transient outages.
+ */
+export class AnalysisError extends Error {
+  readonly code: AnalysisErrorCode
+  readonly status: number
+
+  constructor(code: AnalysisErrorCode, message: string) {
+    super(message)
+    this.name = "AnalysisError"
+    this.code = code
+    this.status = statusByCode[code]
+  }
+}
+
+export function toAnalysisError(error: unknown): AnalysisError {
+  if (error instanceof AnalysisError) {
+    return error
+  }
+  return new AnalysisError(
+    "provider_unavailable",
+    error instanceof Error ? error.message : "Unknown error"
+  )
+}
+
+/** Error raised when a sign-off request or decision is not allowed in the analysis's current state. */
+export class ApprovalError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "ApprovalError"
+    this.status = status
+  }
+}
+
+/** Error raised when an upload or analysis request cannot be run as given, e.g. a document id that does not exist. */
+export class AnalysisRequestError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "AnalysisRequestError"
+    this.status = status
+  }
+}
+
+/** Error raised when the PDF fonts cannot show a report's text, e.g. a Korean NDA without REPORT_PDF_FONT. */
+export class ReportEncodingError extends Error {
+  readonly status = 422
+
+  constructor(character: string) {
+    super(`The PDF fonts cannot show "${character}" in this report. Download the Word (DOCX) report instead, or set REPORT_PDF_FONT to a font that covers this text.`)
+    this.name = "ReportEncodingError"
+  }
+}
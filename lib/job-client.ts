@@ -0,0 +1,99 @@
+import type { ParsedUpload } from "@/lib/analysis-pipeline"
+import type { Job } from "@/lib/jobs"
+import type { AnalysisRisk, AnalysisSection } from "@/lib/nda-analysis"
+
+export interface JobResponse {
+  job: Job
+  /** Set on finished parse jobs. */
+  document?: ParsedUpload
+}
+
+const POLL_INTERVAL_MS = 1000
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      reject(new DOMException("Polling was aborted", "AbortError"))
+    }, { once: true })
+  })
+}
+
+/**
+ * Polls a background job until it is done or failed, reporting every update.
+ * Aborting the signal stops polling only; the job keeps running on the server.
+ */
+export async function pollJob(
+  jobId: string,
+  onUpdate: (job: Job) => void,
+  signal?: AbortSignal
+): Promise<JobResponse> {
+  for (;;) {
+    const response = await fetch(`/api/jobs/${jobId}`, { signal })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to load job")
+    }
+
+    const { job } = data as JobResponse
+    onUpdate(job)
+    if (job.status === "done" || job.status === "failed") return data
+
+    await wait(POLL_INTERVAL_MS, signal)
+  }
+}
+
+export interface JobStreamHandlers {
+  onProgress?: (progress: Pick<Job, "status" | "progress" | "message">) => void
+  onSection?: (section: AnalysisSection) => void
+  onRisk?: (risk: AnalysisRisk) => void
+  /** Called whenever the findings received so far should be discarded, e.g. after a reconnect. */
+  onReset?: () => void
+}
+
+/**
+ * Follows a job over Server-Sent Events until it is done or failed. Sections
+ * and risks arrive as the analysis streams them. Aborting the signal closes
+ * the connection only; the job keeps running on the server.
+ */
+export function streamJob(jobId: string, handlers: JobStreamHandlers, signal?: AbortSignal): Promise<Job> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`)
+    const parse = (event: Event) => JSON.parse((event as MessageEvent<string>).data)
+    const finish = () => {
+      source.close()
+      signal?.removeEventListener("abort", abort)
+    }
+    const abort = () => {
+      finish()
+      reject(new DOMException("Streaming was aborted", "AbortError"))
+    }
+    signal?.addEventListener("abort", abort, { once: true })
+
+    // Every connection replays the findings from the start
+    source.onopen = () => handlers.onReset?.()
+    source.addEventListener("reset", () => handlers.onReset?.())
+    source.addEventListener("progress", (event) => handlers.onProgress?.(parse(event)))
+    source.addEventListener("section", (event) => handlers.onSection?.(parse(event)))
+    source.addEventListener("risk", (event) => handlers.onRisk?.(parse(event)))
+    source.addEventListener("done", (event) => {
+      finish()
+      resolve(parse(event))
+    })
+    source.addEventListener("failed", (event) => {
+      finish()
+      resolve(parse(event))
+    })
+
+    // The browser reconnects by itself unless the server refused the stream
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) return
+      finish()
+      fetch(`/api/jobs/${jobId}`)
+        .then((response) => response.json())
+        .then((data) => reject(new Error(data.error || "Lost the connection to the job")))
+        .catch(() => reject(new Error("Lost the connection to the job")))
+    }
+  })
+}
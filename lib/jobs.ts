@@ -0,0 +1,276 @@
+import type { DocumentType } from "@/lib/analysis-store"
+import type { AnalysisFinding } from "@/lib/chunked-analysis"
+import { parseAndSaveDocument, runAnalysis, type PreparedAnalysis, type ProgressReporter } from "@/lib/analysis-pipeline"
+import { AnalysisError, AnalysisRequestError } from "@/lib/errors"
+import type { AnalysisRisk, AnalysisSection } from "@/lib/nda-analysis"
+import { createId, createJsonCollection } from "@/lib/storage"
+
+export type JobStatus = "queued" | "parsing" | "analyzing" | "done" | "failed"
+
+interface JobBase {
+  id: string
+  status: JobStatus
+  /** 0-100. */
+  progress: number
+  message: string
+  /** Attempts started so far, including the current one. */
+  attempts: number
+  maxAttempts: number
+  /** Last failure; kept while a retry is pending. */
+  error?: { message: string; code?: string }
+  /** Earliest time a pending retry may start. */
+  retryAt?: string
+  /** While parsing or analyzing: the running worker renews this; once it passes, the job counts as interrupted. */
+  leaseUntil?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ParseJobInput {
+  fileName: string
+  fileSize: number
+  mimeType: string
+  documentType: DocumentType
+}
+
+/**
+ * Background parse or analysis. Jobs are stored like every other record, so
+ * they keep running when the browser tab that started them is closed.
+ */
+export type Job = JobBase & (
+  | { kind: "parse"; input: ParseJobInput; result?: { documentId: string } }
+  | {
+      kind: "analyze"
+      input: PreparedAnalysis
+      /** Sections and risks streamed so far by the current attempt. */
+      partial?: { sections: AnalysisSection[]; risks: AnalysisRisk[] }
+      result?: { analysisId: string; matterId: string | null; round: number | null }
+    }
+)
+
+const jobs = createJsonCollection<Job>("jobs")
+
+const concurrency = () => Number(process.env.JOB_CONCURRENCY) || 2
+const maxAttempts = () => Number(process.env.JOB_MAX_ATTEMPTS) || 3
+const retryDelayMs = (attempt: number) => 5000 * 2 ** (attempt - 1)
+const LEASE_MS = 60_000
+const leaseUntil = () => new Date(Date.now() + LEASE_MS).toISOString()
+
+// Kept on globalThis so dev-server module reloads share one worker
+const worker: { active: Set<string>; draining: boolean; pending: boolean } =
+  ((globalThis as Record<string, unknown>).__ndaJobWorker as typeof worker | undefined) ??
+  ((globalThis as Record<string, unknown>).__ndaJobWorker = { active: new Set<string>(), draining: false, pending: false })
+
+function touch<T extends Job>(job: T, update: Partial<JobBase>): T {
+  return { ...job, ...update, updatedAt: new Date().toISOString() }
+}
+
+async function enqueue(job: Pick<Job, "kind" | "input"> & { id?: string }): Promise<Job> {
+  const now = new Date().toISOString()
+  const stored = await jobs.put({
+    ...job,
+    id: job.id ?? createId(),
+    status: "queued",
+    progress: 0,
+    message: "Waiting to start",
+    attempts: 0,
+    maxAttempts: maxAttempts(),
+    createdAt: now,
+    updatedAt: now,
+  } as Job)
+  startWorker()
+  return stored
+}
+
+/** Queues parsing of an upload; the file is kept with the job until it has been parsed. */
+export async function createParseJob(file: File, documentType: DocumentType): Promise<Job> {
+  const id = createId()
+  await jobs.putBlob(id, new Uint8Array(await file.arrayBuffer()))
+  return enqueue({
+    id,
+    kind: "parse",
+    input: { fileName: file.name, fileSize: file.size, mimeType: file.type, documentType },
+  })
+}
+
+export function createAnalyzeJob(prepared: PreparedAnalysis): Promise<Job> {
+  return enqueue({ kind: "analyze", input: prepared })
+}
+
+/** Reads a job and nudges the worker, so polling also resumes work left over from a restart. */
+export async function getJob(id: string): Promise<Job | null> {
+  const job = await jobs.get(id)
+  if (job && job.status !== "done" && job.status !== "failed") startWorker()
+  return job
+}
+
+/** Queues a failed job again with a fresh set of attempts. Returns null when it does not exist. */
+export async function retryJob(id: string): Promise<Job | null> {
+  const job = await jobs.get(id)
+  if (!job) return null
+  if (job.status !== "failed") throw new AnalysisRequestError("Only failed jobs can be retried", 409)
+
+  const queued = await jobs.put(touch(job, { status: "queued", progress: 0, message: "Waiting to start", attempts: 0, retryAt: undefined, leaseUntil: undefined }))
+  startWorker()
+  return queued
+}
+
+function isRunnable(job: Job, now: string): boolean {
+  if (worker.active.has(job.id)) return false
+  // A job left parsing or analyzing is reclaimed only once its lease has run out, so jobs that
+  // another server process is still running are left alone
+  if (job.status === "parsing" || job.status === "analyzing") return !job.leaseUntil || job.leaseUntil <= now
+  return job.status === "queued" && (!job.retryAt || job.retryAt <= now)
+}
+
+function startWorker() {
+  void drain().catch((error) => console.error("Error starting jobs:", error))
+}
+
+async function drain() {
+  if (worker.draining) {
+    worker.pending = true
+    return
+  }
+  worker.draining = true
+  try {
+    do {
+      worker.pending = false
+      if (worker.active.size >= concurrency()) break
+
+      const now = new Date().toISOString()
+      const runnable = (await jobs.list())
+        .filter((job) => isRunnable(job, now))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+      for (const job of runnable.slice(0, concurrency() - worker.active.size)) {
+        worker.active.add(job.id)
+        void execute(job.id).finally(() => {
+          worker.active.delete(job.id)
+          startWorker()
+        })
+      }
+    } while (worker.pending)
+  } finally {
+    worker.draining = false
+  }
+}
+
+// Configuration problems and bad requests fail the same way on every attempt
+function isRetryable(error: unknown): boolean {
+  if (error instanceof AnalysisRequestError) return false
+  return !(error instanceof AnalysisError && error.code === "provider_not_configured")
+}
+
+// Never rejects: a job whose state could not be saved stays parsing or analyzing and is picked up
+// again after a pause, until its attempts run out
+async function execute(id: string) {
+  try {
+    await runAttempt(id)
+  } catch (error) {
+    console.error(`Error saving job ${id}:`, error)
+    await new Promise((resolve) => setTimeout(resolve, retryDelayMs(1)))
+  }
+}
+
+async function runAttempt(id: string) {
+  const job = await jobs.get(id)
+  if (!job || job.status === "done" || job.status === "failed") return
+
+  // Only an interrupted job gets here with no attempts left, e.g. after a restart or a failed save
+  if (job.attempts >= job.maxAttempts) {
+    const failure = job.error ?? { message: `Stopped after ${job.attempts} interrupted attempts` }
+    await jobs.put(touch(job, { status: "failed", message: failure.message, error: failure, retryAt: undefined, leaseUntil: undefined }))
+    return
+  }
+
+  const attempt = job.attempts + 1
+  // A retry streams its findings from scratch
+  let current = await jobs.put(touch(job.kind === "analyze" ? { ...job, partial: undefined } : job, {
+    status: job.kind === "parse" ? "parsing" : "analyzing",
+    attempts: attempt,
+    progress: 5,
+    message: job.kind === "parse" ? "Parsing document" : "Preparing documents",
+    retryAt: undefined,
+    leaseUntil: leaseUntil(),
+  }))
+
+  // Progress writes are chained so they land in order and before the final state; a failed one is only logged
+  let writes = Promise.resolve()
+  const save = () => {
+    const snapshot = current
+    writes = writes
+      .then(() => jobs.put(snapshot))
+      .then(() => undefined, (error) => console.error(`Error saving progress of job ${id}:`, error))
+  }
+  // Renews the lease well before it runs out; every write goes through the same chain as progress
+  const heartbeat = setInterval(() => {
+    current = touch(current, { leaseUntil: leaseUntil() })
+    save()
+  }, LEASE_MS / 4)
+  // Stops the heartbeat and waits for queued writes, so nothing lands after the final state
+  const settle = async () => {
+    clearInterval(heartbeat)
+    await writes
+  }
+
+  const report: ProgressReporter = (progress, message) => {
+    current = touch(current, { progress, message })
+    save()
+  }
+  const collect = (finding: AnalysisFinding) => {
+    if (current.kind !== "analyze") return
+    const partial = current.partial ?? { sections: [], risks: [] }
+    current = touch({
+      ...current,
+      partial: finding.type === "section"
+        ? { ...partial, sections: [...partial.sections, finding.section] }
+        : { ...partial, risks: [...partial.risks, finding.risk] },
+    }, {})
+    save()
+  }
+
+  try {
+    if (current.kind === "parse") {
+      const blob = await jobs.getBlob(id)
+      if (!blob) throw new AnalysisRequestError("The uploaded file is no longer available. Please upload it again.", 410)
+      const { fileName, mimeType, documentType } = current.input
+      report(20, "Parsing document")
+      const document = await parseAndSaveDocument(new File([new Uint8Array(blob)], fileName, { type: mimeType }), documentType)
+      await settle()
+      await jobs.put({ ...touch(current, { status: "done", progress: 100, message: "Done", error: undefined, leaseUntil: undefined }), result: { documentId: document.id } })
+      await jobs.deleteBlob(id)
+    } else {
+      const outcome = await runAnalysis(current.input, report, collect)
+      await settle()
+      await jobs.put({
+        ...touch(current, { status: "done", progress: 100, message: "Done", error: undefined, leaseUntil: undefined }),
+        // The saved analysis supersedes the streamed findings
+        partial: undefined,
+        result: { analysisId: outcome.id, matterId: outcome.matterId, round: outcome.round },
+      })
+    }
+  } catch (error) {
+    console.error(`Error running ${job.kind} job ${id} (attempt ${attempt}):`, error)
+    await settle()
+    const failure = {
+      message: error instanceof Error ? error.message : "Unknown error",
+      code: error instanceof AnalysisError ? error.code : undefined,
+    }
+
+    if (isRetryable(error) && attempt < current.maxAttempts) {
+      const delay = retryDelayMs(attempt)
+      await jobs.put(touch(current, {
+        status: "queued",
+        progress: 0,
+        message: `Attempt ${attempt} failed; retrying in ${Math.round(delay / 1000)}s`,
+        error: failure,
+        retryAt: new Date(Date.now() + delay).toISOString(),
+        leaseUntil: undefined,
+      }))
+      setTimeout(startWorker, delay)
+    } else {
+      await jobs.put(touch(current, { status: "failed", message: failure.message, error: failure, leaseUntil: undefined }))
+    }
+  }
+}
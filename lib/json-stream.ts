@@ -0,0 +1,70 @@
+export interface ArrayItem {
+  /** Top-level key of the array the item belongs to. */
+  key: string
+  value: unknown
+}
+
+/**
+ * Reads a JSON object as it streams in and returns the object or array
+ * elements of its top-level arrays named in `keys` as soon as each is
+ * complete. Call the returned function with the full text received so far;
+ * every call returns only the elements completed since the previous one.
+ */
+export function createArrayItemReader(keys: string[]): (text: string) => ArrayItem[] {
+  let position = 0
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let stringStart = -1
+  let lastRootString = ""
+  let arrayKey: string | null = null
+  let itemStart = -1
+
+  return (text) => {
+    const items: ArrayItem[] = []
+
+    for (; position < text.length; position++) {
+      const char = text[position]
+
+      if (inString) {
+        if (escaped) {
+          escaped = false
+        } else if (char === "\\") {
+          escaped = true
+        } else if (char === '"') {
+          inString = false
+          if (depth === 1) {
+            try {
+              lastRootString = JSON.parse(text.slice(stringStart, position + 1))
+            } catch {
+              lastRootString = ""
+            }
+          }
+        }
+        continue
+      }
+
+      if (char === '"') {
+        inString = true
+        stringStart = position
+      } else if (char === "{" || char === "[") {
+        if (depth === 1 && char === "[" && keys.includes(lastRootString)) arrayKey = lastRootString
+        if (depth === 2 && arrayKey) itemStart = position
+        depth++
+      } else if (char === "}" || char === "]") {
+        depth--
+        if (depth === 2 && arrayKey && itemStart >= 0) {
+          try {
+            items.push({ key: arrayKey, value: JSON.parse(text.slice(itemStart, position + 1)) })
+          } catch {
+            // An element that does not parse is left to the final JSON.parse of the whole reply
+          }
+          itemStart = -1
+        }
+        if (depth === 1) arrayKey = null
+      }
+    }
+
+    return items
+  }
+}
@@ -0,0 +1,63 @@
+import type { KeyTermsComparison, NdaKeyTerms } from "@/lib/key-terms"
+
+/** One key term formatted for display, with whether the other NDAs depart from the reference. */
+export interface KeyTermRow {
+  label: string
+  reference: string
+  customer: string
+  baseline?: string
+  customerDiffers: boolean
+  baselineDiffers: boolean
+}
+
+const NOT_STATED = "Not stated"
+
+function formatMonths(value: number | "indefinite" | null): string {
+  if (value === null) return NOT_STATED
+  if (value === "indefinite") return "Indefinite"
+  if (value >= 12 && value % 12 === 0) return `${value / 12} year${value === 12 ? "" : "s"}`
+  return `${value} month${value === 1 ? "" : "s"}`
+}
+
+function formatDays(value: number | null): string {
+  return value === null ? NOT_STATED : `Within ${value} day${value === 1 ? "" : "s"}`
+}
+
+// Parties and dates differ between any two NDAs, so they are shown but not flagged
+const KEY_TERM_FIELDS: Array<{ label: string; format: (terms: NdaKeyTerms) => string; compare: boolean }> = [
+  { label: "Parties", format: (terms) => terms.parties.join(" · ") || NOT_STATED, compare: false },
+  { label: "Effective date", format: (terms) => terms.effectiveDate ?? NOT_STATED, compare: false },
+  {
+    label: "Mutuality",
+    format: (terms) => (terms.mutuality === "mutual" ? "Mutual" : terms.mutuality === "one_way" ? "One-way" : NOT_STATED),
+    compare: true,
+  },
+  { label: "Term", format: (terms) => formatMonths(terms.termMonths), compare: true },
+  { label: "Survival period", format: (terms) => formatMonths(terms.survivalMonths), compare: true },
+  { label: "Governing law", format: (terms) => terms.governingLaw ?? NOT_STATED, compare: true },
+  { label: "Venue", format: (terms) => terms.venue ?? NOT_STATED, compare: true },
+  { label: "Non-solicitation", format: (terms) => formatMonths(terms.nonSolicitMonths), compare: true },
+  { label: "Residuals clause", format: (terms) => (terms.residualsClause ? "Yes" : "No"), compare: true },
+  { label: "Return or destruction", format: (terms) => formatDays(terms.returnOrDestructionDays), compare: true },
+]
+
+function differs(value: string, reference: string): boolean {
+  return value.trim().toLowerCase() !== reference.trim().toLowerCase()
+}
+
+/** Formats the key terms of each NDA into rows for the key-terms table and the review memo. */
+export function keyTermRows(keyTerms: KeyTermsComparison): KeyTermRow[] {
+  return KEY_TERM_FIELDS.map((field) => {
+    const reference = field.format(keyTerms.reference)
+    const customer = field.format(keyTerms.customer)
+    const baseline = keyTerms.baseline && field.format(keyTerms.baseline)
+    return {
+      label: field.label,
+      reference,
+      customer,
+      baseline,
+      customerDiffers: field.compare && differs(customer, reference),
+      baselineDiffers: field.compare && baseline !== undefined && differs(baseline, reference),
+    }
+  })
+}
@@ -0,0 +1,251 @@
+import { z } from "zod"
+import { estimateTokens, type AnalysisDocument } from "@/lib/chunked-analysis"
+import { segmentClauses } from "@/lib/clause-align"
+import { hashContent } from "@/lib/content-cache"
+import { AnalysisError } from "@/lib/errors"
+import type { ChatMessage, LLMProvider } from "@/lib/llm-providers"
+import { completeJson, SYSTEM_PROMPT } from "@/lib/nda-analysis"
+
+// A duration in months, "indefinite" for obligations without an end, or null when the NDA is silent
+const months = z.union([z.number().nonnegative(), z.literal("indefinite")]).nullable()
+
+/** Facts extracted from one NDA. Null means the NDA does not state the term. */
+export const ndaKeyTermsSchema = z.object({
+  parties: z.array(z.string().min(1)),
+  /** ISO date (YYYY-MM-DD) when the NDA names one, otherwise the wording used, e.g. "date of last signature". */
+  effectiveDate: z.string().nullable(),
+  mutuality: z.enum(["mutual", "one_way"]).nullable(),
+  termMonths: months,
+  /** How long confidentiality obligations survive expiry or termination. */
+  survivalMonths: months,
+  governingLaw: z.string().nullable(),
+  venue: z.string().nullable(),
+  nonSolicitMonths: z.number().nonnegative().nullable(),
+  residualsClause: z.boolean(),
+  /** Days after termination or a request within which confidential information must be returned or destroyed. */
+  returnOrDestructionDays: z.number().nonnegative().nullable(),
+})
+
+export type NdaKeyTerms = z.infer<typeof ndaKeyTermsSchema>
+
+/** Key terms of each NDA in a comparison. */
+export interface KeyTermsComparison {
+  reference: NdaKeyTerms
+  customer: NdaKeyTerms
+  baseline?: NdaKeyTerms
+}
+
+const monthsSchema = { anyOf: [{ type: "number", minimum: 0 }, { type: "string", enum: ["indefinite"] }, { type: "null" }] }
+
+// JSON-schema counterpart of ndaKeyTermsSchema for structured output; nullable fields are required and may be null
+export const KEY_TERMS_SCHEMA = {
+  type: "object",
+  properties: {
+    parties: { type: "array", items: { type: "string" } },
+    effectiveDate: { type: ["string", "null"] },
+    mutuality: { type: ["string", "null"], enum: ["mutual", "one_way", null] },
+    termMonths: monthsSchema,
+    survivalMonths: monthsSchema,
+    governingLaw: { type: ["string", "null"] },
+    venue: { type: ["string", "null"] },
+    nonSolicitMonths: { type: ["number", "null"], minimum: 0 },
+    residualsClause: { type: "boolean" },
+    returnOrDestructionDays: { type: ["number", "null"], minimum: 0 },
+  },
+  required: [
+    "parties",
+    "effectiveDate",
+    "mutuality",
+    "termMonths",
+    "survivalMonths",
+    "governingLaw",
+    "venue",
+    "nonSolicitMonths",
+    "residualsClause",
+    "returnOrDestructionDays",
+  ],
+}
+
+// Clauses that usually hold a key term; long NDAs are reduced to these and the preamble
+const KEY_TERM_PATTERN = /\b(between|effective|mutual|term|surviv|govern|laws? of|jurisdiction|venue|courts?|solicit|residual|return|destr)/i
+
+export function buildKeyTermsMessages(text: string): ChatMessage[] {
+  return [
+    {
+      role: "system",
+      content: SYSTEM_PROMPT
+    },
+    {
+      role: "user",
+      content: `Extract the key terms of the following NDA.
+
+NDA:
+${text}
+
+Report:
+- parties: the legal names of the parties
+- effectiveDate: the effective date as YYYY-MM-DD, or the wording used when it is not a calendar date (e.g. "date of last signature")
+- mutuality: "mutual" when both parties disclose and protect information, "one_way" when only one party does
+- termMonths: the term of the agreement in months, or "indefinite"
+- survivalMonths: how long confidentiality obligations survive expiry or termination, in months, or "indefinite"
+- governingLaw: the governing law, e.g. "State of California"
+- venue: the courts or place of dispute resolution
+- nonSolicitMonths: the duration of any non-solicitation obligation in months
+- residualsClause: whether the NDA has a residuals clause (use of information retained in unaided memory)
+- returnOrDestructionDays: the number of days within which confidential information must be returned or destroyed
+
+Convert years to months (two years = 24). Use null for anything the NDA does not state; do not guess.
+
+Provide your response as a JSON object with exactly these fields.`
+    }
+  ]
+}
+
+/**
+ * Hash of the key-term prompt and schema, part of the extraction cache key so
+ * results cached under an earlier prompt are not reused.
+ */
+export const KEY_TERMS_PROMPT_VERSION = hashContent(JSON.stringify([buildKeyTermsMessages(""), KEY_TERMS_SCHEMA]))
+
+// Keeps the whole text when it fits the budget, otherwise the preamble and the clauses likely to hold a key term
+function keyTermText(document: AnalysisDocument, maxTokens: number): string {
+  if (estimateTokens(document.text) <= maxTokens) return document.text
+
+  const clauses = segmentClauses(document, "kt")
+  let remaining = maxTokens
+  const kept: string[] = []
+  clauses.forEach((clause, index) => {
+    const text = `${clause.heading}\n${clause.text}`
+    if (index > 0 && !KEY_TERM_PATTERN.test(text)) return
+    const tokens = estimateTokens(text)
+    if (tokens > remaining) return
+    remaining -= tokens
+    kept.push(text)
+  })
+  return kept.join("\n\n")
+}
+
+/** Validates extracted key terms, reporting every field that does not match the schema. */
+export function parseKeyTerms(value: unknown): NdaKeyTerms {
+  const parsed = ndaKeyTermsSchema.safeParse(value)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "response"}: ${issue.message}`)
+    throw new AnalysisError("invalid_response", `Key terms did not match the schema (${issues.join("; ")})`)
+  }
+  return parsed.data
+}
+
+/** Extracts the key terms of one NDA with the LLM. */
+export async function extractKeyTerms(document: AnalysisDocument, provider: LLMProvider, maxTokens: number): Promise<NdaKeyTerms> {
+  const response = await completeJson<unknown>(
+    provider,
+    buildKeyTermsMessages(keyTermText(document, maxTokens)),
+    "key_terms",
+    KEY_TERMS_SCHEMA
+  )
+  return parseKeyTerms(response)
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, eighteen: 18, twenty: 20, thirty: 30, sixty: 60, ninety: 90,
+}
+
+// "two (2) years", "24 months", "thirty days"
+const DURATION = /\b(\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|eighteen|twenty|thirty|sixty|ninety)\s*(?:\(\d+\)\s*)?(?:business\s+|calendar\s+)?(years?|months?|days?)\b/i
+const INDEFINITE = /\b(indefinite(?:ly)?|perpetu(?:al|ity)|for so long as|until (?:such information|it) (?:is|becomes) public)/i
+
+// Sentences of each clause, heading first; a heading such as "1. Term." is read together with the sentence after it
+function clauseSentences(document: AnalysisDocument): string[] {
+  return segmentClauses(document, "kt").flatMap((clause) =>
+    `${clause.heading}\n${clause.text}`
+      .replace(/[ \t]+/g, " ")
+      .split(/(?<=[.;])\s+|\n+/)
+      .map((sentence) => sentence.trim())
+      .filter(Boolean)
+      .reduce<string[]>((sentences, sentence) => {
+        const previous = sentences[sentences.length - 1]
+        if (previous !== undefined && previous.split(" ").length <= 3 && !DURATION.test(previous)) {
+          sentences[sentences.length - 1] = `${previous} ${sentence}`
+        } else {
+          sentences.push(sentence)
+        }
+        return sentences
+      }, [])
+  )
+}
+
+function sentencesMatching(sentences: string[], pattern: RegExp): string[] {
+  return sentences.filter((sentence) => pattern.test(sentence))
+}
+
+function durationIn(sentence: string, unit: "months" | "days"): number | null {
+  const match = sentence.match(DURATION)
+  if (!match) return null
+  const amount = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1])
+  const period = match[2].toLowerCase()
+  if (unit === "days") return period.startsWith("day") ? amount : null
+  if (period.startsWith("year")) return amount * 12
+  return period.startsWith("month") ? amount : null
+}
+
+function firstDuration(sentences: string[], pattern: RegExp, unit: "months" | "days"): number | null {
+  for (const sentence of sentencesMatching(sentences, pattern)) {
+    const duration = durationIn(sentence, unit)
+    if (duration !== null) return duration
+  }
+  return null
+}
+
+function monthsOrIndefinite(sentences: string[], pattern: RegExp): number | "indefinite" | null {
+  const months = firstDuration(sentences, pattern, "months")
+  if (months !== null) return months
+  return sentencesMatching(sentences, pattern).some((sentence) => INDEFINITE.test(sentence)) ? "indefinite" : null
+}
+
+// "January 15, 2025" and "15 January 2025" parse as local dates, so they are formatted with local getters
+function toIsoDate(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  const time = Date.parse(value)
+  if (Number.isNaN(time)) return value
+  const date = new Date(time)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+}
+
+function cleanName(value: string): string {
+  return value.replace(/\s*\(.*$/, "").replace(/^the\s+/i, "").replace(/[\s,;.]+$/, "").trim()
+}
+
+/**
+ * Pattern-based extraction used when the LLM is unavailable. It reads common
+ * NDA phrasing only, so unusual wording comes back as null.
+ */
+export function extractKeyTermsLocally(document: AnalysisDocument): NdaKeyTerms {
+  const text = document.text.replace(/[ \t]+/g, " ")
+  const sentences = clauseSentences(document)
+
+  const partiesMatch = text.match(/\bbetween\s+(.{3,120}?)\s+and\s+(.{3,120}?)(?:[.;]|\s+\(|$)/im)
+  const dateMatch = text.match(
+    /\b(?:effective|dated|made|entered\s+into)\s+(?:as\s+of\s+|on\s+)?([A-Z][a-z]+\s+\d{1,2},\s*\d{4}|\d{4}-\d{2}-\d{2}|\d{1,2}\s+[A-Z][a-z]+\s+\d{4})/i
+  )
+  const lawMatch = text.match(/\bgoverned\s+by[^.]*?laws?\s+of\s+(?:the\s+)?(.+?)(?:,|\.|\s+without\b|\s+and\b)/i)
+  const venueMatch =
+    text.match(/\b(?:exclusive\s+)?jurisdiction\s+of\s+the\s+(.+?courts?[^.,;]*)/i) ??
+    text.match(/\bcourts?\s+(?:located\s+)?in\s+([^.;]+)/i)
+
+  const mutual = /\bmutual\b|\beach\s+party\b[^.]*\bdisclos|\beither\s+party\b[^.]*\bdisclos/i.test(text)
+  const oneWay = /\b(disclosing\s+party|discloser|recipient|receiving\s+party)\b/i.test(text)
+
+  return {
+    parties: partiesMatch ? [cleanName(partiesMatch[1]), cleanName(partiesMatch[2])].filter(Boolean) : [],
+    effectiveDate: dateMatch ? toIsoDate(dateMatch[1]) : null,
+    mutuality: mutual ? "mutual" : oneWay ? "one_way" : null,
+    termMonths: monthsOrIndefinite(sentences, /\bterm\b(?![^.]*surviv)/i),
+    survivalMonths: monthsOrIndefinite(sentences, /\bsurviv/i),
+    governingLaw: lawMatch ? cleanName(lawMatch[1]) : null,
+    venue: venueMatch ? cleanName(venueMatch[1]) : null,
+    nonSolicitMonths: firstDuration(sentences, /\bsolicit/i, "months"),
+    residualsClause: /\bresiduals?\b|\bunaided\s+memory\b/i.test(text),
+    returnOrDestructionDays: firstDuration(sentences, /\b(return|destroy|destruction)\b/i, "days"),
+  }
+}
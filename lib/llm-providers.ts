@@ -0,0 +1,294 @@
+import { readFileSync } from "fs"
+import { AnalysisError } from "@/lib/errors"
+
+export interface ChatMessage {
+  role: "user" | "assistant" | "system"
+  content: string
+}
+
+export interface StructuredCompletionRequest {
+  messages: ChatMessage[]
+  schemaName: string
+  schema: Record<string, unknown>
+  /** When set, the reply is streamed and this is called with the text received so far. */
+  onText?: (content: string) => void
+}
+
+export interface LLMProvider {
+  name: string
+  model: string
+  /** Returns the raw JSON string produced for the requested schema. */
+  complete(request: StructuredCompletionRequest): Promise<string>
+}
+
+interface ChatCompletionResponse {
+  id: string
+  object: string
+  created: number
+  model: string
+  choices: Array<{
+    index: number
+    message: {
+      role: string
+      content: string
+    }
+    finish_reason: string
+  }>
+  usage: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+  }
+}
+
+interface ChatCompletionChunk {
+  choices: Array<{
+    index: number
+    delta: {
+      content?: string | null
+    }
+    finish_reason: string | null
+  }>
+}
+
+// Reads a `stream: true` reply (server-sent `data:` lines) and returns the whole content
+async function readCompletionStream(name: string, body: ReadableStream<Uint8Array>, onText: (content: string) => void): Promise<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  let content = ""
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffer += decoder.decode(value, { stream: !done })
+
+    const lines = buffer.split("\n")
+    buffer = done ? "" : lines.pop() ?? ""
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue
+      const data = line.slice("data:".length).trim()
+      if (data === "[DONE]") continue
+
+      let chunk: ChatCompletionChunk
+      try {
+        chunk = JSON.parse(data)
+      } catch {
+        throw new AnalysisError("invalid_response", `${name} sent a malformed stream chunk`)
+      }
+      const delta = chunk.choices?.[0]?.delta?.content
+      if (delta) {
+        content += delta
+        onText(content)
+      }
+    }
+
+    if (done) break
+  }
+
+  if (!content) {
+    throw new AnalysisError("invalid_response", `No response from ${name}`)
+  }
+  return content
+}
+
+interface OpenAICompatibleOptions {
+  name: string
+  baseUrl: string
+  apiKey?: string
+  model: string
+  extraBody?: Record<string, unknown>
+}
+
+export function createOpenAICompatibleProvider({ name, baseUrl, apiKey, model, extraBody }: OpenAICompatibleOptions): LLMProvider {
+  return {
+    name,
+    model,
+    async complete({ messages, schemaName, schema, onText }: StructuredCompletionRequest): Promise<string> {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      }
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`
+      }
+
+      let response: Response
+      try {
+        response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model,
+            messages,
+            ...extraBody,
+            stream: Boolean(onText),
+            response_format: {
+              type: "json_schema",
+              json_schema: {
+                name: schemaName,
+                schema,
+                strict: true
+              }
+            }
+          }),
+        })
+      } catch (networkError) {
+        throw new AnalysisError(
+          "provider_unavailable",
+          `${name} request failed: ${networkError instanceof Error ? networkError.message : "network error"}`
+        )
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new AnalysisError(
+          response.status >= 500 || response.status === 429 ? "provider_unavailable" : "provider_rejected",
+          `${name} API error: ${response.status} - ${errorText}`
+        )
+      }
+
+      if (onText && response.body) {
+        return readCompletionStream(name, response.body, onText)
+      }
+
+      const result: ChatCompletionResponse = await response.json()
+
+      if (!result.choices || result.choices.length === 0) {
+        throw new AnalysisError("invalid_response", `No response from ${name}`)
+      }
+
+      return result.choices[0].message.content
+    }
+  }
+}
+
+export function createUpstageProvider(): LLMProvider {
+  const apiKey = process.env.UPSTAGE_API_KEY
+
+  if (!apiKey) {
+    throw new AnalysisError("provider_not_configured", "UPSTAGE_API_KEY environment variable is required")
+  }
+
+  return createOpenAICompatibleProvider({
+    name: "upstage",
+    baseUrl: "https://api.upstage.ai/v1",
+    apiKey,
+    model: process.env.UPSTAGE_MODEL_NAME || "solar-pro2-preview",
+    extraBody: { reasoning_effort: "high" }
+  })
+}
+
+export function createLocalOpenAIProvider(): LLMProvider {
+  const baseUrl = process.env.LLM_BASE_URL
+
+  if (!baseUrl) {
+    throw new AnalysisError("provider_not_configured", "LLM_BASE_URL environment variable is required for the openai-compatible provider")
+  }
+
+  return createOpenAICompatibleProvider({
+    name: "openai-compatible",
+    baseUrl,
+    apiKey: process.env.LLM_API_KEY,
+    model: process.env.LLM_MODEL || "default"
+  })
+}
+
+// Canned responses keyed by schema name, used when LLM_FIXTURE_PATH is not set
+const builtInFixtures: Record<string, unknown> = {
+  nda_analysis: {
+    sections: [
+      {
+        title: "1. Definitions",
+        match: 90,
+        differences: "Fixture response: definitions are substantially the same"
+      },
+      {
+        title: "2. Term",
+        match: 60,
+        differences: "Fixture response: the customer NDA uses a longer term"
+      }
+    ],
+    risks: [
+      {
+        section: "2. Term",
+        severity: "medium",
+        title: "Longer Confidentiality Term",
+        description: "Fixture response: the customer NDA extends the confidentiality period",
+        recommendation: "Fixture response: align the term with the reference NDA"
+      }
+    ],
+    summary: {
+      overallRisk: "medium",
+      keyIssues: ["Longer confidentiality term"],
+      recommendation: "Fixture response: negotiate the term before signing"
+    }
+  },
+  playbook_evaluation: {
+    evaluations: [
+      { clauseType: "term", tier: "fallback", rationale: "Fixture response: the term matches an acceptable fallback" },
+      { clauseType: "residuals", tier: "missing", rationale: "Fixture response: no residuals clause" },
+      { clauseType: "non_solicit", tier: "missing", rationale: "Fixture response: no non-solicitation clause" },
+      { clauseType: "governing_law", tier: "preferred", rationale: "Fixture response: governing law matches the preferred position" },
+      { clauseType: "injunctive_relief", tier: "walk_away", rationale: "Fixture response: injunctive relief is one-sided" }
+    ]
+  },
+  key_terms: {
+    parties: ["Fixture Corp.", "Example Customer Inc."],
+    effectiveDate: "2025-01-01",
+    mutuality: "mutual",
+    termMonths: 24,
+    survivalMonths: 36,
+    governingLaw: "State of Delaware",
+    venue: "Courts of Wilmington, Delaware",
+    nonSolicitMonths: null,
+    residualsClause: false,
+    returnOrDestructionDays: 30
+  }
+}
+
+/**
+ * Deterministic provider for tests and offline demos. Responses come from the
+ * JSON file named by LLM_FIXTURE_PATH (an object keyed by schema name) or from
+ * the built-in fixtures; the prompt itself is ignored.
+ */
+export function createFixtureProvider(): LLMProvider {
+  const fixturePath = process.env.LLM_FIXTURE_PATH
+  const fixtures: Record<string, unknown> = fixturePath
+    ? { ...builtInFixtures, ...JSON.parse(readFileSync(fixturePath, "utf-8")) }
+    : builtInFixtures
+
+  return {
+    name: "fixture",
+    model: fixturePath ? `fixture:${fixturePath}` : "fixture:built-in",
+    async complete({ schemaName, onText }: StructuredCompletionRequest): Promise<string> {
+      const fixture = fixtures[schemaName]
+
+      if (fixture === undefined) {
+        throw new AnalysisError("provider_not_configured", `No fixture response for schema "${schemaName}"`)
+      }
+
+      const content = JSON.stringify(fixture)
+      onText?.(content)
+      return content
+    }
+  }
+}
+
+const llmProviders: Record<string, () => LLMProvider> = {
+  upstage: createUpstageProvider,
+  "openai-compatible": createLocalOpenAIProvider,
+  fixture: createFixtureProvider,
+}
+
+/**
+ * Returns the provider selected by LLM_PROVIDER ("upstage",
+ * "openai-compatible" or "fixture"), defaulting to Upstage Solar.
+ */
+export function getLLMProvider(name = process.env.LLM_PROVIDER || "upstage"): LLMProvider {
+  const factory = llmProviders[name]
+
+  if (!factory) {
+    throw new AnalysisError("provider_not_configured", `Unknown LLM provider "${name}". Expected one of: ${Object.keys(llmProviders).join(", ")}`)
+  }
+
+  return factory()
+}
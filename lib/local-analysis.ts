@@ -0,0 +1,132 @@
+import { alignClauses, segmentClauses, type SegmentableDocument } from "@/lib/clause-align"
+import type { AnalysisResult, AnalysisRisk, AnalysisSection, RiskLevel } from "@/lib/nda-analysis"
+import { contentWords, similarity } from "@/lib/text-similarity"
+
+// Clause-type phrases that materially change an NDA when they appear only in the customer draft
+const RISK_PHRASES: Array<{ pattern: RegExp; title: string; severity: RiskLevel }> = [
+  { pattern: /liquidated damages/i, title: "Liquidated damages clause", severity: "high" },
+  { pattern: /automatic(ally)? renew/i, title: "Automatic renewal", severity: "high" },
+  { pattern: /indemnif/i, title: "Indemnification obligation", severity: "high" },
+  { pattern: /perpetual|in perpetuity|indefinite/i, title: "Perpetual obligations", severity: "high" },
+  { pattern: /non-?solicit/i, title: "Non-solicitation covenant", severity: "medium" },
+  { pattern: /non-?compet/i, title: "Non-compete covenant", severity: "high" },
+  { pattern: /residual/i, title: "Residuals clause", severity: "medium" },
+  { pattern: /exclusive jurisdiction|governed by the laws/i, title: "Governing law or jurisdiction", severity: "medium" },
+  { pattern: /attorney'?s? fees/i, title: "Attorney fee shifting", severity: "medium" },
+]
+
+function describeDifferences(reference: Set<string>, customer: Set<string>): string {
+  const added = Array.from(customer).filter((word) => !reference.has(word)).slice(0, 8)
+  const removed = Array.from(reference).filter((word) => !customer.has(word)).slice(0, 8)
+
+  if (added.length === 0 && removed.length === 0) {
+    return "Wording is substantially identical"
+  }
+
+  const parts: string[] = []
+  if (added.length > 0) parts.push(`customer-only terms: ${added.join(", ")}`)
+  if (removed.length > 0) parts.push(`reference-only terms: ${removed.join(", ")}`)
+  return `Automated word comparison — ${parts.join("; ")}`
+}
+
+/**
+ * Deterministic comparison used when no LLM is reachable. It only measures
+ * textual overlap and flags known risky phrases; it does not interpret the
+ * legal effect of any clause.
+ */
+export function analyzeLocally(reference: SegmentableDocument, customer: SegmentableDocument): AnalysisResult {
+  const referenceClauses = segmentClauses(reference, "ref")
+  const customerClauses = segmentClauses(customer, "cust")
+  const byId = new Map([...referenceClauses, ...customerClauses].map((clause) => [clause.id, clause]))
+
+  const sections: AnalysisSection[] = []
+  const risks: AnalysisRisk[] = []
+
+  for (const entry of alignClauses(referenceClauses, customerClauses)) {
+    const referenceClause = entry.referenceId ? byId.get(entry.referenceId) : undefined
+    const customerClause = entry.customerId ? byId.get(entry.customerId) : undefined
+    const ids = {
+      referenceClauseIds: referenceClause ? [referenceClause.id] : [],
+      customerClauseIds: customerClause ? [customerClause.id] : [],
+    }
+
+    if (!customerClause && referenceClause) {
+      sections.push({
+        title: referenceClause.heading,
+        match: 0,
+        differences: "No corresponding clause was found in the customer NDA",
+        ...ids,
+      })
+      risks.push({
+        section: referenceClause.heading,
+        severity: "medium",
+        title: "Reference clause not found",
+        description: `The customer NDA does not appear to contain a clause matching "${referenceClause.heading}".`,
+        recommendation: "Confirm manually whether this protection is covered elsewhere in the customer NDA.",
+      })
+      continue
+    }
+
+    if (!referenceClause && customerClause) {
+      sections.push({
+        title: customerClause.heading,
+        match: 0,
+        differences: "Clause appears only in the customer NDA",
+        ...ids,
+      })
+      continue
+    }
+
+    if (!referenceClause || !customerClause) continue
+
+    const referenceWords = contentWords(referenceClause.text)
+    const customerWords = contentWords(customerClause.text)
+    const match = Math.round(similarity(referenceWords, customerWords) * 100)
+    sections.push({
+      title: referenceClause.heading,
+      match,
+      differences: describeDifferences(referenceWords, customerWords),
+      ...ids,
+    })
+
+    if (match < 50) {
+      risks.push({
+        section: referenceClause.heading,
+        severity: "medium",
+        title: "Substantially different wording",
+        description: `Only ${match}% of the substantive wording overlaps with the reference clause.`,
+        recommendation: "Have counsel compare this clause against the reference NDA.",
+      })
+    }
+  }
+
+  for (const phrase of RISK_PHRASES) {
+    if (phrase.pattern.test(customer.text) && !phrase.pattern.test(reference.text)) {
+      const clause = customerClauses.find((candidate) => phrase.pattern.test(candidate.text))
+      risks.push({
+        section: clause?.heading ?? "Customer NDA",
+        severity: phrase.severity,
+        title: phrase.title,
+        description: `The customer NDA contains language matching "${phrase.title.toLowerCase()}" that is absent from the reference NDA.`,
+        recommendation: "Review this clause with counsel before accepting it.",
+      })
+    }
+  }
+
+  const overallRisk: RiskLevel = risks.some((risk) => risk.severity === "high")
+    ? "high"
+    : risks.some((risk) => risk.severity === "medium")
+      ? "medium"
+      : "low"
+
+  return {
+    sections,
+    risks,
+    summary: {
+      overallRisk,
+      keyIssues: risks.map((risk) => `${risk.title} (${risk.section})`),
+      recommendation: "This is an automated text comparison produced without AI analysis. Treat every finding as a pointer for manual legal review, not as advice.",
+    },
+    clauses: { reference: referenceClauses, customer: customerClauses },
+  }
+}
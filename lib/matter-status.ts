@@ -0,0 +1,27 @@
+/**
+ * Where a matter stands in the deal: open while the NDA is being negotiated,
+ * on hold when the counterparty has gone quiet, signed or closed when done.
+ */
+export type MatterStatus = "open" | "on_hold" | "signed" | "closed"
+
+export const MATTER_STATUSES: MatterStatus[] = ["open", "on_hold", "signed", "closed"]
+
+export const MATTER_STATUS_LABELS: Record<MatterStatus, string> = {
+  open: "Open",
+  on_hold: "On hold",
+  signed: "Signed",
+  closed: "Closed",
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Whole days between `since` and `now`. */
+export function ageInDays(since: string, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(since).getTime()) / DAY_MS))
+}
+
+/** True when an open or on-hold matter is past its due date (a `YYYY-MM-DD` day). */
+export function isOverdue(matter: { status: MatterStatus; dueDate: string | null }, now: Date = new Date()): boolean {
+  if (!matter.dueDate || matter.status === "signed" || matter.status === "closed") return false
+  return matter.dueDate < now.toISOString().slice(0, 10)
+}
@@ -0,0 +1,247 @@
+import {
+  analysisDocumentIds,
+  getAnalysis,
+  getDocument,
+  listStoredAnalyses,
+  updateAnalysis,
+  type AnalysisExport,
+  type DocumentType,
+  type StoredAnalysis,
+} from "@/lib/analysis-store"
+import type { AnalysisApproval } from "@/lib/approvals"
+import { MATTER_STATUSES, type MatterStatus } from "@/lib/matter-status"
+import type { RiskLevel } from "@/lib/nda-analysis"
+import { getReviewProgress, type ReviewStatus } from "@/lib/risk-decisions"
+import { compareRounds, type RoundComparison } from "@/lib/round-comparison"
+import { createId, createJsonCollection } from "@/lib/storage"
+
+/** A deal with one counterparty: its NDA documents and every analysis round run on them. */
+export interface Matter {
+  id: string
+  name: string
+  counterparty: string
+  /** Person on the deal team who owns the NDA request. */
+  owner: string
+  status: MatterStatus
+  /** `YYYY-MM-DD`, when the NDA needs to be signed. */
+  dueDate: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type MatterInput = Pick<Matter, "name" | "counterparty" | "owner" | "status" | "dueDate">
+
+/** Dashboard entry; risk and review fields describe the latest round. */
+export interface MatterListItem extends Matter {
+  roundCount: number
+  latestAnalysisId: string | null
+  overallRisk: RiskLevel | null
+  highRiskCount: number
+  reviewStatus: ReviewStatus | null
+  approvalStatus: AnalysisApproval["status"] | null
+}
+
+export interface MatterRound {
+  analysisId: string
+  round: number
+  customerFileName: string
+  overallRisk: RiskLevel
+  riskCount: number
+  highRiskCount: number
+  reviewStatus: ReviewStatus
+  decidedCount: number
+  approvalStatus: AnalysisApproval["status"] | null
+  exports: AnalysisExport[]
+  createdAt: string
+  /** Changes since the previous round; null for the first round. */
+  comparison: RoundComparison | null
+}
+
+export interface MatterDocument {
+  id: string
+  fileName: string
+  documentType: DocumentType
+  uploadedAt: string
+  /** Rounds that analyzed this document. */
+  rounds: number[]
+}
+
+export interface MatterWorkspace {
+  matter: Matter
+  rounds: MatterRound[]
+  documents: MatterDocument[]
+}
+
+const matters = createJsonCollection<Matter>("matters")
+
+export function getMatter(id: string): Promise<Matter | null> {
+  return matters.get(id)
+}
+
+export async function saveMatter(input: MatterInput, id: string = createId()): Promise<Matter> {
+  const now = new Date().toISOString()
+  const updated = await matters.update(id, (existing) => ({ ...input, id, createdAt: existing.createdAt, updatedAt: now }))
+  return updated ?? matters.put({ ...input, id, createdAt: now, updatedAt: now })
+}
+
+/** Deletes the matter; its analyses stay in the history, detached from it. */
+export async function deleteMatter(id: string): Promise<boolean> {
+  if (!(await matters.delete(id))) return false
+
+  for (const analysis of await roundsOf(id)) {
+    await updateAnalysis(analysis.id, (current) => ({ ...current, matterId: undefined, round: undefined }))
+  }
+  return true
+}
+
+/** Returns a list of problems, empty when the payload is a valid matter. */
+export function validateMatter(value: unknown): string[] {
+  const matter = value as Partial<MatterInput> | null
+  const problems: string[] = []
+
+  if (!matter || typeof matter.name !== "string" || !matter.name.trim()) problems.push("name is required")
+  if (typeof matter?.counterparty !== "string" || !matter.counterparty.trim()) problems.push("counterparty is required")
+  if (matter?.owner !== undefined && typeof matter.owner !== "string") problems.push("owner must be a string")
+  if (matter?.status !== undefined && !MATTER_STATUSES.includes(matter.status)) {
+    problems.push(`status must be one of ${MATTER_STATUSES.join(", ")}`)
+  }
+  if (matter?.dueDate != null && (typeof matter.dueDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(matter.dueDate))) {
+    problems.push("dueDate must be a YYYY-MM-DD date")
+  }
+
+  return problems
+}
+
+export function toMatterInput(value: Partial<MatterInput> & Pick<MatterInput, "name" | "counterparty">): MatterInput {
+  return {
+    name: value.name.trim(),
+    counterparty: value.counterparty.trim(),
+    owner: value.owner?.trim() ?? "",
+    status: value.status ?? "open",
+    dueDate: value.dueDate || null,
+  }
+}
+
+async function roundsOf(matterId: string): Promise<StoredAnalysis[]> {
+  return (await listStoredAnalyses())
+    .filter((record) => record.matterId === matterId)
+    .sort((a, b) => (a.round ?? 0) - (b.round ?? 0) || a.createdAt.localeCompare(b.createdAt))
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "")
+}
+
+/**
+ * Files an analysis as the matter's next round. Returns null when either the
+ * matter or the analysis does not exist.
+ */
+export async function addAnalysisToMatter(matterId: string, analysisId: string): Promise<{ matterId: string; round: number } | null> {
+  if (!(await getAnalysis(analysisId))) return null
+
+  // Numbered inside the matter's update, so analyses filed at the same time get distinct rounds
+  let round = 0
+  const matter = await matters.update(matterId, async (current) => {
+    round = Math.max(0, ...(await roundsOf(matterId)).map((record) => record.round ?? 0)) + 1
+    await updateAnalysis(analysisId, (analysis) => ({ ...analysis, matterId, round }))
+    return { ...current, updatedAt: new Date().toISOString() }
+  })
+  return matter ? { matterId, round } : null
+}
+
+/**
+ * Files `analysisId` as the next round after `previousAnalysisId`. A previous
+ * analysis that is not part of a matter yet starts one as its first round.
+ * Returns null when either analysis does not exist.
+ */
+export async function addNegotiationRound(
+  previousAnalysisId: string,
+  analysisId: string
+): Promise<{ matterId: string; round: number } | null> {
+  const previous = await getAnalysis(previousAnalysisId)
+  if (!previous || !(await getAnalysis(analysisId))) return null
+
+  let matterId = previous.matterId
+  if (!matterId || !(await matters.get(matterId))) {
+    const customer = await getDocument(previous.customerDocumentId)
+    const name = stripExtension(customer?.fileName ?? "Untitled matter")
+    const matter = await saveMatter({ name, counterparty: name, owner: "", status: "open", dueDate: null })
+    await updateAnalysis(previous.id, (current) => ({ ...current, matterId: matter.id, round: 1 }))
+    matterId = matter.id
+  }
+
+  return addAnalysisToMatter(matterId, analysisId)
+}
+
+/** Open and on-hold matters first, then by latest round's risk (highest first) and age (oldest first). */
+export async function listMatters(): Promise<MatterListItem[]> {
+  const records = await listStoredAnalyses()
+  const riskRank: Record<RiskLevel, number> = { high: 0, medium: 1, low: 2 }
+  const statusRank: Record<MatterStatus, number> = { open: 0, on_hold: 0, signed: 1, closed: 1 }
+
+  const items = (await matters.list()).map((matter): MatterListItem => {
+    const rounds = records
+      .filter((record) => record.matterId === matter.id)
+      .sort((a, b) => (a.round ?? 0) - (b.round ?? 0))
+    const latest = rounds[rounds.length - 1]
+
+    return {
+      ...matter,
+      roundCount: rounds.length,
+      latestAnalysisId: latest?.id ?? null,
+      overallRisk: latest?.result.summary.overallRisk ?? null,
+      highRiskCount: latest?.result.risks.filter((risk) => risk.severity === "high").length ?? 0,
+      reviewStatus: latest ? getReviewProgress(latest.result.risks.length, latest.decisions ?? []).status : null,
+      approvalStatus: latest?.approval?.status ?? null,
+    }
+  })
+
+  return items.sort((a, b) =>
+    statusRank[a.status] - statusRank[b.status] ||
+    (a.overallRisk ? riskRank[a.overallRisk] : 3) - (b.overallRisk ? riskRank[b.overallRisk] : 3) ||
+    a.createdAt.localeCompare(b.createdAt)
+  )
+}
+
+/** The matter with its rounds in order, each compared with the round before it, and every document they used. */
+export async function getMatterWorkspace(id: string): Promise<MatterWorkspace | null> {
+  const matter = await matters.get(id)
+  if (!matter) return null
+
+  const records = await roundsOf(id)
+  const documentRounds = new Map<string, number[]>()
+  const rounds = await Promise.all(records.map(async (record, index): Promise<MatterRound> => {
+    const round = record.round ?? index + 1
+    for (const documentId of analysisDocumentIds(record)) {
+      documentRounds.set(documentId, [...(documentRounds.get(documentId) ?? []), round])
+    }
+    const progress = getReviewProgress(record.result.risks.length, record.decisions ?? [])
+
+    return {
+      analysisId: record.id,
+      round,
+      customerFileName: (await getDocument(record.customerDocumentId))?.fileName ?? "Deleted document",
+      overallRisk: record.result.summary.overallRisk,
+      riskCount: record.result.risks.length,
+      highRiskCount: record.result.risks.filter((risk) => risk.severity === "high").length,
+      reviewStatus: progress.status,
+      decidedCount: progress.decided,
+      approvalStatus: record.approval?.status ?? null,
+      exports: record.exports ?? [],
+      createdAt: record.createdAt,
+      comparison: index > 0 ? compareRounds(records[index - 1].result, record.result) : null,
+    }
+  }))
+
+  const documents = (await Promise.all(Array.from(documentRounds.keys()).map(getDocument)))
+    .filter((document): document is NonNullable<typeof document> => Boolean(document))
+    .map(({ id, fileName, documentType, uploadedAt }): MatterDocument => ({
+      id,
+      fileName,
+      documentType,
+      uploadedAt,
+      rounds: documentRounds.get(id) ?? [],
+    }))
+
+  return { matter, rounds, documents }
+}
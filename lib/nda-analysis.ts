@@ -0,0 +1,186 @@
+import type { Clause } from "@/lib/clause-align"
+import { AnalysisError } from "@/lib/errors"
+import type { KeyTermsComparison } from "@/lib/key-terms"
+import { getLLMProvider, type ChatMessage, type LLMProvider } from "@/lib/llm-providers"
+import type { PlaybookEvaluation } from "@/lib/playbook"
+
+export type RiskLevel = "low" | "medium" | "high"
+
+export interface AnalysisSection {
+  title: string
+  match: number
+  differences: string
+  /** Clause ids from `AnalysisResult.clauses` this section compares. */
+  referenceClauseIds?: string[]
+  customerClauseIds?: string[]
+  /** Set in three-way comparisons: the baseline clauses and how closely the customer clause matches them. */
+  baselineClauseIds?: string[]
+  baselineMatch?: number
+}
+
+/**
+ * In a three-way comparison, whether the customer clause behind a risk
+ * deviates from our reference NDA, from the market baseline, or from both.
+ */
+export type RiskDeviation = "ours" | "market" | "both"
+
+export interface AnalysisRisk {
+  section: string
+  severity: RiskLevel
+  title: string
+  description: string
+  recommendation: string
+  deviation?: RiskDeviation
+}
+
+export interface AnalysisSummary {
+  overallRisk: RiskLevel
+  keyIssues: string[]
+  recommendation: string
+}
+
+export interface AnalysisProvenance {
+  provider: string
+  model: string
+  mode: "llm" | "local-fallback"
+  degraded: boolean
+  /** Why the analysis ran in degraded mode, when it did. */
+  reason?: string
+  /** Number of provider requests the documents were split into. */
+  batches?: number
+  /** The section and risk analysis was reused from the content cache. */
+  cached?: boolean
+  generatedAt: string
+}
+
+export interface AnalysisResult {
+  sections: AnalysisSection[]
+  risks: AnalysisRisk[]
+  summary: AnalysisSummary
+  clauses?: {
+    reference: Clause[]
+    customer: Clause[]
+    /** Clauses of the market baseline in three-way comparisons. */
+    baseline?: Clause[]
+  }
+  /** Structured terms (parties, term, governing law, ...) of each NDA. */
+  keyTerms?: KeyTermsComparison
+  /** Tier of each playbook clause type in the customer NDA. */
+  playbook?: PlaybookEvaluation[]
+  provenance?: AnalysisProvenance
+}
+
+export const NDA_ANALYSIS_SCHEMA = {
+  type: "object",
+  properties: {
+    sections: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          match: { type: "number", minimum: 0, maximum: 100 },
+          differences: { type: "string" }
+        },
+        required: ["title", "match", "differences"]
+      }
+    },
+    risks: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          section: { type: "string" },
+          severity: { type: "string", enum: ["low", "medium", "high"] },
+          title: { type: "string" },
+          description: { type: "string" },
+          recommendation: { type: "string" }
+        },
+        required: ["section", "severity", "title", "description", "recommendation"]
+      }
+    },
+    summary: {
+      type: "object",
+      properties: {
+        overallRisk: { type: "string", enum: ["low", "medium", "high"] },
+        keyIssues: {
+          type: "array",
+          items: { type: "string" }
+        },
+        recommendation: { type: "string" }
+      },
+      required: ["overallRisk", "keyIssues", "recommendation"]
+    }
+  },
+  required: ["sections", "risks", "summary"]
+}
+
+export const SYSTEM_PROMPT = "You are an expert legal assistant specializing in NDA (Non-Disclosure Agreement) analysis. You help identify risks, differences, and provide recommendations for contract negotiations. You must respond with valid JSON following the specified schema."
+
+export function buildAnalysisMessages(referenceText: string, customerText: string): ChatMessage[] {
+  return [
+    {
+      role: "system",
+      content: SYSTEM_PROMPT
+    },
+    {
+      role: "user",
+      content: `I have two NDAs to compare: a reference NDA and a customer NDA.
+
+Reference NDA:
+${referenceText}
+
+Customer NDA:
+${customerText}
+
+Please analyze these NDAs and provide a detailed comparison. Focus on:
+1. A section-by-section comparison highlighting differences with match percentages
+2. Identification of potential risks in the customer NDA compared to the reference NDA
+3. Recommendations on whether to accept, negotiate, or reject specific terms
+4. An overall risk assessment (low, medium, high)
+
+Provide your response as a JSON object with the following structure:
+- sections: Array of section comparisons with title, match percentage (0-100), and differences
+- risks: Array of identified risks with section, severity (low/medium/high), title, description, and recommendation
+- summary: Object with overallRisk (low/medium/high), keyIssues array, and overall recommendation
+
+Focus on practical legal analysis and actionable recommendations.`
+    }
+  ]
+}
+
+/**
+ * Sends a structured request to the provider and parses the JSON reply.
+ * `onText` streams the reply and receives the text received so far.
+ */
+export async function completeJson<T>(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  schemaName: string,
+  schema: Record<string, unknown>,
+  onText?: (content: string) => void
+): Promise<T> {
+  const content = await provider.complete({ messages, schemaName, schema, onText })
+
+  try {
+    return JSON.parse(content) as T
+  } catch (parseError) {
+    console.error(`Failed to parse ${provider.name} response as JSON:`, content)
+    throw new AnalysisError("invalid_response", "LLM response was not valid JSON")
+  }
+}
+
+export async function analyzeNdas(
+  referenceText: string,
+  customerText: string,
+  provider: LLMProvider = getLLMProvider(),
+  onText?: (content: string) => void
+): Promise<AnalysisResult> {
+  return completeJson<AnalysisResult>(
+    provider,
+    buildAnalysisMessages(referenceText, customerText),
+    "nda_analysis",
+    NDA_ANALYSIS_SCHEMA,
+    onText
+  )
+}
@@ -1,14 +1,9 @@
-// This is a placeholder for the actual PDF processing logic
-// In a real implementation, you would use a library like pdf-parse
+import { createLocalDocumentParser } from "@/lib/document-parser"
 
 export async function extractTextFromPdf(file: File): Promise<string> {
-  // This is a mock implementation
-  // In a real app, you would use pdf-parse or a similar library
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve("This is extracted text from the PDF file: " + file.name)
-    }, 1000)
-  })
+  // Uses the offline parser so no document content leaves the machine
+  const parsed = await createLocalDocumentParser().parse(file)
+  return parsed.text
 }
 
 export async function comparePdfs(referenceText: string, customerText: string) {
@@ -0,0 +1,289 @@
+import type { Clause } from "@/lib/clause-align"
+import type { ChatMessage, LLMProvider } from "@/lib/llm-providers"
+import { completeJson, SYSTEM_PROMPT } from "@/lib/nda-analysis"
+import { createJsonCollection } from "@/lib/storage"
+import { contentWords, similarity } from "@/lib/text-similarity"
+
+/** The company's negotiating positions for one type of clause. */
+export interface PlaybookEntry {
+  /** Stable key, e.g. "term" or "governing_law". */
+  clauseType: string
+  label: string
+  /** Words that identify the clause in a heading or body, e.g. ["governing law", "jurisdiction"]. */
+  keywords: string[]
+  preferred: string
+  fallbacks: string[]
+  walkAway: string
+}
+
+export interface Playbook {
+  id: string
+  name: string
+  entries: PlaybookEntry[]
+  updatedAt: string
+}
+
+/**
+ * Where a customer clause falls in the playbook. "unacceptable" is beyond the
+ * walk-away position; "missing" means the customer NDA has no such clause.
+ */
+export type PlaybookTier = "preferred" | "fallback" | "walk_away" | "unacceptable" | "missing"
+
+export interface PlaybookEvaluation {
+  clauseType: string
+  label: string
+  tier: PlaybookTier
+  /** Customer clauses the evaluation is based on. */
+  customerClauseIds: string[]
+  rationale: string
+}
+
+export const PLAYBOOK_TIERS: PlaybookTier[] = ["preferred", "fallback", "walk_away", "unacceptable", "missing"]
+
+export const PLAYBOOK_TIER_LABELS: Record<PlaybookTier, string> = {
+  preferred: "Preferred",
+  fallback: "Fallback",
+  walk_away: "Walk-away",
+  unacceptable: "Beyond walk-away",
+  missing: "Missing",
+}
+
+export const DEFAULT_PLAYBOOK: Playbook = {
+  id: "default",
+  name: "Company NDA Playbook",
+  updatedAt: new Date(0).toISOString(),
+  entries: [
+    {
+      clauseType: "term",
+      label: "Term",
+      keywords: ["term", "duration", "survive", "survives", "survival", "termination"],
+      preferred: "Two-year term; confidentiality obligations survive for three years after termination.",
+      fallbacks: ["Three-year term with up to five years of survival.", "Trade secrets protected for as long as they remain trade secrets."],
+      walkAway: "Confidentiality obligations that are perpetual for all information, or automatic renewal without a right to terminate.",
+    },
+    {
+      clauseType: "residuals",
+      label: "Residuals",
+      keywords: ["residual", "residuals", "unaided memory", "retained in memory"],
+      preferred: "No residuals clause.",
+      fallbacks: ["Residuals limited to general skills and know-how, excluding trade secrets and patents."],
+      walkAway: "Residuals clause that lets the recipient use any information retained in unaided memory.",
+    },
+    {
+      clauseType: "non_solicit",
+      label: "Non-Solicitation",
+      keywords: ["solicit", "solicitation", "non-solicitation", "hire", "employ", "employees"],
+      preferred: "Mutual non-solicitation of employees for twelve months, excluding general job advertisements.",
+      fallbacks: ["Non-solicitation limited to employees directly involved in the evaluation, for up to eighteen months."],
+      walkAway: "One-way non-solicitation or non-compete binding only us, or any restriction longer than two years.",
+    },
+    {
+      clauseType: "governing_law",
+      label: "Governing Law",
+      keywords: ["governing law", "jurisdiction", "venue", "courts of", "laws of"],
+      preferred: "Laws of our home state with exclusive jurisdiction in its courts.",
+      fallbacks: ["Laws of Delaware or New York with courts in the same state.", "Defendant's home jurisdiction."],
+      walkAway: "Foreign law or mandatory arbitration seated outside our home country.",
+    },
+    {
+      clauseType: "injunctive_relief",
+      label: "Injunctive Relief",
+      keywords: ["injunctive", "equitable relief", "irreparable", "specific performance"],
+      preferred: "Mutual right to seek injunctive relief without posting a bond.",
+      fallbacks: ["Mutual right to seek injunctive relief, bond as required by the court."],
+      walkAway: "Injunctive relief available only to the customer, or a waiver of our right to equitable relief.",
+    },
+  ],
+}
+
+const playbooks = createJsonCollection<Playbook>("playbooks")
+
+export async function getPlaybook(): Promise<Playbook> {
+  return (await playbooks.get(DEFAULT_PLAYBOOK.id)) ?? DEFAULT_PLAYBOOK
+}
+
+export async function savePlaybook(playbook: Pick<Playbook, "name" | "entries">): Promise<Playbook> {
+  return playbooks.put({
+    id: DEFAULT_PLAYBOOK.id,
+    name: playbook.name,
+    entries: playbook.entries,
+    updatedAt: new Date().toISOString(),
+  })
+}
+
+/** Returns a list of problems, empty when the payload is a valid playbook. */
+export function validatePlaybook(value: unknown): string[] {
+  const problems: string[] = []
+  const playbook = value as Partial<Playbook> | null
+
+  if (!playbook || typeof playbook.name !== "string" || !playbook.name.trim()) {
+    problems.push("name is required")
+  }
+  if (!Array.isArray(playbook?.entries)) {
+    return [...problems, "entries must be an array"]
+  }
+
+  const seen = new Set<string>()
+  playbook.entries.forEach((entry, index) => {
+    const label = `entries[${index}]`
+    if (!entry || typeof entry.clauseType !== "string" || !/^[a-z0-9_]+$/.test(entry.clauseType)) {
+      problems.push(`${label}.clauseType must use lowercase letters, digits and underscores`)
+    } else if (seen.has(entry.clauseType)) {
+      problems.push(`${label}.clauseType "${entry.clauseType}" is duplicated`)
+    } else {
+      seen.add(entry.clauseType)
+    }
+    if (typeof entry?.label !== "string" || !entry.label.trim()) problems.push(`${label}.label is required`)
+    if (!Array.isArray(entry?.keywords) || entry.keywords.some((keyword) => typeof keyword !== "string")) {
+      problems.push(`${label}.keywords must be an array of strings`)
+    }
+    if (typeof entry?.preferred !== "string" || !entry.preferred.trim()) problems.push(`${label}.preferred is required`)
+    if (!Array.isArray(entry?.fallbacks) || entry.fallbacks.some((fallback) => typeof fallback !== "string")) {
+      problems.push(`${label}.fallbacks must be an array of strings`)
+    }
+    if (typeof entry?.walkAway !== "string" || !entry.walkAway.trim()) problems.push(`${label}.walkAway is required`)
+  })
+
+  return problems
+}
+
+// Lowercase words separated by single spaces, so keywords match whole words: "term" does not match "determine"
+function wordsOf(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()
+}
+
+/** Customer clauses whose heading or text mentions one of the entry's keywords, heading matches first. */
+export function findPlaybookClauses(entry: PlaybookEntry, clauses: Clause[]): Clause[] {
+  const keywords = entry.keywords.map(wordsOf).filter(Boolean)
+  const mentions = (text: string) => {
+    const words = ` ${wordsOf(text)} `
+    return keywords.some((keyword) => words.includes(` ${keyword} `))
+  }
+  const inHeading = clauses.filter((clause) => mentions(clause.heading))
+  const inText = clauses.filter((clause) => !inHeading.includes(clause) && mentions(clause.text))
+  return [...inHeading, ...inText].slice(0, 3)
+}
+
+export const PLAYBOOK_EVALUATION_SCHEMA = {
+  type: "object",
+  properties: {
+    evaluations: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          clauseType: { type: "string" },
+          tier: { type: "string", enum: PLAYBOOK_TIERS },
+          rationale: { type: "string" }
+        },
+        required: ["clauseType", "tier", "rationale"]
+      }
+    }
+  },
+  required: ["evaluations"]
+}
+
+function buildPlaybookMessages(playbook: Playbook, matches: Map<string, Clause[]>): ChatMessage[] {
+  const positions = playbook.entries.map((entry) => {
+    const clauses = matches.get(entry.clauseType) ?? []
+    const customerText = clauses.length > 0
+      ? clauses.map((clause) => `${clause.heading}:\n${clause.text}`).join("\n\n")
+      : "(no matching clause found in the customer NDA)"
+
+    return `### ${entry.label} (clauseType: ${entry.clauseType})
+Preferred position: ${entry.preferred}
+Acceptable fallbacks:
+${entry.fallbacks.map((fallback) => `- ${fallback}`).join("\n") || "- (none)"}
+Walk-away position: ${entry.walkAway}
+
+Customer NDA text:
+${customerText}`
+  }).join("\n\n")
+
+  return [
+    {
+      role: "system",
+      content: SYSTEM_PROMPT
+    },
+    {
+      role: "user",
+      content: `Our legal team negotiates NDAs from a playbook. For each clause type below you have our preferred position, acceptable fallbacks, our walk-away position, and the matching text from the customer NDA.
+
+${positions}
+
+For every clause type, classify the customer NDA text into one tier:
+- preferred: meets our preferred position
+- fallback: does not meet the preferred position but matches an acceptable fallback
+- walk_away: only acceptable at our walk-away position
+- unacceptable: worse than our walk-away position
+- missing: the customer NDA has no such clause
+
+Provide your response as a JSON object with an evaluations array containing clauseType, tier and a one- or two-sentence rationale for each clause type.`
+    }
+  ]
+}
+
+/** Classifies the customer NDA's clauses against each playbook entry with the LLM. */
+export async function evaluatePlaybook(customerClauses: Clause[], playbook: Playbook, provider: LLMProvider): Promise<PlaybookEvaluation[]> {
+  if (playbook.entries.length === 0) return []
+
+  const matches = new Map(playbook.entries.map((entry) => [entry.clauseType, findPlaybookClauses(entry, customerClauses)]))
+  const { evaluations } = await completeJson<{ evaluations: Array<{ clauseType: string; tier: PlaybookTier; rationale: string }> }>(
+    provider,
+    buildPlaybookMessages(playbook, matches),
+    "playbook_evaluation",
+    PLAYBOOK_EVALUATION_SCHEMA
+  )
+  const byType = new Map(evaluations.map((evaluation) => [evaluation.clauseType, evaluation]))
+  const local = evaluatePlaybookLocally(customerClauses, playbook)
+
+  // Clause types the model skipped or gave an unknown tier keep the local word-overlap result
+  return playbook.entries.map((entry, index) => {
+    const evaluation = byType.get(entry.clauseType)
+    if (!evaluation || !PLAYBOOK_TIERS.includes(evaluation.tier)) {
+      return { ...local[index], rationale: `The model did not evaluate this clause type. ${local[index].rationale}` }
+    }
+    return {
+      clauseType: entry.clauseType,
+      label: entry.label,
+      tier: evaluation.tier,
+      customerClauseIds: (matches.get(entry.clauseType) ?? []).map((clause) => clause.id),
+      rationale: evaluation.rationale,
+    }
+  })
+}
+
+/**
+ * Word-overlap classification used when the LLM is unavailable: the tier is
+ * the position whose wording is closest to the customer clause.
+ */
+export function evaluatePlaybookLocally(customerClauses: Clause[], playbook: Playbook): PlaybookEvaluation[] {
+  return playbook.entries.map((entry) => {
+    const clauses = findPlaybookClauses(entry, customerClauses)
+    if (clauses.length === 0) {
+      return {
+        clauseType: entry.clauseType,
+        label: entry.label,
+        tier: "missing",
+        customerClauseIds: [],
+        rationale: `No clause mentioning ${entry.keywords.slice(0, 3).join(", ")} was found in the customer NDA.`,
+      }
+    }
+
+    const words = contentWords(clauses.map((clause) => `${clause.heading} ${clause.text}`).join(" "))
+    const candidates: Array<{ tier: PlaybookTier; score: number }> = [
+      { tier: "preferred", score: similarity(words, contentWords(entry.preferred)) },
+      ...entry.fallbacks.map((fallback) => ({ tier: "fallback" as const, score: similarity(words, contentWords(fallback)) })),
+      { tier: "walk_away", score: similarity(words, contentWords(entry.walkAway)) },
+    ]
+    const best = candidates.reduce((top, candidate) => (candidate.score > top.score ? candidate : top))
+
+    return {
+      clauseType: entry.clauseType,
+      label: entry.label,
+      tier: best.tier,
+      customerClauseIds: clauses.map((clause) => clause.id),
+      rationale: `Automated word-overlap match (${Math.round(best.score * 100)}%) against the ${PLAYBOOK_TIER_LABELS[best.tier].toLowerCase()} position; confirm manually.`,
+    }
+  })
+}
@@ -0,0 +1,236 @@
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx"
+import { RISK_DEVIATION_LABELS } from "@/lib/baseline-comparison"
+import type { RiskLevel } from "@/lib/nda-analysis"
+import { PLAYBOOK_TIER_LABELS } from "@/lib/playbook"
+import { formatReportDate, type ReviewReport } from "@/lib/report"
+
+const RISK_COLORS: Record<RiskLevel, string> = { high: "B91C1C", medium: "A16207", low: "15803D" }
+const HEADER_FILL = "F1F5F9"
+
+// Line breaks inside a value become Word line breaks within the same paragraph
+function textRuns(text: string, options: { bold?: boolean; color?: string; strike?: boolean; underline?: boolean } = {}): TextRun[] {
+  return text.split("\n").map((line, index) => new TextRun({
+    text: line,
+    break: index > 0 ? 1 : undefined,
+    bold: options.bold,
+    color: options.color,
+    strike: options.strike,
+    underline: options.underline ? {} : undefined,
+  }))
+}
+
+function cell(text: string, options: { bold?: boolean; color?: string; fill?: string; width?: number } = {}): TableCell {
+  return new TableCell({
+    children: [new Paragraph({ children: textRuns(text, options) })],
+    shading: options.fill ? { fill: options.fill, type: ShadingType.CLEAR, color: "auto" } : undefined,
+    width: options.width ? { size: options.width, type: WidthType.PERCENTAGE } : undefined,
+    margins: { top: 60, bottom: 60, left: 100, right: 100 },
+  })
+}
+
+function table(headers: Array<{ label: string; width: number }>, rows: TableCell[][]): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: headers.map((header) => cell(header.label, { bold: true, fill: HEADER_FILL, width: header.width })),
+      }),
+      ...rows.map((children) => new TableRow({ children })),
+    ],
+  })
+}
+
+function redlineParagraph(section: ReviewReport["sections"][number]): Paragraph {
+  if (section.redline.length === 0) {
+    return new Paragraph({ children: [new TextRun({ text: "No clause text linked to this section.", italics: true })] })
+  }
+
+  return new Paragraph({
+    spacing: { after: 200 },
+    children: section.redline.flatMap((segment) => {
+      if (segment.type === "delete") return textRuns(segment.text, { color: "B91C1C", strike: true })
+      if (segment.type === "insert") return textRuns(segment.text, { color: "15803D", underline: true })
+      return textRuns(segment.text)
+    }),
+  })
+}
+
+/** Renders the review memo as a Word document with insertions underlined and deletions struck through. */
+export async function renderReportDocx(report: ReviewReport): Promise<Buffer> {
+  const analysisDate = formatReportDate(report.analysisDate)
+  const withBaseline = Boolean(report.baselineFileName)
+
+  const document = new Document({
+    title: report.title,
+    description: `Review of ${report.customerFileName} against ${report.referenceFileName}`,
+    sections: [
+      {
+        headers: {
+          default: new Header({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [new TextRun({ text: `Reference NDA: ${report.referenceFileName} · Analysis date: ${analysisDate}`, size: 16, color: "64748B" })],
+              }),
+            ],
+          }),
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({ children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES], size: 16, color: "64748B" }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children: [
+          new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(report.title)] }),
+          new Paragraph({ children: [new TextRun({ text: "Reference NDA: ", bold: true }), new TextRun(report.referenceFileName)] }),
+          new Paragraph({ children: [new TextRun({ text: "Customer NDA: ", bold: true }), new TextRun(report.customerFileName)] }),
+          ...(report.baselineFileName
+            ? [new Paragraph({ children: [new TextRun({ text: "Market baseline: ", bold: true }), new TextRun(report.baselineFileName)] })]
+            : []),
+          new Paragraph({ children: [new TextRun({ text: "Analysis date: ", bold: true }), new TextRun(analysisDate)] }),
+          ...(report.notice
+            ? [new Paragraph({ spacing: { before: 200 }, children: [new TextRun({ text: report.notice, bold: true, color: "A16207" })] })]
+            : []),
+
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun("Executive Summary")] }),
+          new Paragraph({
+            children: [
+              new TextRun({ text: "Overall risk: ", bold: true }),
+              new TextRun({ text: report.summary.overallRisk.toUpperCase(), bold: true, color: RISK_COLORS[report.summary.overallRisk] }),
+            ],
+          }),
+          new Paragraph({ children: textRuns(report.summary.recommendation) }),
+          ...(report.summary.keyIssues.length > 0
+            ? [
+                new Paragraph({ spacing: { before: 200 }, children: [new TextRun({ text: "Key issues", bold: true })] }),
+                ...report.summary.keyIssues.map((issue) => new Paragraph({ text: issue, bullet: { level: 0 } })),
+              ]
+            : []),
+
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(`Risks (${report.risks.length})`)] }),
+          report.risks.length > 0
+            ? table(
+                [
+                  { label: "Severity", width: 12 },
+                  { label: "Section", width: 18 },
+                  { label: "Risk", width: 35 },
+                  { label: "Recommendation", width: 35 },
+                ],
+                report.risks.map((risk) => [
+                  cell(risk.severity.toUpperCase(), { bold: true, color: RISK_COLORS[risk.severity] }),
+                  cell(risk.section),
+                  new TableCell({
+                    children: [
+                      new Paragraph({ children: [new TextRun({ text: risk.title, bold: true })] }),
+                      new Paragraph({ children: textRuns(risk.description) }),
+                      ...(risk.deviation
+                        ? [new Paragraph({ children: [new TextRun({ text: RISK_DEVIATION_LABELS[risk.deviation], italics: true, color: "64748B" })] })]
+                        : []),
+                    ],
+                    margins: { top: 60, bottom: 60, left: 100, right: 100 },
+                  }),
+                  cell(risk.recommendation),
+                ])
+              )
+            : new Paragraph({ text: "No risks were identified." }),
+
+          ...(report.keyTerms.length > 0
+            ? [
+                new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun("Key Terms")] }),
+                new Paragraph({ text: "Values that differ from the reference NDA are in bold." }),
+                table(
+                  [
+                    { label: "Term", width: withBaseline ? 22 : 24 },
+                    { label: "Reference", width: withBaseline ? 26 : 38 },
+                    { label: "Customer", width: withBaseline ? 26 : 38 },
+                    ...(withBaseline ? [{ label: "Market baseline", width: 26 }] : []),
+                  ],
+                  report.keyTerms.map((row) => [
+                    cell(row.label),
+                    cell(row.reference),
+                    cell(row.customer, { bold: row.customerDiffers }),
+                    ...(withBaseline ? [cell(row.baseline ?? "", { bold: row.baselineDiffers })] : []),
+                  ])
+                ),
+              ]
+            : []),
+
+          ...(report.playbook.length > 0
+            ? [
+                new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun("Playbook Positions")] }),
+                table(
+                  [
+                    { label: "Clause type", width: 20 },
+                    { label: "Tier", width: 18 },
+                    { label: "Rationale", width: 62 },
+                  ],
+                  report.playbook.map((evaluation) => [
+                    cell(evaluation.label),
+                    cell(PLAYBOOK_TIER_LABELS[evaluation.tier], { bold: true }),
+                    cell(evaluation.rationale),
+                  ])
+                ),
+              ]
+            : []),
+
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun("Section Comparison")] }),
+          table(
+            [
+              { label: "Section", width: 30 },
+              { label: "Match", width: 10 },
+              { label: "Differences", width: 60 },
+            ],
+            report.sections.map((section) => [
+              cell(section.title),
+              cell(`${section.match}%`, { bold: true, color: section.match >= 80 ? RISK_COLORS.low : section.match >= 50 ? RISK_COLORS.medium : RISK_COLORS.high }),
+              cell(section.differences),
+            ])
+          ),
+
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun("Redlines")] }),
+          new Paragraph({
+            children: [
+              new TextRun("Changes from the reference NDA to the customer NDA. "),
+              new TextRun({ text: "Insertions", color: "15803D", underline: {} }),
+              new TextRun(" are underlined and "),
+              new TextRun({ text: "deletions", color: "B91C1C", strike: true }),
+              new TextRun(" are struck through."),
+            ],
+          }),
+          ...report.sections.flatMap((section) => [
+            new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun(`${section.title} (${section.match}% match)`)] }),
+            ...(section.missingFrom
+              ? [new Paragraph({ children: [new TextRun({ text: `This clause is missing from the ${section.missingFrom} NDA.`, italics: true })] })]
+              : []),
+            redlineParagraph(section),
+          ]),
+        ],
+      },
+    ],
+  })
+
+  return Packer.toBuffer(document)
+}
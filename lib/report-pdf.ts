@@ -0,0 +1,368 @@
+import fontkit from "@pdf-lib/fontkit"
+import { readFile } from "fs/promises"
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from "pdf-lib"
+import { RISK_DEVIATION_LABELS } from "@/lib/baseline-comparison"
+import { ReportEncodingError } from "@/lib/errors"
+import type { RiskLevel } from "@/lib/nda-analysis"
+import { PLAYBOOK_TIER_LABELS } from "@/lib/playbook"
+import { formatReportDate, type ReviewReport } from "@/lib/report"
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN
+const BODY_SIZE = 10
+const LINE_GAP = 1.35
+const CELL_PADDING = 4
+
+const COLORS = {
+  text: rgb(0.06, 0.09, 0.16),
+  muted: rgb(0.39, 0.45, 0.55),
+  border: rgb(0.8, 0.84, 0.88),
+  headerFill: rgb(0.95, 0.96, 0.98),
+  insert: rgb(0.08, 0.5, 0.24),
+  delete: rgb(0.73, 0.11, 0.11),
+  warning: rgb(0.63, 0.38, 0.03),
+}
+
+const RISK_COLORS: Record<RiskLevel, RGB> = { high: COLORS.delete, medium: COLORS.warning, low: COLORS.insert }
+
+interface Span {
+  text: string
+  bold?: boolean
+  color?: RGB
+  strike?: boolean
+  underline?: boolean
+}
+
+interface PlacedSpan {
+  text: string
+  font: PDFFont
+  color: RGB
+  strike?: boolean
+  underline?: boolean
+  width: number
+}
+
+type Line = PlacedSpan[]
+
+// REPORT_PDF_FONT names a TrueType or OpenType font, e.g. Noto Sans KR, for text beyond the standard fonts
+async function embedFonts(pdf: PDFDocument): Promise<{ regular: PDFFont; bold: PDFFont; unicode: boolean }> {
+  const fontPath = process.env.REPORT_PDF_FONT
+  if (!fontPath) {
+    return {
+      regular: await pdf.embedFont(StandardFonts.Helvetica),
+      bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+      unicode: false,
+    }
+  }
+
+  pdf.registerFontkit(fontkit)
+  const regular = await pdf.embedFont(await readFile(fontPath), { subset: true })
+  const boldPath = process.env.REPORT_PDF_BOLD_FONT
+  const bold = boldPath ? await pdf.embedFont(await readFile(boldPath), { subset: true }) : regular
+  return { regular, bold, unicode: true }
+}
+
+/**
+ * Renders the review memo with the font named by REPORT_PDF_FONT, or with the
+ * PDF standard fonts, which only cover the Windows-1252 character set. With
+ * the standard fonts, symbols outside it are replaced with "?" and letters or
+ * digits outside it (a Korean NDA, say) throw a ReportEncodingError rather
+ * than produce an unreadable memo; the DOCX export keeps the original text.
+ */
+export async function renderReportPdf(report: ReviewReport): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(report.title)
+  pdf.setSubject(`Review of ${report.customerFileName} against ${report.referenceFileName}`)
+  pdf.setCreator("NDA Checker")
+
+  const { regular, bold, unicode } = await embedFonts(pdf)
+  const analysisDate = formatReportDate(report.analysisDate)
+
+  const encodable = new Map<string, boolean>()
+  const sanitize = (text: string) => {
+    const normalized = text.replace(/\t/g, " ").replace(/\r/g, "")
+    if (unicode) return normalized
+
+    return Array.from(normalized).map((character) => {
+      if (character === "\n") return character
+      if (!encodable.has(character)) {
+        try {
+          regular.encodeText(character)
+          encodable.set(character, true)
+        } catch {
+          encodable.set(character, false)
+        }
+      }
+      if (encodable.get(character)) return character
+      if (/[\p{L}\p{N}]/u.test(character)) throw new ReportEncodingError(character)
+      return "?"
+    }).join("")
+  }
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    y = PAGE_HEIGHT - MARGIN
+  }
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) newPage()
+  }
+
+  // Greedy word wrap across styled spans; "\n" forces a line break
+  const layout = (spans: Span[], width: number, size: number): Line[] => {
+    const lines: Line[] = [[]]
+    let lineWidth = 0
+
+    for (const span of spans) {
+      const font = span.bold ? bold : regular
+      const color = span.color ?? COLORS.text
+      for (const token of sanitize(span.text).split(/(\n|\s+)/)) {
+        if (!token) continue
+        if (token === "\n") {
+          lines.push([])
+          lineWidth = 0
+          continue
+        }
+        const isSpace = /^\s+$/.test(token)
+        let text = isSpace ? " " : token
+        let tokenWidth = font.widthOfTextAtSize(text, size)
+
+        if (!isSpace && lineWidth + tokenWidth > width && lineWidth > 0) {
+          lines.push([])
+          lineWidth = 0
+        }
+        if (isSpace && lineWidth === 0) continue
+
+        // Words longer than a full line are cut by character
+        while (!isSpace && tokenWidth > width) {
+          let cut = text.length - 1
+          while (cut > 1 && font.widthOfTextAtSize(text.slice(0, cut), size) > width) cut--
+          lines[lines.length - 1].push({ text: text.slice(0, cut), font, color, strike: span.strike, underline: span.underline, width: font.widthOfTextAtSize(text.slice(0, cut), size) })
+          lines.push([])
+          text = text.slice(cut)
+          tokenWidth = font.widthOfTextAtSize(text, size)
+        }
+
+        lines[lines.length - 1].push({ text, font, color, strike: span.strike, underline: span.underline, width: tokenWidth })
+        lineWidth += tokenWidth
+      }
+    }
+
+    return lines
+  }
+
+  const drawLine = (line: Line, x: number, baseline: number, size: number) => {
+    let cursor = x
+    for (const span of line) {
+      page.drawText(span.text, { x: cursor, y: baseline, size, font: span.font, color: span.color })
+      if (span.strike) {
+        page.drawLine({ start: { x: cursor, y: baseline + size * 0.3 }, end: { x: cursor + span.width, y: baseline + size * 0.3 }, thickness: 0.6, color: span.color })
+      }
+      if (span.underline) {
+        page.drawLine({ start: { x: cursor, y: baseline - 1.5 }, end: { x: cursor + span.width, y: baseline - 1.5 }, thickness: 0.6, color: span.color })
+      }
+      cursor += span.width
+    }
+  }
+
+  const paragraph = (spans: Span[], options: { size?: number; spaceBefore?: number; spaceAfter?: number } = {}) => {
+    const size = options.size ?? BODY_SIZE
+    const lineHeight = size * LINE_GAP
+    y -= options.spaceBefore ?? 0
+    for (const line of layout(spans, CONTENT_WIDTH, size)) {
+      ensureSpace(lineHeight)
+      y -= lineHeight
+      drawLine(line, MARGIN, y + size * 0.25, size)
+    }
+    y -= options.spaceAfter ?? 4
+  }
+
+  const heading = (text: string, size = 14) => {
+    // Keep a heading together with at least a few lines of what follows
+    ensureSpace(size * LINE_GAP + 16 + BODY_SIZE * LINE_GAP * 3)
+    paragraph([{ text, bold: true }], { size, spaceBefore: 12, spaceAfter: 6 })
+  }
+
+  const table = (columns: Array<{ label: string; width: number }>, rows: Span[][][]) => {
+    const lineHeight = BODY_SIZE * LINE_GAP
+    const widths = columns.map((column) => column.width * CONTENT_WIDTH)
+
+    const drawRow = (cells: Span[][], fill?: RGB) => {
+      const cellLines = cells.map((spans, index) => layout(spans, widths[index] - 2 * CELL_PADDING, BODY_SIZE))
+      const rowHeight = Math.max(...cellLines.map((lines) => lines.length)) * lineHeight + 2 * CELL_PADDING
+
+      if (y - rowHeight < MARGIN) {
+        newPage()
+        if (!fill) drawRow(columns.map((column) => [{ text: column.label, bold: true }]), COLORS.headerFill)
+      }
+
+      let x = MARGIN
+      cellLines.forEach((lines, index) => {
+        page.drawRectangle({ x, y: y - rowHeight, width: widths[index], height: rowHeight, borderColor: COLORS.border, borderWidth: 0.5, color: fill })
+        lines.forEach((line, lineIndex) => {
+          drawLine(line, x + CELL_PADDING, y - CELL_PADDING - (lineIndex + 1) * lineHeight + BODY_SIZE * 0.25, BODY_SIZE)
+        })
+        x += widths[index]
+      })
+      y -= rowHeight
+    }
+
+    ensureSpace(lineHeight * 2 + 4 * CELL_PADDING)
+    drawRow(columns.map((column) => [{ text: column.label, bold: true }]), COLORS.headerFill)
+    rows.forEach((cells) => drawRow(cells))
+    y -= 8
+  }
+
+  const matchColor = (match: number) => (match >= 80 ? COLORS.insert : match >= 50 ? COLORS.warning : COLORS.delete)
+
+  // Title block
+  paragraph([{ text: report.title, bold: true }], { size: 18, spaceAfter: 8 })
+  paragraph([{ text: "Reference NDA: ", bold: true }, { text: report.referenceFileName }], { spaceAfter: 1 })
+  paragraph([{ text: "Customer NDA: ", bold: true }, { text: report.customerFileName }], { spaceAfter: 1 })
+  if (report.baselineFileName) {
+    paragraph([{ text: "Market baseline: ", bold: true }, { text: report.baselineFileName }], { spaceAfter: 1 })
+  }
+  paragraph([{ text: "Analysis date: ", bold: true }, { text: analysisDate }])
+  if (report.notice) {
+    paragraph([{ text: report.notice, bold: true, color: COLORS.warning }], { spaceBefore: 6 })
+  }
+
+  heading("Executive Summary")
+  paragraph([
+    { text: "Overall risk: ", bold: true },
+    { text: report.summary.overallRisk.toUpperCase(), bold: true, color: RISK_COLORS[report.summary.overallRisk] },
+  ])
+  paragraph([{ text: report.summary.recommendation }])
+  if (report.summary.keyIssues.length > 0) {
+    paragraph([{ text: "Key issues", bold: true }], { spaceBefore: 4 })
+    report.summary.keyIssues.forEach((issue) => paragraph([{ text: `•  ${issue}` }], { spaceAfter: 2 }))
+  }
+
+  heading(`Risks (${report.risks.length})`)
+  if (report.risks.length > 0) {
+    table(
+      [
+        { label: "Severity", width: 0.12 },
+        { label: "Section", width: 0.2 },
+        { label: "Risk", width: 0.34 },
+        { label: "Recommendation", width: 0.34 },
+      ],
+      report.risks.map((risk) => [
+        [{ text: risk.severity.toUpperCase(), bold: true, color: RISK_COLORS[risk.severity] }],
+        [{ text: risk.section }],
+        [
+          { text: risk.title, bold: true },
+          { text: `\n${risk.description}` },
+          ...(risk.deviation ? [{ text: `\n${RISK_DEVIATION_LABELS[risk.deviation]}`, color: COLORS.muted }] : []),
+        ],
+        [{ text: risk.recommendation }],
+      ])
+    )
+  } else {
+    paragraph([{ text: "No risks were identified." }])
+  }
+
+  if (report.keyTerms.length > 0) {
+    const withBaseline = Boolean(report.baselineFileName)
+    heading("Key Terms")
+    paragraph([{ text: "Values that differ from the reference NDA are in bold.", color: COLORS.muted }])
+    table(
+      [
+        { label: "Term", width: withBaseline ? 0.22 : 0.24 },
+        { label: "Reference", width: withBaseline ? 0.26 : 0.38 },
+        { label: "Customer", width: withBaseline ? 0.26 : 0.38 },
+        ...(withBaseline ? [{ label: "Market baseline", width: 0.26 }] : []),
+      ],
+      report.keyTerms.map((row) => [
+        [{ text: row.label }],
+        [{ text: row.reference }],
+        [{ text: row.customer, bold: row.customerDiffers }],
+        ...(withBaseline ? [[{ text: row.baseline ?? "", bold: row.baselineDiffers }]] : []),
+      ])
+    )
+  }
+
+  if (report.playbook.length > 0) {
+    heading("Playbook Positions")
+    table(
+      [
+        { label: "Clause type", width: 0.2 },
+        { label: "Tier", width: 0.18 },
+        { label: "Rationale", width: 0.62 },
+      ],
+      report.playbook.map((evaluation) => [
+        [{ text: evaluation.label }],
+        [{ text: PLAYBOOK_TIER_LABELS[evaluation.tier], bold: true }],
+        [{ text: evaluation.rationale }],
+      ])
+    )
+  }
+
+  heading("Section Comparison")
+  table(
+    [
+      { label: "Section", width: 0.3 },
+      { label: "Match", width: 0.1 },
+      { label: "Differences", width: 0.6 },
+    ],
+    report.sections.map((section) => [
+      [{ text: section.title }],
+      [{ text: `${section.match}%`, bold: true, color: matchColor(section.match) }],
+      [{ text: section.differences }],
+    ])
+  )
+
+  heading("Redlines")
+  paragraph([
+    { text: "Changes from the reference NDA to the customer NDA. " },
+    { text: "Insertions", color: COLORS.insert, underline: true },
+    { text: " are underlined and " },
+    { text: "deletions", color: COLORS.delete, strike: true },
+    { text: " are struck through." },
+  ])
+  for (const section of report.sections) {
+    heading(`${section.title} (${section.match}% match)`, 11)
+    if (section.missingFrom) {
+      paragraph([{ text: `This clause is missing from the ${section.missingFrom} NDA.`, color: COLORS.muted }])
+    }
+    paragraph(
+      section.redline.length > 0
+        ? section.redline.map((segment) => ({
+            text: segment.text,
+            color: segment.type === "insert" ? COLORS.insert : segment.type === "delete" ? COLORS.delete : undefined,
+            underline: segment.type === "insert",
+            strike: segment.type === "delete",
+          }))
+        : [{ text: "No clause text linked to this section.", color: COLORS.muted }],
+      { spaceAfter: 8 }
+    )
+  }
+
+  // Branding header and page numbers go on every page once the page count is known
+  const pages = pdf.getPages()
+  const brand = sanitize(`Reference NDA: ${report.referenceFileName} · Analysis date: ${analysisDate}`)
+  pages.forEach((current, index) => {
+    current.drawText(brand, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(brand, 8),
+      y: PAGE_HEIGHT - MARGIN / 2,
+      size: 8,
+      font: regular,
+      color: COLORS.muted,
+    })
+    const pageLabel = `Page ${index + 1} of ${pages.length}`
+    current.drawText(pageLabel, {
+      x: (PAGE_WIDTH - regular.widthOfTextAtSize(pageLabel, 8)) / 2,
+      y: MARGIN / 2,
+      size: 8,
+      font: regular,
+      color: COLORS.muted,
+    })
+  })
+
+  return pdf.save()
+}
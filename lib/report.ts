@@ -0,0 +1,106 @@
+import type { AnalysisDetail } from "@/lib/analysis-store"
+import { alignClauses, linkSectionsToClauses, segmentClauses, type Clause } from "@/lib/clause-align"
+import { keyTermRows, type KeyTermRow } from "@/lib/key-term-rows"
+import type { AnalysisRisk, AnalysisSummary } from "@/lib/nda-analysis"
+import type { PlaybookEvaluation } from "@/lib/playbook"
+import { diffWords, type DiffSegment } from "@/lib/text-diff"
+
+export type ReportFormat = "pdf" | "docx"
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+}
+
+export interface ReportSection {
+  title: string
+  match: number
+  differences: string
+  /** Word-level redline from the reference clause to the customer clause. */
+  redline: DiffSegment[]
+  /** Set when the clause exists on only one side. */
+  missingFrom?: "reference" | "customer"
+}
+
+/** Format-neutral content of the review memo, rendered by report-pdf and report-docx. */
+export interface ReviewReport {
+  title: string
+  referenceFileName: string
+  customerFileName: string
+  /** Set on three-way comparisons. */
+  baselineFileName?: string
+  analysisDate: string
+  summary: AnalysisSummary
+  risks: AnalysisRisk[]
+  playbook: PlaybookEvaluation[]
+  /** Empty for analyses saved before key terms were extracted. */
+  keyTerms: KeyTermRow[]
+  sections: ReportSection[]
+  /** Shown prominently when the analysis ran in degraded mode. */
+  notice?: string
+}
+
+const SEVERITY_ORDER: Record<AnalysisRisk["severity"], number> = { high: 0, medium: 1, low: 2 }
+
+export function buildReviewReport(detail: AnalysisDetail): ReviewReport {
+  const { analysisResult: result, referenceNda, customerNda } = detail
+
+  // Analyses saved before clause linking existed are segmented here, as ComparisonView does
+  const reference = result.clauses?.reference ?? segmentClauses({
+    text: referenceNda.parsedContent.text || referenceNda.parsedContent.html,
+    elements: referenceNda.parsedContent.elements,
+  }, "ref")
+  const customer = result.clauses?.customer ?? segmentClauses({
+    text: customerNda.parsedContent.text || customerNda.parsedContent.html,
+    elements: customerNda.parsedContent.elements,
+  }, "cust")
+  const linked = result.sections.every((section) => section.referenceClauseIds && section.customerClauseIds)
+    ? result.sections
+    : linkSectionsToClauses(result.sections, alignClauses(reference, customer), reference, customer)
+
+  const byId = new Map([...reference, ...customer].map((clause) => [clause.id, clause]))
+  const clauseText = (ids: string[] = []) => ids
+    .map((id) => byId.get(id))
+    .filter((clause): clause is Clause => Boolean(clause))
+    .map((clause) => clause.text || clause.heading)
+    .join("\n\n")
+
+  const sections = linked.map((section): ReportSection => {
+    const referenceText = clauseText(section.referenceClauseIds)
+    const customerText = clauseText(section.customerClauseIds)
+    return {
+      title: section.title,
+      match: section.match,
+      differences: section.differences,
+      redline: referenceText || customerText ? diffWords(referenceText, customerText, { ignoreWhitespace: true }) : [],
+      missingFrom: !referenceText && customerText ? "reference" : referenceText && !customerText ? "customer" : undefined,
+    }
+  })
+
+  const provenance = result.provenance
+  return {
+    title: `NDA Review: ${customerNda.fileName}`,
+    referenceFileName: referenceNda.fileName,
+    customerFileName: customerNda.fileName,
+    baselineFileName: detail.baselineNda?.fileName,
+    analysisDate: provenance?.generatedAt ?? detail.createdAt,
+    summary: result.summary,
+    risks: [...result.risks].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]),
+    playbook: result.playbook ?? [],
+    keyTerms: result.keyTerms ? keyTermRows(result.keyTerms) : [],
+    sections,
+    notice: provenance?.degraded
+      ? "This report is based on an automated text comparison because the AI analysis was unavailable. It is not legal advice and should be reviewed by counsel."
+      : undefined,
+  }
+}
+
+export function formatReportDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })
+}
+
+/** File name for the exported memo, e.g. "nda-review-acme-nda-2025-06-01.pdf". */
+export function reportFileName(report: ReviewReport, format: ReportFormat): string {
+  const base = report.customerFileName.replace(/\.[^.]+$/, "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+  return `nda-review-${base || "report"}-${report.analysisDate.slice(0, 10)}.${format}`
+}
@@ -0,0 +1,91 @@
+import type { CounterProposalClause } from "@/lib/analysis-store"
+import type { AnalysisRisk } from "@/lib/nda-analysis"
+
+/**
+ * Reviewer decision on one risk: accept its recommendation, negotiate a change,
+ * reject the clause outright, or escalate it to someone with more authority.
+ */
+export type RiskDecisionType = "accept" | "negotiate" | "reject" | "escalate"
+
+export interface RiskDecision {
+  /** Index into the analysis's `risks[]`. */
+  riskIndex: number
+  decision: RiskDecisionType
+  note: string
+  assignee: string
+  /** Reviewer-entered wording that replaces the customer clause in the marked-up NDA. */
+  replacementText?: string
+  decidedAt: string
+}
+
+/**
+ * Where the review stands, derived from the decisions: every risk must be
+ * decided before the NDA is ready to sign, and one escalation holds it up.
+ */
+export type ReviewStatus = "not_started" | "in_review" | "escalated" | "rejected" | "negotiating" | "ready_to_sign"
+
+export interface ReviewProgress {
+  status: ReviewStatus
+  decided: number
+  total: number
+  counts: Record<RiskDecisionType, number>
+}
+
+export const RISK_DECISIONS: RiskDecisionType[] = ["accept", "negotiate", "reject", "escalate"]
+
+/** Decisions whose risk is changed in the marked-up NDA when replacement wording is available. */
+export const MARKUP_DECISIONS: RiskDecisionType[] = ["accept", "negotiate"]
+
+export const RISK_DECISION_LABELS: Record<RiskDecisionType, string> = {
+  accept: "Accept",
+  negotiate: "Negotiate",
+  reject: "Reject",
+  escalate: "Escalate",
+}
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  not_started: "Not started",
+  in_review: "In review",
+  escalated: "Escalated",
+  rejected: "Rejected",
+  negotiating: "Negotiating",
+  ready_to_sign: "Ready to sign",
+}
+
+export function getReviewProgress(riskCount: number, decisions: RiskDecision[]): ReviewProgress {
+  const current = decisions.filter((decision) => decision.riskIndex >= 0 && decision.riskIndex < riskCount)
+  const counts: Record<RiskDecisionType, number> = { accept: 0, negotiate: 0, reject: 0, escalate: 0 }
+  current.forEach((decision) => counts[decision.decision]++)
+
+  const decided = current.length
+  let status: ReviewStatus
+  if (counts.escalate > 0) status = "escalated"
+  else if (riskCount > 0 && decided === 0) status = "not_started"
+  else if (decided < riskCount) status = "in_review"
+  else if (counts.reject > 0) status = "rejected"
+  else if (counts.negotiate > 0) status = "negotiating"
+  else status = "ready_to_sign"
+
+  return { status, decided, total: riskCount, counts }
+}
+
+/** One change in the marked-up NDA: a decided risk and the wording that replaces its customer clause. */
+export interface MarkupChange {
+  risk: AnalysisRisk
+  decision: RiskDecision
+  text: string
+}
+
+/**
+ * The changes for the marked-up NDA: every accepted or negotiated risk with
+ * replacement wording, either entered on the decision or inserted from the
+ * clause library for the risk's section.
+ */
+export function getMarkupChanges(risks: AnalysisRisk[], decisions: RiskDecision[], counterProposal: CounterProposalClause[]): MarkupChange[] {
+  return decisions.flatMap((decision) => {
+    const risk = risks[decision.riskIndex]
+    if (!risk || !MARKUP_DECISIONS.includes(decision.decision)) return []
+    const text = decision.replacementText || counterProposal.find((clause) => clause.section === risk.section)?.text
+    return text ? [{ risk, decision, text }] : []
+  })
+}
@@ -0,0 +1,103 @@
+import { alignClauses, type Clause } from "@/lib/clause-align"
+import type { AnalysisResult, AnalysisRisk } from "@/lib/nda-analysis"
+import { contentWords, similarity } from "@/lib/text-similarity"
+
+/** A risk found in both rounds, with its earlier and current wording. */
+export interface RemainingRisk {
+  previous: AnalysisRisk
+  current: AnalysisRisk
+  severityChange: "raised" | "lowered" | null
+}
+
+export interface ClauseChange {
+  type: "added" | "removed" | "modified"
+  previous: Clause | null
+  current: Clause | null
+}
+
+/** What changed in the customer's draft from one negotiation round to the next. */
+export interface RoundComparison {
+  resolved: AnalysisRisk[]
+  remaining: RemainingRisk[]
+  new: AnalysisRisk[]
+  clauseChanges: ClauseChange[]
+}
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2 }
+
+// Below this score two risks are treated as unrelated
+const RISK_MATCH_THRESHOLD = 0.35
+
+function riskSimilarity(a: AnalysisRisk, b: AnalysisRisk): number {
+  const sectionScore = similarity(contentWords(a.section), contentWords(b.section))
+  const titleScore = similarity(contentWords(a.title), contentWords(b.title))
+  const descriptionScore = similarity(contentWords(a.description), contentWords(b.description))
+  return 0.4 * sectionScore + 0.4 * titleScore + 0.2 * descriptionScore
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase()
+}
+
+/**
+ * Pairs the risks of two rounds, best matches first. Earlier risks without a
+ * counterpart were resolved by the new draft; later ones are new.
+ */
+export function compareRisks(previous: AnalysisRisk[], current: AnalysisRisk[]): Omit<RoundComparison, "clauseChanges"> {
+  const candidates: Array<{ previousIndex: number; currentIndex: number; score: number }> = []
+  previous.forEach((previousRisk, previousIndex) => {
+    current.forEach((currentRisk, currentIndex) => {
+      const score = riskSimilarity(previousRisk, currentRisk)
+      if (score >= RISK_MATCH_THRESHOLD) candidates.push({ previousIndex, currentIndex, score })
+    })
+  })
+  candidates.sort((a, b) => b.score - a.score)
+
+  const matchedPrevious = new Map<number, number>()
+  const matchedCurrent = new Set<number>()
+  for (const candidate of candidates) {
+    if (matchedPrevious.has(candidate.previousIndex) || matchedCurrent.has(candidate.currentIndex)) continue
+    matchedPrevious.set(candidate.previousIndex, candidate.currentIndex)
+    matchedCurrent.add(candidate.currentIndex)
+  }
+
+  const remaining = Array.from(matchedPrevious.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([previousIndex, currentIndex]): RemainingRisk => {
+      const before = SEVERITY_RANK[previous[previousIndex].severity]
+      const after = SEVERITY_RANK[current[currentIndex].severity]
+      return {
+        previous: previous[previousIndex],
+        current: current[currentIndex],
+        severityChange: after > before ? "raised" : after < before ? "lowered" : null,
+      }
+    })
+
+  return {
+    resolved: previous.filter((_, index) => !matchedPrevious.has(index)),
+    remaining,
+    new: current.filter((_, index) => !matchedCurrent.has(index)),
+  }
+}
+
+/** Customer clauses added, removed or reworded between two drafts. */
+export function compareClauses(previous: Clause[], current: Clause[]): ClauseChange[] {
+  // Both drafts are customer documents, so their clause ids overlap
+  const previousById = new Map(previous.map((clause) => [clause.id, clause]))
+  const currentById = new Map(current.map((clause) => [clause.id, clause]))
+
+  return alignClauses(previous, current).flatMap((entry): ClauseChange[] => {
+    const before = entry.referenceId ? previousById.get(entry.referenceId) ?? null : null
+    const after = entry.customerId ? currentById.get(entry.customerId) ?? null : null
+    if (!before) return after ? [{ type: "added", previous: null, current: after }] : []
+    if (!after) return [{ type: "removed", previous: before, current: null }]
+    return normalizeText(before.text) === normalizeText(after.text) ? [] : [{ type: "modified", previous: before, current: after }]
+  })
+}
+
+export function compareRounds(previous: AnalysisResult, current: AnalysisResult): RoundComparison {
+  return {
+    ...compareRisks(previous.risks, current.risks),
+    clauseChanges: compareClauses(previous.clauses?.customer ?? [], current.clauses?.customer ?? []),
+  }
+}
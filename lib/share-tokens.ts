@@ -0,0 +1,71 @@
+import { randomBytes } from "crypto"
+import type { AnalysisDetail } from "@/lib/analysis-store"
+import { createJsonCollection } from "@/lib/storage"
+
+/** A read-only link to one analysis. The token itself is the record id. */
+export interface ShareToken {
+  id: string
+  analysisId: string
+  createdAt: string
+  expiresAt: string
+}
+
+const shares = createJsonCollection<ShareToken>("shares")
+
+export function getShareTokenTtlDays(): number {
+  return Number(process.env.SHARE_TOKEN_TTL_DAYS) || 7
+}
+
+export async function createShareToken(analysisId: string, expiresInDays = getShareTokenTtlDays()): Promise<ShareToken> {
+  const createdAt = new Date()
+  return shares.put({
+    id: randomBytes(24).toString("base64url"),
+    analysisId,
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(createdAt.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+  })
+}
+
+export async function revokeShareTokens(analysisId: string): Promise<void> {
+  const tokens = await shares.list()
+  await Promise.all(
+    tokens
+      .filter((share) => share.analysisId === analysisId)
+      .map((share) => shares.delete(share.id))
+  )
+}
+
+/** Resolves a share token on its own; the analysis it grants access to is never part of the link. */
+export async function resolveShareToken(
+  token: string
+): Promise<{ ok: true; share: ShareToken } | { ok: false; status: number; error: string }> {
+  const share = await shares.get(token)
+  if (!share) {
+    return { ok: false, status: 403, error: "Invalid share link" }
+  }
+  if (Date.parse(share.expiresAt) <= Date.now()) {
+    return { ok: false, status: 410, error: "This share link has expired" }
+  }
+  return { ok: true, share }
+}
+
+/** What a share link shows: the analysis without its id or the ids of its documents, matter and earlier runs. */
+export type SharedAnalysis = Omit<AnalysisDetail, "id" | "matterId" | "rerunOf" | "referenceNda" | "customerNda" | "baselineNda"> & {
+  referenceNda: Omit<AnalysisDetail["referenceNda"], "id">
+  customerNda: Omit<AnalysisDetail["customerNda"], "id">
+  baselineNda: Omit<AnalysisDetail["referenceNda"], "id"> | null
+  expiresAt: string
+}
+
+export function toSharedAnalysis(detail: AnalysisDetail, share: ShareToken): SharedAnalysis {
+  const { id: _id, matterId: _matterId, rerunOf: _rerunOf, referenceNda, customerNda, baselineNda, ...rest } = detail
+  const withoutId = <T extends { id: string }>({ id: _documentId, ...document }: T) => document
+
+  return {
+    ...rest,
+    referenceNda: withoutId(referenceNda),
+    customerNda: withoutId(customerNda),
+    baselineNda: baselineNda ? withoutId(baselineNda) : null,
+    expiresAt: share.expiresAt,
+  }
+}
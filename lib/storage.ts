@@ -0,0 +1,150 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+/**
+ * File-based JSON store. Each collection is a directory under the data
+ * directory with one `<id>.json` file per record, plus optional binary
+ * attachments stored next to it as `<id>.bin`.
+ */
+export interface JsonCollection<T extends { id: string }> {
+  get(id: string): Promise<T | null>
+  list(): Promise<T[]>
+  put(record: T): Promise<T>
+  /**
+   * Reads a record, applies `change` and writes the result. Updates of one record
+   * run one at a time, so none of them is lost. Resolves to null when the record
+   * does not exist; an error thrown by `change` leaves the record as it was.
+   */
+  update(id: string, change: (current: T) => T | Promise<T>): Promise<T | null>
+  delete(id: string): Promise<boolean>
+  putBlob(id: string, data: Uint8Array): Promise<void>
+  getBlob(id: string): Promise<Buffer | null>
+  deleteBlob(id: string): Promise<void>
+}
+
+export function getDataDir(): string {
+  return path.resolve(process.env.NDA_DATA_DIR || path.join(process.cwd(), ".data"))
+}
+
+export function createId(): string {
+  return randomUUID()
+}
+
+// Ids end up in file names, so anything beyond [A-Za-z0-9_-] is rejected
+function isSafeId(id: string): boolean {
+  return /^[A-Za-z0-9_-]{1,128}$/.test(id)
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT"
+}
+
+// Tail of the pending updates per record file, kept on globalThis so dev-server module reloads share them
+const updateQueues: Map<string, Promise<void>> =
+  ((globalThis as Record<string, unknown>).__ndaUpdateQueues as typeof updateQueues | undefined) ??
+  ((globalThis as Record<string, unknown>).__ndaUpdateQueues = new Map<string, Promise<void>>())
+
+function serialize<R>(key: string, task: () => Promise<R>): Promise<R> {
+  const result = (updateQueues.get(key) ?? Promise.resolve()).then(task)
+  const tail = result.then(() => undefined, () => undefined)
+  updateQueues.set(key, tail)
+  void tail.then(() => {
+    if (updateQueues.get(key) === tail) updateQueues.delete(key)
+  })
+  return result
+}
+
+export function createJsonCollection<T extends { id: string }>(name: string): JsonCollection<T> {
+  const directory = () => path.join(getDataDir(), name)
+  const recordPath = (id: string) => path.join(directory(), `${id}.json`)
+  const blobPath = (id: string) => path.join(directory(), `${id}.bin`)
+
+  const get = async (id: string): Promise<T | null> => {
+    if (!isSafeId(id)) return null
+    try {
+      return JSON.parse(await fs.readFile(recordPath(id), "utf8")) as T
+    } catch (error) {
+      if (isMissing(error)) return null
+      throw error
+    }
+  }
+
+  const put = async (record: T): Promise<T> => {
+    if (!isSafeId(record.id)) {
+      throw new Error(`Invalid record id: ${record.id}`)
+    }
+    await fs.mkdir(directory(), { recursive: true })
+    // Write to a temporary file first so readers never see a partial record; concurrent writes of one record each get their own
+    const target = recordPath(record.id)
+    const temporary = `${target}.${process.pid}.${createId()}.tmp`
+    await fs.writeFile(temporary, JSON.stringify(record, null, 2), "utf8")
+    await fs.rename(temporary, target)
+    return record
+  }
+
+  return {
+    get,
+
+    async list() {
+      let files: string[]
+      try {
+        files = await fs.readdir(directory())
+      } catch (error) {
+        if (isMissing(error)) return []
+        throw error
+      }
+
+      const records: Array<T | null> = await Promise.all(
+        files
+          .filter((file) => file.endsWith(".json"))
+          .map((file) => get(file.slice(0, -".json".length)))
+      )
+      return records.filter((record): record is T => record !== null)
+    },
+
+    put,
+
+    update(id, change) {
+      return serialize(recordPath(id), async () => {
+        const current = await get(id)
+        return current ? put(await change(current)) : null
+      })
+    },
+
+    async delete(id) {
+      if (!isSafeId(id)) return false
+      try {
+        await fs.unlink(recordPath(id))
+      } catch (error) {
+        if (isMissing(error)) return false
+        throw error
+      }
+      await fs.rm(blobPath(id), { force: true })
+      return true
+    },
+
+    async putBlob(id, data) {
+      if (!isSafeId(id)) {
+        throw new Error(`Invalid record id: ${id}`)
+      }
+      await fs.mkdir(directory(), { recursive: true })
+      await fs.writeFile(blobPath(id), data)
+    },
+
+    async getBlob(id) {
+      if (!isSafeId(id)) return null
+      try {
+        return await fs.readFile(blobPath(id))
+      } catch (error) {
+        if (isMissing(error)) return null
+        throw error
+      }
+    },
+
+    async deleteBlob(id) {
+      if (!isSafeId(id)) return
+      await fs.rm(blobPath(id), { force: true })
+    },
+  }
+}
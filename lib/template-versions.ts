@@ -0,0 +1,19 @@
+import type { NdaTemplate, TemplateVersion } from "@/lib/templates"
+
+/** The most recently uploaded version, whether or not it is in effect yet. */
+export function latestVersion(template: NdaTemplate): TemplateVersion {
+  return template.versions[template.versions.length - 1]
+}
+
+/** True when the version's effective date (a `YYYY-MM-DD` day) is still to come. */
+export function isScheduled(version: TemplateVersion, now: Date = new Date()): boolean {
+  return Boolean(version.effectiveDate && version.effectiveDate > now.toISOString().slice(0, 10))
+}
+
+/**
+ * The version in effect: the latest one without an effective date or whose
+ * effective date has passed. When every version is scheduled, the oldest one.
+ */
+export function currentVersion(template: NdaTemplate, now: Date = new Date()): TemplateVersion {
+  return [...template.versions].reverse().find((version) => !isScheduled(version, now)) ?? template.versions[0]
+}
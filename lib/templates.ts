@@ -0,0 +1,244 @@
+import { getDocument, listStoredAnalyses, setDocumentTemplate, type AnalysisTemplateVersion, type StoredDocument } from "@/lib/analysis-store"
+import { segmentClauses } from "@/lib/clause-align"
+import type { RiskLevel } from "@/lib/nda-analysis"
+import { compareClauses, type ClauseChange } from "@/lib/round-comparison"
+import { createId, createJsonCollection } from "@/lib/storage"
+import { currentVersion, latestVersion } from "@/lib/template-versions"
+
+/** One uploaded revision of a template; its parsed content is stored with the documents. */
+export interface TemplateVersion {
+  /** Counts from 1 in upload order. */
+  number: number
+  /** Name shown to users, e.g. "v2.1". */
+  label: string
+  documentId: string
+  fileName: string
+  /** Day (YYYY-MM-DD) from which legal uses this version; null when not recorded. */
+  effectiveDate: string | null
+  /** Change log entry: what changed since the previous version. */
+  changeNote: string
+  createdAt: string
+}
+
+/** A standard reference NDA the legal team compares customer drafts against. */
+export interface NdaTemplate {
+  id: string
+  name: string
+  description: string
+  /** Preselected as the reference NDA on the home page; at most one template is the default. */
+  isDefault: boolean
+  /** Oldest first; the current one is picked by effective date (see currentVersion). */
+  versions: TemplateVersion[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type TemplateInput = Pick<NdaTemplate, "name" | "description" | "isDefault">
+
+export type TemplateVersionInput = Pick<TemplateVersion, "label" | "effectiveDate" | "changeNote">
+
+/** Clause-level changes between two versions of a template. */
+export interface TemplateVersionDiff {
+  from: TemplateVersion
+  to: TemplateVersion
+  changes: ClauseChange[]
+}
+
+/** An analysis whose reference NDA was a version of the template. */
+export interface TemplateAnalysis {
+  id: string
+  customerDocumentId: string
+  customerFileName: string
+  versionNumber: number
+  overallRisk: RiskLevel
+  riskCount: number
+  highRiskCount: number
+  /** The analysis this one re-ran against a newer version, if any. */
+  rerunOf: string | null
+  createdAt: string
+}
+
+const templates = createJsonCollection<NdaTemplate>("templates")
+
+/** The default template first, then by name. */
+export async function listTemplates(): Promise<NdaTemplate[]> {
+  return (await templates.list()).sort((a, b) =>
+    Number(b.isDefault) - Number(a.isDefault) || a.name.localeCompare(b.name)
+  )
+}
+
+export function getTemplate(id: string): Promise<NdaTemplate | null> {
+  return templates.get(id)
+}
+
+export function getTemplateVersion(template: NdaTemplate, number: number): TemplateVersion | null {
+  return template.versions.find((version) => version.number === number) ?? null
+}
+
+/** The stored document of the template's current version. */
+export async function getTemplateDocument(template: NdaTemplate): Promise<StoredDocument | null> {
+  return getDocument(currentVersion(template).documentId)
+}
+
+/** The template version a reference document belongs to, as recorded on analyses run against it. */
+export async function findTemplateVersion(document: StoredDocument): Promise<AnalysisTemplateVersion | null> {
+  const template = document.templateId ? await templates.get(document.templateId) : null
+  const version = template?.versions.find((entry) => entry.documentId === document.id)
+  if (!template || !version) return null
+
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    versionNumber: version.number,
+    versionLabel: version.label,
+    effectiveDate: version.effectiveDate,
+  }
+}
+
+// Keeps a single default: setting one clears the flag on every other template
+async function clearOtherDefaults(id: string) {
+  for (const template of await templates.list()) {
+    if (template.id !== id && template.isDefault) {
+      await templates.put({ ...template, isDefault: false })
+    }
+  }
+}
+
+async function toVersion(templateId: string, document: StoredDocument, number: number, input: TemplateVersionInput): Promise<TemplateVersion> {
+  await setDocumentTemplate(document.id, templateId)
+  return {
+    number,
+    label: input.label || `v${number}`,
+    documentId: document.id,
+    fileName: document.fileName,
+    effectiveDate: input.effectiveDate,
+    changeNote: input.changeNote,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/** Creates a template with the parsed document as its first version. The first template created becomes the default. */
+export async function createTemplate(input: TemplateInput, document: StoredDocument, version: TemplateVersionInput): Promise<NdaTemplate> {
+  const id = createId()
+  const isDefault = input.isDefault || (await templates.list()).length === 0
+  const now = new Date().toISOString()
+
+  const template = await templates.put({
+    ...input,
+    id,
+    isDefault,
+    versions: [await toVersion(id, document, 1, version)],
+    createdAt: now,
+    updatedAt: now,
+  })
+  if (isDefault) await clearOtherDefaults(id)
+  return template
+}
+
+export async function updateTemplate(id: string, input: TemplateInput): Promise<NdaTemplate | null> {
+  const existing = await templates.get(id)
+  if (!existing) return null
+
+  const template = await templates.put({ ...existing, ...input, updatedAt: new Date().toISOString() })
+  if (template.isDefault) await clearOtherDefaults(id)
+  return template
+}
+
+/** Adds the parsed document as the template's newest version; it becomes current on its effective date. */
+export async function addTemplateVersion(id: string, document: StoredDocument, input: TemplateVersionInput): Promise<NdaTemplate | null> {
+  const existing = await templates.get(id)
+  if (!existing) return null
+
+  const version = await toVersion(id, document, latestVersion(existing).number + 1, input)
+  return templates.put({ ...existing, versions: [...existing.versions, version], updatedAt: new Date().toISOString() })
+}
+
+/** Compares the clauses of two versions. Returns null when a version or its document is missing. */
+export async function diffTemplateVersions(template: NdaTemplate, fromNumber: number, toNumber: number): Promise<TemplateVersionDiff | null> {
+  const from = getTemplateVersion(template, fromNumber)
+  const to = getTemplateVersion(template, toNumber)
+  if (!from || !to) return null
+
+  const [fromDocument, toDocument] = await Promise.all([getDocument(from.documentId), getDocument(to.documentId)])
+  if (!fromDocument || !toDocument) return null
+
+  const clauses = (document: StoredDocument) =>
+    segmentClauses({ text: document.parsedContent.text, elements: document.parsedContent.elements }, "clause")
+  return { from, to, changes: compareClauses(clauses(fromDocument), clauses(toDocument)) }
+}
+
+/** Analyses run against any version of the template, newest first. */
+export async function listTemplateAnalyses(template: NdaTemplate): Promise<TemplateAnalysis[]> {
+  const versionByDocument = new Map(template.versions.map((version) => [version.documentId, version]))
+  const records = (await listStoredAnalyses()).filter((record) => versionByDocument.has(record.referenceDocumentId))
+
+  const items = await Promise.all(records.map(async (record) => ({
+    id: record.id,
+    customerDocumentId: record.customerDocumentId,
+    customerFileName: (await getDocument(record.customerDocumentId))?.fileName ?? "Deleted document",
+    versionNumber: versionByDocument.get(record.referenceDocumentId)!.number,
+    overallRisk: record.result.summary.overallRisk,
+    riskCount: record.result.risks.length,
+    highRiskCount: record.result.risks.filter((risk) => risk.severity === "high").length,
+    rerunOf: record.rerunOf ?? null,
+    createdAt: record.createdAt,
+  })))
+
+  return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/** Deletes the template; versions that past analyses were run against stay with those analyses. */
+export async function deleteTemplate(id: string): Promise<boolean> {
+  const template = await templates.get(id)
+  if (!template || !(await templates.delete(id))) return false
+
+  for (const version of template.versions) {
+    await setDocumentTemplate(version.documentId, null)
+  }
+  return true
+}
+
+/** Returns a list of problems, empty when the payload is a valid template. */
+export function validateTemplate(value: unknown): string[] {
+  const template = value as Partial<TemplateInput> | null
+  const problems: string[] = []
+
+  if (!template || typeof template.name !== "string" || !template.name.trim()) problems.push("name is required")
+  if (template?.description !== undefined && typeof template.description !== "string") problems.push("description must be a string")
+  if (template?.isDefault !== undefined && typeof template.isDefault !== "boolean") problems.push("isDefault must be a boolean")
+
+  return problems
+}
+
+/** Returns a list of problems, empty when the payload describes a valid version. */
+export function validateTemplateVersion(value: unknown): string[] {
+  const version = value as Partial<TemplateVersionInput> | null
+  const problems: string[] = []
+
+  if (version?.label !== undefined && typeof version.label !== "string") problems.push("label must be a string")
+  if (version?.changeNote !== undefined && typeof version.changeNote !== "string") problems.push("changeNote must be a string")
+  if (version?.effectiveDate) {
+    const valid = typeof version.effectiveDate === "string" &&
+      /^\d{4}-\d{2}-\d{2}$/.test(version.effectiveDate) &&
+      !Number.isNaN(Date.parse(version.effectiveDate))
+    if (!valid) problems.push("effectiveDate must be a date in the form YYYY-MM-DD")
+  }
+
+  return problems
+}
+
+export function toTemplateVersionInput(value: Partial<TemplateVersionInput> | null): TemplateVersionInput {
+  return {
+    label: value?.label?.trim() ?? "",
+    effectiveDate: value?.effectiveDate || null,
+    changeNote: value?.changeNote?.trim() ?? "",
+  }
+}
+
+export function toTemplateInput(value: Partial<TemplateInput> & Pick<TemplateInput, "name">): TemplateInput {
+  return {
+    name: value.name.trim(),
+    description: value.description?.trim() ?? "",
+    isDefault: value.isDefault ?? false,
+  }
+}
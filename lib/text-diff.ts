@@ -0,0 +1,182 @@
+export type DiffSegmentType = "equal" | "insert" | "delete"
+
+export interface DiffSegment {
+  type: DiffSegmentType
+  text: string
+}
+
+export interface DiffOptions {
+  /** Treat runs of whitespace as insignificant. */
+  ignoreWhitespace?: boolean
+  /** Treat punctuation as insignificant. */
+  ignorePunctuation?: boolean
+}
+
+interface Token {
+  /** Comparison key. */
+  key: string
+  /** Display text, including any insignificant tokens that follow it. */
+  text: string
+}
+
+// Beyond this edit distance the texts are shown as a full replacement
+const MAX_EDIT_DISTANCE = 4000
+
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}]+(?:['’][\p{L}]+)?|[^\s\p{L}\p{N}]/gu
+
+function isWhitespace(token: string): boolean {
+  return /^\s+$/.test(token)
+}
+
+function isPunctuation(token: string): boolean {
+  return /^[^\s\p{L}\p{N}]$/u.test(token)
+}
+
+/**
+ * Splits text into word, whitespace and punctuation tokens. Ignored tokens are
+ * folded into the display text of the preceding token so they never show up
+ * as changes on their own.
+ */
+function tokenize(text: string, options: DiffOptions): { leading: string; tokens: Token[] } {
+  const tokens: Token[] = []
+  let leading = ""
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const raw = match[0]
+    const ignored = (options.ignoreWhitespace && isWhitespace(raw)) ||
+      (options.ignorePunctuation && isPunctuation(raw))
+
+    if (ignored) {
+      if (tokens.length > 0) {
+        tokens[tokens.length - 1].text += raw
+      } else {
+        leading += raw
+      }
+    } else {
+      tokens.push({ key: isWhitespace(raw) ? " " + raw.length : raw, text: raw })
+    }
+  }
+
+  return { leading, tokens }
+}
+
+type Operation = { type: DiffSegmentType; token: Token }
+
+// Myers' O(ND) shortest edit script over token keys
+function shortestEditScript(a: Token[], b: Token[]): Operation[] | null {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x].key === b[y].key) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, d, k)
+      }
+    }
+  }
+
+  return null
+}
+
+function backtrack(a: Token[], b: Token[], trace: Int32Array[], finalD: number, finalK: number): Operation[] {
+  const operations: Operation[] = []
+  let x = a.length
+  let y = b.length
+  let k = finalK
+
+  for (let d = finalD; d > 0; d--) {
+    // trace[d] covers diagonals -d-1..d+1 as they were before step d
+    const previous = trace[d]
+    const at = (diagonal: number) => previous[diagonal + d + 1]
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const previousX = at(previousK)
+    const previousY = previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      operations.push({ type: "equal", token: b[--y] })
+      x--
+    }
+    if (previousK === k + 1) {
+      operations.push({ type: "insert", token: b[--y] })
+    } else {
+      operations.push({ type: "delete", token: a[--x] })
+    }
+    k = previousK
+  }
+
+  while (x > 0 && y > 0) {
+    operations.push({ type: "equal", token: b[--y] })
+    x--
+  }
+
+  return operations.reverse()
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegmentType, text: string) {
+  if (!text) return
+  const last = segments[segments.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    segments.push({ type, text })
+  }
+}
+
+/**
+ * Word-level diff from `original` to `revised`. Equal runs use the revised
+ * text, so ignored whitespace and punctuation follow the revised document.
+ */
+export function diffWords(original: string, revised: string, options: DiffOptions = {}): DiffSegment[] {
+  const before = tokenize(original, options)
+  const after = tokenize(revised, options)
+  const segments: DiffSegment[] = []
+
+  pushSegment(segments, "equal", after.leading)
+
+  // Common prefix and suffix are trimmed before running the edit script
+  let prefix = 0
+  while (prefix < before.tokens.length && prefix < after.tokens.length && before.tokens[prefix].key === after.tokens[prefix].key) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < before.tokens.length - prefix &&
+    suffix < after.tokens.length - prefix &&
+    before.tokens[before.tokens.length - 1 - suffix].key === after.tokens[after.tokens.length - 1 - suffix].key
+  ) {
+    suffix++
+  }
+
+  after.tokens.slice(0, prefix).forEach((token) => pushSegment(segments, "equal", token.text))
+
+  const a = before.tokens.slice(prefix, before.tokens.length - suffix)
+  const b = after.tokens.slice(prefix, after.tokens.length - suffix)
+  const operations = shortestEditScript(a, b)
+
+  if (operations) {
+    operations.forEach(({ type, token }) => pushSegment(segments, type, token.text))
+  } else {
+    a.forEach((token) => pushSegment(segments, "delete", token.text))
+    b.forEach((token) => pushSegment(segments, "insert", token.text))
+  }
+
+  after.tokens.slice(after.tokens.length - suffix).forEach((token) => pushSegment(segments, "equal", token.text))
+
+  return segments
+}
@@ -0,0 +1,24 @@
+const STOP_WORDS = new Set([
+  "the", "a", "an", "and", "or", "of", "to", "in", "for", "by", "on", "with", "any", "all",
+  "shall", "be", "is", "are", "this", "that", "such", "as", "from", "its", "their", "which",
+])
+
+/** Lower-cased words of three or more letters, excluding common stop words. */
+export function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+  )
+}
+
+/** Dice coefficient between two word sets, from 0 (disjoint) to 1 (identical). */
+export function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1
+  let shared = 0
+  a.forEach((word) => {
+    if (b.has(word)) shared++
+  })
+  return (2 * shared) / (a.size + b.size)
+}
@@ -4,3 +4,37 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/** Maps `items` through `fn`, running at most `limit` calls at a time; results keep the input order. */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+  return results
+}
+
+/**
+ * Saves a file download fetched with `fetch`, named from its Content-Disposition.
+ * Throws with the route's error message when the response is not a file.
+ */
+export async function saveDownload(response: Response, fallbackName: string): Promise<void> {
+  if (!response.ok) {
+    const result = await response.json().catch(() => null)
+    throw new Error(result?.error || `Download failed: ${response.status}`)
+  }
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName
+  link.click()
+  URL.revokeObjectURL(url)
+}